@@ -0,0 +1,60 @@
+/**
+ * Compares sign-data verification throughput:
+ *   • sequential `verifySignDataDetailed` calls
+ *   • `verifyBatch` on the calling thread
+ *   • `verifyBatch` with a worker pool
+ *
+ * Usage: npm run bench -- [items] [workers]
+ */
+import { availableParallelism } from 'node:os';
+import nacl from 'tweetnacl';
+import { signData } from '../src/sign';
+import { verifySignDataDetailed } from '../src/verify';
+import { BatchItem, verifyBatch, VerifyWorkerPool } from '../src/batch';
+
+const count = Number(process.argv[2] ?? 1000);
+const workers = Number(process.argv[3] ?? availableParallelism());
+
+const ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const keyPairs = Array.from({ length: 50 }, (_, n) =>
+    nacl.sign.keyPair.fromSeed(Buffer.alloc(32, n + 1))
+);
+
+console.log(`Signing ${count} proofs...`);
+const items: BatchItem[] = Array.from({ length: count }, (_, n) => {
+    const keyPair = keyPairs[n % keyPairs.length];
+    return {
+        signedData: signData({
+            payload: { type: 'text', text: `Login nonce ${n}` },
+            domain: 'example.com',
+            address: ADDRESS,
+            privateKey: Buffer.from(keyPair.secretKey),
+        }),
+        publicKey: Buffer.from(keyPair.publicKey),
+    };
+});
+
+async function measure(name: string, run: () => Promise<unknown>) {
+    const start = performance.now();
+    await run();
+    const ms = performance.now() - start;
+    console.log(
+        `${name.padEnd(28)} ${ms.toFixed(0).padStart(7)} ms  ${Math.round(
+            (count / ms) * 1000
+        )
+            .toString()
+            .padStart(7)} proofs/s`
+    );
+}
+
+await measure('sequential', async () =>
+    items.map((item) => verifySignDataDetailed(item))
+);
+await measure('verifyBatch', () => verifyBatch(items));
+
+const pool = new VerifyWorkerPool(workers);
+await verifyBatch(items.slice(0, workers), { pool }); // warm up workers
+await measure(`verifyBatch, ${workers} workers`, () =>
+    verifyBatch(items, { pool })
+);
+await pool.close();
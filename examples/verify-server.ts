@@ -0,0 +1,52 @@
+/**
+ * Reference sign-data verification server on 127.0.0.1.
+ *
+ * Usage: npm run server -- [--port 3000] [--allowed-domain example.com]...
+ *                          [--max-age 300] [--public-key <hex>]
+ *
+ * POST /verify { "signedData": <SignDataResult>, "walletStateInit": "..." }
+ *
+ * The public key is taken from `walletStateInit`, or is `--public-key` for
+ * every address, handy with proofs made by `ton-sign-data sign`.
+ */
+import { parseArgs } from 'node:util';
+import {
+    FallbackPublicKeyResolver,
+    InMemorySeenSignatureStore,
+    PublicKeyResolver,
+    StateInitPublicKeyResolver,
+    VerifyServer,
+} from '../src/node';
+
+const { values } = parseArgs({
+    options: {
+        port: { type: 'string', default: '3000' },
+        'allowed-domain': { type: 'string', multiple: true },
+        'max-age': { type: 'string', default: '300' },
+        'public-key': { type: 'string' },
+    },
+});
+
+const resolvers: PublicKeyResolver[] = [new StateInitPublicKeyResolver()];
+if (values['public-key']) {
+    const publicKey = Buffer.from(values['public-key'], 'hex');
+    resolvers.push({ resolvePublicKey: async () => publicKey });
+}
+
+const server = new VerifyServer({
+    resolver: new FallbackPublicKeyResolver(...resolvers),
+    allowedDomains: values['allowed-domain'],
+    maxAgeSeconds: Number(values['max-age']),
+    seenSignatures: new InMemorySeenSignatureStore(),
+});
+const url = await server.listen(Number(values.port));
+
+console.log(`Listening on ${url}verify`);
+console.log(
+    `Try, with --public-key of the signing key:
+  npm run cli -- sign --type text --text hello --domain example.com \\
+  --address UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx --secret-key <hex> \\
+  | jq '{signedData: .}' | curl -s --json @- ${url}verify`
+);
+
+process.on('SIGINT', () => server.close().then(() => process.exit(0)));
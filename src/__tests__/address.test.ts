@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { Address } from '@ton/core';
+import nacl from 'tweetnacl';
+import {
+    addressTestOnlyFlag,
+    checkAddress,
+    MAINNET,
+    normalizeAddress,
+    TESTNET,
+} from '../address';
+import { signData } from '../sign';
+import { verifySignDataDetailed } from '../verify';
+import { parseSignDataResult } from '../validate';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const parsed = Address.parse(TEST_ADDRESS);
+const RAW = parsed.toRawString();
+const BOUNCEABLE = parsed.toString({ bounceable: true });
+const TESTNET_ADDRESS = parsed.toString({ bounceable: false, testOnly: true });
+const MASTERCHAIN_RAW = '-1:' + RAW.split(':')[1];
+const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(4));
+
+const sign = (address: string) =>
+    signData({
+        payload: { type: 'text', text: 'Hello' },
+        domain: 'example.com',
+        privateKey: keyPair.secretKey,
+        address,
+        timestamp: 1700000000,
+    });
+
+describe('addressTestOnlyFlag', () => {
+    it('reads the flag of user-friendly addresses only', () => {
+        expect(addressTestOnlyFlag(TEST_ADDRESS)).toBe(false);
+        expect(addressTestOnlyFlag(TESTNET_ADDRESS)).toBe(true);
+        expect(addressTestOnlyFlag(RAW)).toBeUndefined();
+    });
+
+    it('throws on an invalid address', () => {
+        expect(() => addressTestOnlyFlag('nobody')).toThrow();
+    });
+});
+
+describe('checkAddress', () => {
+    it('checks nothing without options', () => {
+        expect(checkAddress(TESTNET_ADDRESS, {})).toBeNull();
+    });
+
+    it.each([
+        [TEST_ADDRESS, MAINNET, null],
+        [BOUNCEABLE, MAINNET, null],
+        [TESTNET_ADDRESS, MAINNET, 'network_mismatch'],
+        [TEST_ADDRESS, TESTNET, 'network_mismatch'],
+        [TESTNET_ADDRESS, TESTNET, null],
+        [RAW, MAINNET, null],
+        [RAW, TESTNET, null],
+    ])('%s on network %s: %s', (address, network, expected) => {
+        expect(checkAddress(address, { network })).toBe(expected);
+    });
+
+    it('checks the workchain allowlist', () => {
+        expect(checkAddress(RAW, { allowedWorkchains: [0] })).toBeNull();
+        expect(checkAddress(MASTERCHAIN_RAW, { allowedWorkchains: [0] })).toBe(
+            'workchain_not_allowed'
+        );
+        expect(
+            checkAddress(MASTERCHAIN_RAW, { allowedWorkchains: [0, -1] })
+        ).toBeNull();
+    });
+});
+
+describe('normalizeAddress', () => {
+    it('gives the same forms whatever the input form', () => {
+        for (const address of [TEST_ADDRESS, BOUNCEABLE, RAW]) {
+            expect(normalizeAddress(address)).toEqual({
+                addressRaw: RAW,
+                addressFriendly: TEST_ADDRESS,
+            });
+        }
+    });
+
+    it('keeps the testnet flag', () => {
+        expect(normalizeAddress(TESTNET_ADDRESS).addressFriendly).toBe(
+            TESTNET_ADDRESS
+        );
+        expect(normalizeAddress(RAW, TESTNET).addressFriendly).toBe(
+            TESTNET_ADDRESS
+        );
+    });
+});
+
+describe('signData', () => {
+    it('adds the normalized address forms', () => {
+        expect(sign(RAW)).toMatchObject({
+            address: RAW,
+            addressRaw: RAW,
+            addressFriendly: TEST_ADDRESS,
+        });
+    });
+
+    it('rejects an address flagged for another network', () => {
+        expect(() =>
+            signData({
+                payload: { type: 'text', text: 'Hello' },
+                domain: 'example.com',
+                privateKey: keyPair.secretKey,
+                address: TESTNET_ADDRESS,
+                network: MAINNET,
+            })
+        ).toThrow('Address is not flagged for network -239');
+    });
+
+    it('produces results that pass strict validation', () => {
+        expect(parseSignDataResult(sign(RAW), { strict: true }).valid).toBe(
+            true
+        );
+    });
+});
+
+describe('verifySignDataDetailed', () => {
+    const verify = (
+        signedData: ReturnType<typeof sign>,
+        options: object = {}
+    ) =>
+        verifySignDataDetailed({
+            signedData,
+            publicKey: keyPair.publicKey,
+            ...options,
+        });
+
+    it('rejects a testnet address on mainnet and vice versa', () => {
+        expect(verify(sign(TESTNET_ADDRESS), { network: MAINNET })).toEqual({
+            valid: false,
+            reason: 'network_mismatch',
+            message: 'Address is flagged for another network',
+        });
+        expect(verify(sign(TEST_ADDRESS), { network: TESTNET })).toMatchObject({
+            reason: 'network_mismatch',
+        });
+        expect(verify(sign(TESTNET_ADDRESS), { network: TESTNET })).toEqual({
+            valid: true,
+        });
+    });
+
+    it('rejects a workchain that is not allowed', () => {
+        expect(
+            verify(sign(MASTERCHAIN_RAW), { allowedWorkchains: [0] })
+        ).toMatchObject({ valid: false, reason: 'workchain_not_allowed' });
+    });
+
+    it('rejects address forms that do not match the signed address', () => {
+        const other = normalizeAddress('0:' + '00'.repeat(32));
+
+        expect(
+            verify({ ...sign(TEST_ADDRESS), addressRaw: other.addressRaw })
+        ).toMatchObject({ valid: false, reason: 'malformed_address' });
+        expect(
+            verify({
+                ...sign(TEST_ADDRESS),
+                addressFriendly: other.addressFriendly,
+            })
+        ).toMatchObject({ valid: false, reason: 'malformed_address' });
+        expect(
+            verify({ ...sign(TEST_ADDRESS), addressFriendly: BOUNCEABLE })
+        ).toEqual({ valid: true });
+    });
+});
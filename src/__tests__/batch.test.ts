@@ -0,0 +1,211 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import nacl from 'tweetnacl';
+import { Address } from '@ton/core';
+import { signData } from '../sign';
+import { verifySignDataDetailed } from '../verify';
+import { BatchItem, verifyBatch, VerifyWorkerPool } from '../batch';
+import { createSignDataHash } from '../utils';
+import { InMemorySeenSignatureStore } from '../replay';
+import { SignDataResult } from '../types';
+import { naclCryptoProvider } from '../crypto';
+import { nodeCryptoProvider } from '../crypto-node';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const keyPairs = [1, 2, 3].map((n) =>
+    nacl.sign.keyPair.fromSeed(Buffer.alloc(32, n))
+);
+
+function signed(n: number, keyPair = keyPairs[n % keyPairs.length]): BatchItem {
+    const signedData = signData({
+        payload: { type: 'text', text: `Login #${n}` },
+        domain: 'example.com',
+        address: TEST_ADDRESS,
+        privateKey: Buffer.from(keyPair.secretKey),
+        timestamp: 1700000000,
+    });
+    return { signedData, publicKey: Buffer.from(keyPair.publicKey) };
+}
+
+function tampered(item: BatchItem): BatchItem {
+    const signedData: SignDataResult = {
+        ...item.signedData,
+        payload: { type: 'text', text: 'tampered' },
+    };
+    return { ...item, signedData };
+}
+
+// Order of the Ed25519 base point
+const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+
+// Same signature with S + L: tweetnacl accepts it, OpenSSL does not
+function nonCanonical(item: BatchItem): BatchItem {
+    const signature = Buffer.from(item.signedData.signature, 'base64');
+    const s =
+        BigInt(
+            '0x' + Buffer.from(signature.subarray(32)).reverse().toString('hex')
+        ) + L;
+    Buffer.from(s.toString(16).padStart(64, '0'), 'hex')
+        .reverse()
+        .copy(signature, 32);
+    return {
+        ...item,
+        signedData: {
+            ...item.signedData,
+            signature: signature.toString('base64'),
+        },
+    };
+}
+
+const items: BatchItem[] = [
+    signed(0),
+    signed(1),
+    tampered(signed(2)),
+    { ...signed(3), signedData: { ...signed(3).signedData, address: 'bad' } },
+    { ...signed(4), publicKey: Buffer.alloc(31) },
+    signed(5),
+];
+
+describe('verifyBatch', () => {
+    it('returns the same results as verifySignDataDetailed, in order', async () => {
+        const results = await verifyBatch(items);
+
+        expect(results).toEqual(
+            items.map((item) => verifySignDataDetailed(item))
+        );
+        expect(results.map((r) => (r.valid ? 'ok' : r.reason))).toEqual([
+            'ok',
+            'ok',
+            'invalid_signature',
+            'malformed_address',
+            'bad_public_key_length',
+            'ok',
+        ]);
+    });
+
+    it('applies policy options to every item', async () => {
+        const results = await verifyBatch([signed(0), signed(1)], {
+            allowedDomains: ['other.com'],
+        });
+
+        expect(results.map((r) => !r.valid && r.reason)).toEqual([
+            'domain_mismatch',
+            'domain_mismatch',
+        ]);
+    });
+
+    it('marks repeated proofs within a batch as replayed', async () => {
+        const item = signed(0);
+        const results = await verifyBatch([item, signed(1), item], {
+            maxAgeSeconds: 300,
+            now: 1700000000,
+            seenSignatures: new InMemorySeenSignatureStore({
+                now: () => 1700000000,
+            }),
+        });
+
+        expect(results.map((r) => (r.valid ? 'ok' : r.reason))).toEqual([
+            'ok',
+            'ok',
+            'replayed',
+        ]);
+    });
+
+    it('handles an empty batch', async () => {
+        expect(await verifyBatch([])).toEqual([]);
+    });
+});
+
+describe('VerifyWorkerPool', () => {
+    const pool = new VerifyWorkerPool(2);
+
+    afterAll(() => pool.close());
+
+    it('gives the same results as the sequential path', async () => {
+        const many = Array.from({ length: 25 }, (_, n) =>
+            n % 5 === 0 ? tampered(signed(n)) : signed(n)
+        );
+
+        expect(await verifyBatch(many, { pool })).toEqual(
+            await verifyBatch(many)
+        );
+        expect(await verifyBatch(items, { pool })).toEqual(
+            await verifyBatch(items)
+        );
+    });
+
+    it('checks signatures like the selected provider', async () => {
+        const batch = [signed(0), nonCanonical(signed(1))];
+
+        expect(await verifyBatch(batch, { pool })).toEqual(
+            await verifyBatch(batch)
+        );
+
+        const { signedData, publicKey } = batch[1];
+        const job = {
+            hash: new Uint8Array(
+                createSignDataHash(
+                    signedData.payload,
+                    Address.parse(signedData.address),
+                    signedData.domain,
+                    signedData.timestamp
+                )
+            ),
+            signature: new Uint8Array(
+                Buffer.from(signedData.signature, 'base64')
+            ),
+            publicKey: 0,
+        };
+        for (const provider of [naclCryptoProvider, nodeCryptoProvider]) {
+            expect(
+                await pool.verify([job], [publicKey], provider.name)
+            ).toEqual([
+                provider.verifySync(job.hash, job.signature, publicKey),
+            ]);
+        }
+        expect(
+            naclCryptoProvider.verifySync(job.hash, job.signature, publicKey)
+        ).toBe(true);
+        expect(
+            nodeCryptoProvider.verifySync(job.hash, job.signature, publicKey)
+        ).toBe(false);
+    });
+
+    it('rejects providers the workers cannot reproduce', async () => {
+        await expect(pool.verify([], [], 'webcrypto')).rejects.toThrow(
+            'Worker pool cannot check signatures with the "webcrypto" crypto provider'
+        );
+    });
+
+    it('replaces a worker that dies', async () => {
+        const crashPool = new VerifyWorkerPool(1);
+        const job = { hash: new Uint8Array(32), signature: new Uint8Array(64) };
+
+        // No key at index 0: tweetnacl throws in the worker
+        await expect(
+            crashPool.verify([{ ...job, publicKey: 0 }], [])
+        ).rejects.toThrow();
+        expect(
+            await crashPool.verify(
+                [{ ...job, publicKey: 0 }],
+                [new Uint8Array(32)]
+            )
+        ).toEqual([false]);
+
+        await crashPool.close();
+    });
+
+    it('rejects checks once closed', async () => {
+        const closedPool = new VerifyWorkerPool(1);
+        await closedPool.close();
+
+        await expect(closedPool.verify([], [])).rejects.toThrow(
+            'Worker pool is closed'
+        );
+    });
+
+    it('rejects invalid pool size', () => {
+        expect(() => new VerifyWorkerPool(0)).toThrow(
+            'Pool size must be a positive integer, got 0'
+        );
+    });
+});
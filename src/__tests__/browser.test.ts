@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import nacl from 'tweetnacl';
+import { Buffer as BufferPolyfill } from 'buffer';
+import {
+    KeyPairSigner,
+    setCryptoProvider,
+    signData,
+    signDataAsync,
+    signDataWith,
+    SignDataPayload,
+    verifySignData,
+    verifySignDataAsync,
+    webCryptoProvider,
+} from '../browser';
+
+declare const EdgeRuntime: string | undefined;
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(7));
+
+const payloads: SignDataPayload[] = [
+    { type: 'text', text: 'Hello, TON!' },
+    { type: 'binary', bytes: btoa('binary data') },
+    {
+        type: 'cell',
+        schema: 'message#_ = Message',
+        cell: 'te6cckEBAQEAAgAAAEysuc0=',
+    },
+];
+
+describe('browser entry point', () => {
+    afterEach(() => setCryptoProvider(undefined));
+
+    it.runIf(typeof EdgeRuntime === 'string')(
+        'runs on the buffer package, not on Node.js Buffer',
+        () => {
+            expect(globalThis.Buffer).toBe(BufferPolyfill);
+        }
+    );
+
+    it.each(payloads)(
+        'signs and verifies $type with Uint8Array keys',
+        (payload) => {
+            const signedData = signData({
+                payload,
+                domain: 'пример.рф',
+                privateKey: keyPair.secretKey,
+                address: TEST_ADDRESS,
+            });
+
+            expect(
+                verifySignData({ signedData, publicKey: keyPair.publicKey })
+            ).toBe(true);
+        }
+    );
+
+    it.each(payloads)(
+        'hashes and verifies $type with WebCrypto',
+        async (payload) => {
+            setCryptoProvider(webCryptoProvider);
+            const params = {
+                payload,
+                domain: 'app.example.com',
+                privateKey: keyPair.secretKey,
+                address: TEST_ADDRESS,
+                timestamp: 1700000000,
+            };
+
+            const signedData = await signDataAsync(params);
+
+            expect(signedData).toEqual(signData(params));
+            expect(
+                await verifySignDataAsync({
+                    signedData,
+                    publicKey: keyPair.publicKey,
+                })
+            ).toEqual({ valid: true });
+        }
+    );
+
+    it('rejects a signature from another key', async () => {
+        setCryptoProvider(webCryptoProvider);
+        const signedData = await signDataWith(
+            KeyPairSigner.fromSeed(new Uint8Array(32).fill(8)),
+            {
+                payload: payloads[0],
+                domain: 'app.example.com',
+                address: TEST_ADDRESS,
+            }
+        );
+
+        expect(
+            await verifySignDataAsync({
+                signedData,
+                publicKey: keyPair.publicKey,
+            })
+        ).toMatchObject({ valid: false, reason: 'invalid_signature' });
+    });
+});
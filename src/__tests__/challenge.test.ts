@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import nacl from 'tweetnacl';
+import { signData } from '../sign';
+import { verifySignDataDetailed } from '../verify';
+import { decodeTlbCell, validateTlbCell } from '../tlb-decode';
+import {
+    Challenge,
+    CHALLENGE_SCHEMA,
+    createChallenge,
+    createChallengeToken,
+    openChallengeToken,
+} from '../challenge';
+import { SignDataPayload } from '../types';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const NOW = 1700000000;
+const NONCE = '00112233445566778899aabbccddeeff';
+const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(9));
+const secret = Buffer.from('challenge token secret, 32 bytes');
+
+const sign = (payload: SignDataPayload, domain = 'example.com') =>
+    signData({
+        payload,
+        domain,
+        privateKey: keyPair.secretKey,
+        address: TEST_ADDRESS,
+        timestamp: NOW + 10,
+    });
+
+const types = ['text', 'binary', 'cell'] as const;
+
+describe('createChallenge', () => {
+    it('fills the text template', () => {
+        expect(
+            createChallenge({
+                type: 'text',
+                domain: 'example.com',
+                nonce: NONCE,
+                now: NOW,
+            })
+        ).toEqual({
+            nonce: NONCE,
+            domain: 'example.com',
+            expiresAt: NOW + 300,
+            payload: {
+                type: 'text',
+                text: `Sign in to example.com\n\nNonce: ${NONCE}\nExpires: 2023-11-14T22:18:20.000Z`,
+            },
+        });
+
+        const custom = createChallenge({
+            type: 'text',
+            domain: 'example.com',
+            template: 'Login {nonce} until {expiresAt} {unknown} {constructor}',
+            nonce: 'abc',
+            ttlSeconds: 60,
+            now: NOW,
+        });
+        expect(custom.payload).toEqual({
+            type: 'text',
+            text: `Login abc until ${NOW + 60} {unknown} {constructor}`,
+        });
+    });
+
+    it('encodes binary challenge', () => {
+        const challenge = createChallenge({
+            type: 'binary',
+            domain: 'example.com',
+            nonce: NONCE,
+            now: NOW,
+        });
+        const bytes = Buffer.from(
+            (challenge.payload as { bytes: string }).bytes,
+            'base64'
+        );
+
+        expect(bytes.subarray(0, 4).toString()).toBe('TCC1');
+        expect(bytes.readBigUInt64BE(4)).toBe(BigInt(NOW + 300));
+        expect(bytes[12]).toBe(32);
+        expect(bytes.subarray(13, 45).toString()).toBe(NONCE);
+        expect(bytes[45]).toBe(11);
+        expect(bytes.subarray(46).toString()).toBe('example.com');
+    });
+
+    it('builds cell with the challenge schema', () => {
+        const { payload } = createChallenge({
+            type: 'cell',
+            domain: 'example.com',
+            nonce: NONCE,
+            now: NOW,
+        });
+
+        expect(payload.type === 'cell' && payload.schema).toBe(
+            CHALLENGE_SCHEMA
+        );
+        if (payload.type === 'cell') {
+            expect(validateTlbCell(payload.schema, payload.cell).valid).toBe(
+                true
+            );
+            expect(decodeTlbCell(payload.schema, payload.cell)).toMatchObject({
+                nonce: NONCE,
+                expires_at: String(NOW + 300),
+                domain: 'example.com',
+            });
+        }
+    });
+
+    it('generates a random nonce', () => {
+        const a = createChallenge({ type: 'text', domain: 'example.com' });
+        const b = createChallenge({ type: 'text', domain: 'example.com' });
+
+        expect(a.nonce).toMatch(/^[0-9a-f]{32}$/);
+        expect(a.nonce).not.toBe(b.nonce);
+    });
+
+    it('rejects oversized binary fields', () => {
+        expect(() =>
+            createChallenge({
+                type: 'binary',
+                domain: 'example.com',
+                nonce: 'x'.repeat(256),
+            })
+        ).toThrow('Nonce must be at most 255 bytes');
+    });
+});
+
+describe.each(types)('verifying %s challenge', (type) => {
+    const challenge = createChallenge({
+        type,
+        domain: 'example.com',
+        nonce: NONCE,
+        now: NOW,
+    });
+    const verify = (
+        payload: SignDataPayload,
+        options: { domain?: string; now?: number; challenge?: Challenge } = {}
+    ) =>
+        verifySignDataDetailed({
+            signedData: sign(payload, options.domain),
+            publicKey: keyPair.publicKey,
+            challenge: options.challenge ?? challenge,
+            now: options.now ?? NOW + 10,
+        });
+
+    it('accepts the signed challenge', () => {
+        expect(verify(challenge.payload)).toEqual({ valid: true });
+    });
+
+    it('finds the nonce with expectedNonce', () => {
+        expect(
+            verifySignDataDetailed({
+                signedData: sign(challenge.payload),
+                publicKey: keyPair.publicKey,
+                expectedNonce: NONCE,
+            })
+        ).toEqual({ valid: true });
+    });
+
+    it('rejects another payload', () => {
+        const other = createChallenge({
+            type,
+            domain: 'example.com',
+            nonce: 'ffeeddccbbaa99887766554433221100',
+            now: NOW,
+        });
+
+        expect(verify(other.payload)).toMatchObject({
+            reason: 'challenge_mismatch',
+        });
+    });
+
+    it('rejects another domain', () => {
+        expect(
+            verify(challenge.payload, { domain: 'evil.example.com' })
+        ).toMatchObject({ reason: 'challenge_domain_mismatch' });
+    });
+
+    it('rejects an expired challenge', () => {
+        expect(verify(challenge.payload, { now: NOW + 301 })).toMatchObject({
+            reason: 'challenge_expired',
+        });
+    });
+});
+
+describe('challenge tokens', () => {
+    const challenge = createChallenge({
+        type: 'cell',
+        domain: 'example.com',
+        now: NOW,
+    });
+
+    it('round-trips the challenge', async () => {
+        const token = await createChallengeToken(challenge, secret);
+
+        expect(await openChallengeToken(token, secret, NOW)).toEqual({
+            valid: true,
+            challenge,
+        });
+    });
+
+    it('rejects tokens not issued with the secret', async () => {
+        const token = await createChallengeToken(challenge, secret);
+        const [body, mac] = token.split('.');
+        const forged = Buffer.from(
+            JSON.stringify({ ...challenge, expiresAt: NOW + 86400 })
+        ).toString('base64url');
+
+        expect(
+            await openChallengeToken(`${forged}.${mac}`, secret, NOW)
+        ).toMatchObject({ valid: false, reason: 'invalid_signature' });
+        expect(
+            await openChallengeToken(
+                `${body}.${mac}`,
+                Buffer.from('another token secret of 32 bytes'),
+                NOW
+            )
+        ).toMatchObject({ valid: false, reason: 'invalid_signature' });
+    });
+
+    it('refuses secrets shorter than 32 bytes', async () => {
+        const token = await createChallengeToken(challenge, secret);
+        const short = secret.subarray(0, 31);
+
+        await expect(createChallengeToken(challenge, short)).rejects.toThrow(
+            'HS256 secret must be at least 32 bytes, got 31'
+        );
+        await expect(openChallengeToken(token, short, NOW)).rejects.toThrow(
+            'HS256 secret must be at least 32 bytes, got 31'
+        );
+    });
+
+    it('rejects expired and malformed tokens', async () => {
+        const token = await createChallengeToken(challenge, secret);
+
+        expect(
+            await openChallengeToken(token, secret, NOW + 301)
+        ).toMatchObject({ valid: false, reason: 'expired' });
+        for (const malformed of ['', 'abc', 'a.b.c', 'a+b.c']) {
+            expect(
+                await openChallengeToken(malformed, secret, NOW)
+            ).toMatchObject({ valid: false, reason: 'malformed_token' });
+        }
+    });
+
+    it.each([
+        ['null', null],
+        ['an array', [challenge]],
+        ['a string expiry', { ...challenge, expiresAt: String(NOW + 300) }],
+        ['a missing expiry', { ...challenge, expiresAt: undefined }],
+        ['a numeric nonce', { ...challenge, nonce: 42 }],
+        ['a missing domain', { ...challenge, domain: undefined }],
+        ['a malformed payload', { ...challenge, payload: { type: 'text' } }],
+    ])('rejects a signed token holding %s', async (_, body) => {
+        const token = await createChallengeToken(body as Challenge, secret);
+
+        expect(await openChallengeToken(token, secret, NOW)).toEqual({
+            valid: false,
+            reason: 'malformed_token',
+            message: 'Challenge token is malformed',
+        });
+    });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import nacl from 'tweetnacl';
+import { CliIo, runCli } from '../cli';
+import { SignDataResult } from '../types';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const SEED = Buffer.alloc(32, 7);
+const PUBLIC_KEY = Buffer.from(
+    nacl.sign.keyPair.fromSeed(SEED).publicKey
+).toString('hex');
+
+function createIo(stdin = '') {
+    const out = { stdout: '', stderr: '' };
+    const io: CliIo = {
+        stdin: async () => Buffer.from(stdin),
+        stdout: (text) => (out.stdout += text),
+        stderr: (text) => (out.stderr += text),
+    };
+    return { io, out };
+}
+
+async function run(argv: string[], stdin?: string) {
+    const { io, out } = createIo(stdin);
+    const code = await runCli(argv, io);
+    return { code, ...out };
+}
+
+async function signText(text: string): Promise<SignDataResult> {
+    const { code, stdout } = await run([
+        'sign',
+        '--type',
+        'text',
+        '--text',
+        text,
+        '--domain',
+        'example.com',
+        '--address',
+        TEST_ADDRESS,
+        '--secret-key',
+        SEED.toString('hex'),
+    ]);
+    expect(code).toBe(0);
+    return JSON.parse(stdout);
+}
+
+describe('cli', () => {
+    it('signs and verifies text payload', async () => {
+        const signed = await signText('Hello, TON!');
+        expect(signed.payload).toEqual({ type: 'text', text: 'Hello, TON!' });
+
+        const result = await run(
+            ['verify', '--public-key', PUBLIC_KEY],
+            JSON.stringify(signed)
+        );
+        expect(result.code).toBe(0);
+        expect(JSON.parse(result.stdout)).toEqual({ valid: true });
+    });
+
+    it('signs binary payload from stdin', async () => {
+        const { code, stdout } = await run(
+            [
+                'sign',
+                '--type',
+                'binary',
+                '--domain',
+                'example.com',
+                '--address',
+                TEST_ADDRESS,
+                '--secret-key',
+                SEED.toString('hex'),
+            ],
+            'raw bytes'
+        );
+        expect(code).toBe(0);
+        expect(JSON.parse(stdout).payload).toEqual({
+            type: 'binary',
+            bytes: Buffer.from('raw bytes').toString('base64'),
+        });
+    });
+
+    it('builds cell payload from JSON value', async () => {
+        const { code, stdout } = await run([
+            'sign',
+            '--type',
+            'cell',
+            '--schema',
+            'msg#_ amount:uint32 = Msg;',
+            '--value',
+            '{"amount":5}',
+            '--domain',
+            'example.com',
+            '--address',
+            TEST_ADDRESS,
+            '--secret-key',
+            SEED.toString('hex'),
+            '--strict-schema',
+        ]);
+        expect(code).toBe(0);
+
+        const verify = await run(
+            ['verify', '--public-key', PUBLIC_KEY, '--strict-schema'],
+            stdout
+        );
+        expect(verify.code).toBe(0);
+    });
+
+    it('exits with 1 and reason when verification fails', async () => {
+        const signed = await signText('Hello, TON!');
+        signed.payload = { type: 'text', text: 'Hello, TON?' };
+
+        const result = await run(
+            ['verify', '--public-key', PUBLIC_KEY],
+            JSON.stringify(signed)
+        );
+        expect(result.code).toBe(1);
+        expect(JSON.parse(result.stdout)).toMatchObject({
+            valid: false,
+            reason: 'invalid_signature',
+        });
+    });
+
+    it('applies domain allowlist', async () => {
+        const signed = await signText('Hello, TON!');
+
+        const result = await run(
+            [
+                'verify',
+                '--public-key',
+                PUBLIC_KEY,
+                '--allowed-domain',
+                'other.com',
+                '--allowed-domain',
+                '*.example.com',
+            ],
+            JSON.stringify(signed)
+        );
+        expect(result.code).toBe(1);
+        expect(JSON.parse(result.stdout).reason).toBe('domain_mismatch');
+    });
+
+    it('prints pre-hash message and hash', async () => {
+        const signed = await signText('Hi');
+
+        const { code, stdout } = await run(['hash'], JSON.stringify(signed));
+        expect(code).toBe(0);
+
+        const output = JSON.parse(stdout);
+        expect(output.type).toBe('text');
+        expect(output.message).toMatch(/^ffff/);
+        expect(output.message.endsWith(Buffer.from('Hi').toString('hex'))).toBe(
+            true
+        );
+        expect(output.hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('encodes domain', async () => {
+        const { code, stdout } = await run(['encode-domain', 'Example.COM.']);
+        expect(code).toBe(0);
+        expect(JSON.parse(stdout)).toEqual({
+            domain: 'Example.COM.',
+            normalized: 'example.com',
+            encoded: 'com\0example\0',
+            hex: Buffer.from('com\0example\0').toString('hex'),
+        });
+    });
+
+    it('exits with 2 on usage errors', async () => {
+        expect((await run([])).code).toBe(2);
+        expect((await run(['unknown'])).code).toBe(2);
+        expect((await run(['sign', '--bogus'])).code).toBe(2);
+
+        const missingKey = await run(['verify'], '{}');
+        expect(missingKey.code).toBe(2);
+        expect(missingKey.stderr).toContain(
+            '--public-key or --state-init is required'
+        );
+    });
+
+    it('exits with 2 on invalid JSON input', async () => {
+        const result = await run(['verify', '--public-key', PUBLIC_KEY], '{');
+        expect(result.code).toBe(2);
+        expect(result.stderr).toContain('Invalid JSON input');
+    });
+
+    it('exits with 2 on malformed SignDataResult', async () => {
+        const signed = await signText('Hello, TON!');
+
+        const result = await run(
+            ['verify', '--public-key', PUBLIC_KEY],
+            JSON.stringify({ ...signed, timestamp: -1 })
+        );
+        expect(result.code).toBe(2);
+        expect(result.stderr).toContain(
+            'Invalid SignDataResult: timestamp: Must be an integer'
+        );
+    });
+});
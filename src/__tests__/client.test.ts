@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { Address } from '@ton/core';
+import nacl from 'tweetnacl';
+import {
+    checkSignDataResponse,
+    CheckSignDataResponseOptions,
+    createSignDataRequest,
+} from '../client';
+import { createSignDataRequestHandler } from '../wallet';
+import { KeyPairSigner } from '../signer';
+import { signData } from '../sign';
+import { createCellPayload } from '../tlb-encode';
+import { SignDataPayload, SignDataResult } from '../types';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const RAW_ADDRESS = Address.parse(TEST_ADDRESS).toRawString();
+const APP_URL = 'https://app.example.com';
+const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(3));
+const signer = new KeyPairSigner(keyPair.secretKey);
+
+const wallet = createSignDataRequestHandler({
+    signer,
+    address: TEST_ADDRESS,
+    appUrl: APP_URL,
+    approve: () => true,
+});
+
+const options: CheckSignDataResponseOptions = {
+    appUrl: APP_URL,
+    address: TEST_ADDRESS,
+    publicKey: signer.publicKey,
+};
+
+const TEXT: SignDataPayload = { type: 'text', text: 'Confirm login' };
+
+const payloads: SignDataPayload[] = [
+    TEXT,
+    { type: 'binary', bytes: Buffer.from('hello').toString('base64') },
+    createCellPayload('message#_ text:^string = Message;', {
+        text: 'Hello, TON!',
+    }),
+];
+
+// Response of a wallet that signs `payload`, whatever was requested
+function respondWith(
+    payload: SignDataPayload,
+    changes: Partial<SignDataResult> = {},
+    id = '1'
+) {
+    const result = signData({
+        payload,
+        domain: 'app.example.com',
+        privateKey: keyPair.secretKey,
+        address: RAW_ADDRESS,
+    });
+    return { result: { ...result, ...changes }, id };
+}
+
+describe('createSignDataRequest', () => {
+    it('wraps the payload in a signData request', () => {
+        expect(createSignDataRequest(TEXT, { id: '1' })).toEqual({
+            method: 'signData',
+            params: ['{"type":"text","text":"Confirm login"}'],
+            id: '1',
+        });
+    });
+
+    it('adds the network and the raw from address', () => {
+        const request = createSignDataRequest(TEXT, {
+            id: '2',
+            network: '-239',
+            from: TEST_ADDRESS,
+        });
+
+        expect(JSON.parse(request.params[0])).toEqual({
+            ...TEXT,
+            network: '-239',
+            from: RAW_ADDRESS,
+        });
+    });
+
+    it('throws on an invalid from address', () => {
+        expect(() =>
+            createSignDataRequest(TEXT, { id: '1', from: 'nobody' })
+        ).toThrow();
+    });
+});
+
+describe('checkSignDataResponse', () => {
+    it.each(payloads.map((p) => [p.type, p]))(
+        'accepts the wallet response to a %s request',
+        async (_, payload) => {
+            const request = createSignDataRequest(payload, {
+                id: '1',
+                from: TEST_ADDRESS,
+            });
+
+            const result = await checkSignDataResponse(
+                request,
+                await wallet(request),
+                options
+            );
+
+            expect(result).toMatchObject({
+                valid: true,
+                signedData: { payload, domain: 'app.example.com' },
+            });
+        }
+    );
+
+    it('reports a wallet error with its code', async () => {
+        const request = createSignDataRequest(TEXT, { id: '1' });
+
+        expect(
+            await checkSignDataResponse(
+                request,
+                { error: { code: 300, message: 'User rejected' }, id: '1' },
+                options
+            )
+        ).toEqual({
+            valid: false,
+            reason: 'wallet_error',
+            message: 'Wallet returned an error: User rejected',
+            code: 300,
+        });
+    });
+
+    it.each([
+        ['id_mismatch', respondWith(TEXT, {}, '2')],
+        ['malformed_response', 'not an object'],
+        ['malformed_response', { result: { signature: 'x' }, id: '1' }],
+        [
+            'payload_mismatch',
+            respondWith({ type: 'text', text: 'Confirm login ' }),
+        ],
+        ['payload_mismatch', respondWith(payloads[1])],
+        ['domain_mismatch', respondWith(TEXT, { domain: 'evil.example' })],
+        [
+            'address_mismatch',
+            respondWith(TEXT, { address: '0:' + '00'.repeat(32) }),
+        ],
+        ['invalid_signature', respondWith(TEXT, { timestamp: 1 })],
+    ])('rejects with %s', async (reason, response) => {
+        const request = createSignDataRequest(TEXT, { id: '1' });
+
+        expect(
+            await checkSignDataResponse(request, response, options)
+        ).toMatchObject({ valid: false, reason });
+    });
+
+    it('compares binary payloads by bytes', async () => {
+        const request = createSignDataRequest(
+            { type: 'binary', bytes: 'AA==' },
+            { id: '1' }
+        );
+        const response = respondWith({ type: 'binary', bytes: 'AB==' });
+
+        // "AB==" decodes to the same byte as "AA=="
+        expect(
+            await checkSignDataResponse(request, response, options)
+        ).toMatchObject({ valid: true });
+    });
+
+    it.each(['AA==#', 'AA', '*AA=='])(
+        'does not match the malformed requested bytes %s',
+        async (bytes) => {
+            const request = createSignDataRequest(
+                { type: 'binary', bytes },
+                { id: '1' }
+            );
+            const response = respondWith({ type: 'binary', bytes: 'AA==' });
+
+            expect(
+                await checkSignDataResponse(request, response, options)
+            ).toMatchObject({ valid: false, reason: 'payload_mismatch' });
+        }
+    );
+
+    it('expects the host name of the app url, without the port', async () => {
+        const request = createSignDataRequest(TEXT, { id: '1' });
+
+        expect(
+            await checkSignDataResponse(request, await wallet(request), {
+                ...options,
+                appUrl: 'https://app.example.com:8443/login',
+            })
+        ).toMatchObject({ valid: true });
+    });
+
+    it('applies the verification policies', async () => {
+        const request = createSignDataRequest(TEXT, { id: '1' });
+
+        expect(
+            await checkSignDataResponse(request, await wallet(request), {
+                ...options,
+                expectedNonce: 'abc',
+            })
+        ).toMatchObject({ valid: false, reason: 'nonce_mismatch' });
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { writeFileSync, mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import nacl from 'tweetnacl';
+import { Cell } from '@ton/core';
+import {
+    loadTestVectors,
+    referenceImplementation,
+    runConformance,
+} from '../conformance';
+
+const corpus = loadTestVectors();
+
+describe('test vectors', () => {
+    it('cover all payload types', () => {
+        const types = new Set(corpus.vectors.map((v) => v.payload.type));
+        expect([...types].sort()).toEqual(['binary', 'cell', 'text']);
+    });
+
+    it('are self-consistent: message ⇒ hash ⇒ signature', () => {
+        for (const vector of corpus.vectors) {
+            const hash =
+                vector.payload.type === 'cell'
+                    ? Cell.fromBase64(vector.expected.message).hash()
+                    : crypto
+                          .createHash('sha256')
+                          .update(Buffer.from(vector.expected.message, 'hex'))
+                          .digest();
+            expect(hash.toString('hex'), vector.name).toBe(
+                vector.expected.hash
+            );
+
+            const keyPair = nacl.sign.keyPair.fromSeed(
+                Buffer.from(vector.seed, 'hex')
+            );
+            expect(Buffer.from(keyPair.publicKey).toString('hex')).toBe(
+                vector.publicKey
+            );
+            expect(
+                nacl.sign.detached.verify(
+                    hash,
+                    Buffer.from(vector.expected.signature, 'base64'),
+                    keyPair.publicKey
+                ),
+                vector.name
+            ).toBe(true);
+        }
+    });
+});
+
+describe('runConformance', () => {
+    it('passes for the reference implementation', async () => {
+        const report = await runConformance(referenceImplementation, corpus);
+
+        expect(report.failed).toBe(0);
+        expect(report.passed).toBe(
+            corpus.vectors.length * 4 + corpus.invalid.length
+        );
+    });
+
+    it('reports failing checks of a broken implementation', async () => {
+        // Typical bug: punycode instead of UTF-8 domain in text messages
+        const report = await runConformance(
+            {
+                hash: (input) =>
+                    referenceImplementation.hash!({
+                        ...input,
+                        domain: new URL(`https://${input.domain}`).hostname,
+                    }),
+            },
+            corpus
+        );
+
+        const failed = report.checks.filter((c) => !c.passed);
+        expect(failed.map((c) => c.vector)).toEqual(['text_idn_domain']);
+        expect(failed[0].check).toBe('hash');
+    });
+
+    it('counts exceptions as failures', async () => {
+        const report = await runConformance(
+            {
+                sign: () => {
+                    throw new Error('not implemented');
+                },
+            },
+            corpus
+        );
+
+        expect(report.passed).toBe(0);
+        expect(report.checks[0].actual).toBe('error: not implemented');
+    });
+
+    it('requires invalid vectors to be rejected', async () => {
+        const report = await runConformance({ verify: () => true }, corpus);
+
+        expect(report.failed).toBe(corpus.invalid.length);
+    });
+});
+
+describe('loadTestVectors', () => {
+    it('rejects unsupported version', () => {
+        const path = join(mkdtempSync(join(tmpdir(), 'vectors-')), 'v2.json');
+        writeFileSync(
+            path,
+            JSON.stringify({ version: 2, vectors: [], invalid: [] })
+        );
+
+        expect(() => loadTestVectors(path)).toThrow(
+            'Unsupported test vectors version 2'
+        );
+    });
+});
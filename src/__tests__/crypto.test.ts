@@ -0,0 +1,209 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import nacl from 'tweetnacl';
+import {
+    CryptoProvider,
+    getCryptoProvider,
+    getSyncCryptoProvider,
+    hmacSha256,
+    naclCryptoProvider,
+    setCryptoProvider,
+    webCryptoProvider,
+} from '../crypto';
+import { nodeCryptoProvider } from '../crypto-node';
+import { signData, signDataAsync } from '../sign';
+import { verifySignData, verifySignDataAsync } from '../verify';
+import { runConformance } from '../conformance';
+import { buildSignDataMessage } from '../message';
+
+const providers: CryptoProvider[] = [
+    nodeCryptoProvider,
+    naclCryptoProvider,
+    webCryptoProvider,
+];
+
+// RFC 8032, section 7.1, TEST 2
+const RFC8032 = {
+    seed: '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+    publicKey:
+        '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+    message: '72',
+    signature:
+        '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+};
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const keyPair = nacl.sign.keyPair.fromSeed(Buffer.from(RFC8032.seed, 'hex'));
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+describe.each(providers)('$name crypto provider', (provider) => {
+    afterEach(() => setCryptoProvider(undefined));
+
+    it('computes SHA-256', async () => {
+        expect(hex(await provider.sha256(Buffer.from('abc')))).toBe(
+            'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+        );
+    });
+
+    it('signs and verifies RFC 8032 test vector', async () => {
+        const message = Buffer.from(RFC8032.message, 'hex');
+
+        expect(hex(await provider.sign(message, keyPair.secretKey))).toBe(
+            RFC8032.signature
+        );
+        expect(
+            await provider.verify(
+                message,
+                Buffer.from(RFC8032.signature, 'hex'),
+                keyPair.publicKey
+            )
+        ).toBe(true);
+    });
+
+    it('rejects bad signatures and keys without throwing', async () => {
+        const message = Buffer.from(RFC8032.message, 'hex');
+        const signature = Buffer.from(RFC8032.signature, 'hex');
+        const flipped = Buffer.from(signature);
+        flipped[0] ^= 1;
+
+        expect(await provider.verify(message, flipped, keyPair.publicKey)).toBe(
+            false
+        );
+        expect(
+            await provider.verify(
+                message,
+                signature.subarray(1),
+                keyPair.publicKey
+            )
+        ).toBe(false);
+        expect(
+            await provider.verify(message, signature, new Uint8Array(31))
+        ).toBe(false);
+        // y = 2 is not on the curve
+        const notOnCurve = new Uint8Array(32);
+        notOnCurve[0] = 2;
+        expect(await provider.verify(message, signature, notOnCurve)).toBe(
+            false
+        );
+    });
+
+    it('computes HMAC-SHA256 of RFC 4231 test cases', async () => {
+        expect(
+            hex(
+                await hmacSha256(
+                    Buffer.from('Jefe'),
+                    Buffer.from('what do ya want for nothing?'),
+                    provider
+                )
+            )
+        ).toBe(
+            '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+        );
+        // Key longer than the block size is hashed first
+        expect(
+            hex(
+                await hmacSha256(
+                    Buffer.alloc(131, 0xaa),
+                    Buffer.from(
+                        'Test Using Larger Than Block-Size Key - Hash Key First'
+                    ),
+                    provider
+                )
+            )
+        ).toBe(
+            '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54'
+        );
+    });
+
+    it('is interchangeable with other providers', async () => {
+        const message = Buffer.from('interop');
+        const signature = await provider.sign(message, keyPair.secretKey);
+
+        for (const other of providers) {
+            expect(
+                await other.verify(message, signature, keyPair.publicKey),
+                other.name
+            ).toBe(true);
+        }
+    });
+
+    it('signs and verifies sign-data through the async API', async () => {
+        setCryptoProvider(provider);
+        expect(getCryptoProvider()).toBe(provider);
+
+        const signedData = await signDataAsync({
+            payload: { type: 'text', text: 'Hello, TON!' },
+            domain: 'example.com',
+            address: TEST_ADDRESS,
+            privateKey: Buffer.from(keyPair.secretKey),
+        });
+
+        expect(
+            await verifySignDataAsync({
+                signedData,
+                publicKey: Buffer.from(keyPair.publicKey),
+            })
+        ).toEqual({ valid: true });
+        expect(
+            verifySignData({
+                signedData,
+                publicKey: Buffer.from(keyPair.publicKey),
+            })
+        ).toBe(true);
+    });
+
+    it('passes the conformance test vectors', async () => {
+        setCryptoProvider(provider);
+        const report = await runConformance({
+            hash: async (input) => {
+                const debug = buildSignDataMessage(input);
+                // Cell hash is the representation hash built by @ton/core
+                return debug.kind === 'cell'
+                    ? debug.hash
+                    : provider.sha256(debug.message);
+            },
+            sign: async (input, secretKey) =>
+                Buffer.from(
+                    await provider.sign(
+                        buildSignDataMessage(input).hash,
+                        secretKey
+                    )
+                ).toString('base64'),
+            verify: async (signedData, publicKey) =>
+                (
+                    await verifySignDataAsync({
+                        signedData,
+                        publicKey: Buffer.from(publicKey),
+                    })
+                ).valid,
+        });
+
+        expect(report.failed).toBe(0);
+    });
+});
+
+describe('setCryptoProvider', () => {
+    afterEach(() => setCryptoProvider(undefined));
+
+    it('keeps the default provider for sync functions', () => {
+        setCryptoProvider(webCryptoProvider);
+
+        expect(getSyncCryptoProvider()).toBe(naclCryptoProvider);
+        const signedData = signData({
+            payload: { type: 'text', text: 'Hello' },
+            domain: 'example.com',
+            address: TEST_ADDRESS,
+            privateKey: Buffer.from(keyPair.secretKey),
+        });
+        expect(
+            verifySignData({
+                signedData,
+                publicKey: Buffer.from(keyPair.publicKey),
+            })
+        ).toBe(true);
+    });
+
+    it('uses the selected synchronous provider', () => {
+        setCryptoProvider(nodeCryptoProvider);
+        expect(getSyncCryptoProvider()).toBe(nodeCryptoProvider);
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { mnemonicToPrivateKey } from '@ton/crypto';
+import { signData } from '../sign';
+import { verifySignData } from '../verify';
+import { checkDomain } from '../domain';
+
+describe('domain policy', () => {
+    describe('checkDomain', () => {
+        it('should allow any domain without allowlist', () => {
+            expect(checkDomain('evil.com', {})).toBeNull();
+        });
+
+        it('should match exact domains', () => {
+            const options = { allowedDomains: ['example.com', 'app.ton.org'] };
+
+            expect(checkDomain('example.com', options)).toBeNull();
+            expect(checkDomain('app.ton.org', options)).toBeNull();
+            expect(checkDomain('evil.com', options)).toBe('domain_mismatch');
+            expect(checkDomain('sub.example.com', options)).toBe(
+                'domain_mismatch'
+            );
+        });
+
+        it('should ignore case and trailing dot', () => {
+            const options = { allowedDomains: ['Example.COM.'] };
+
+            expect(checkDomain('example.com', options)).toBeNull();
+            expect(checkDomain('EXAMPLE.com.', options)).toBeNull();
+        });
+
+        it('should match wildcard subdomains at any depth', () => {
+            const options = { allowedDomains: ['*.example.com'] };
+
+            expect(checkDomain('app.example.com', options)).toBeNull();
+            expect(checkDomain('a.b.example.com', options)).toBeNull();
+            expect(checkDomain('example.com', options)).toBe('domain_mismatch');
+        });
+
+        it('should not match suffix outside a label boundary', () => {
+            const options = { allowedDomains: ['*.example.com'] };
+
+            expect(checkDomain('evilexample.com', options)).toBe(
+                'domain_mismatch'
+            );
+            expect(checkDomain('example.com.evil.org', options)).toBe(
+                'domain_mismatch'
+            );
+        });
+
+        it('should compare IDN domains in Unicode and punycode form', () => {
+            expect(
+                checkDomain('xn--e1afmkfd.com', {
+                    allowedDomains: ['пример.com'],
+                })
+            ).toBeNull();
+            expect(
+                checkDomain('App.Пример.com', {
+                    allowedDomains: ['*.xn--e1afmkfd.com'],
+                })
+            ).toBeNull();
+        });
+
+        it('should reject malformed signed domain', () => {
+            expect(
+                checkDomain('bad..com', { allowedDomains: ['example.com'] })
+            ).toBe('malformed_domain');
+        });
+
+        it('should throw on invalid allowlist pattern', () => {
+            expect(() =>
+                checkDomain('example.com', { allowedDomains: ['ex*.com'] })
+            ).toThrow(/Invalid allowed domain "ex\*\.com"/);
+        });
+    });
+
+    describe('verifySignData', () => {
+        let keyPair: { publicKey: Buffer; secretKey: Buffer };
+
+        beforeAll(async () => {
+            keyPair = await mnemonicToPrivateKey([
+                'unfold',
+                'item',
+                'school',
+                'little',
+                'upper',
+                'surge',
+                'pride',
+                'endorse',
+                'outer',
+                'filter',
+                'biology',
+                'prefer',
+                'regular',
+                'island',
+                'hidden',
+                'dice',
+                'nuclear',
+                'grace',
+                'motor',
+                'entire',
+                'weird',
+                'between',
+                'falcon',
+                'dwarf',
+            ]);
+        });
+
+        const sign = (domain: string) =>
+            signData({
+                payload: { type: 'text', text: 'Hello, TON!' },
+                domain,
+                privateKey: keyPair.secretKey,
+                address: 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx',
+            });
+
+        it('should accept signature for an allowed domain', () => {
+            const isValid = verifySignData({
+                signedData: sign('app.example.com'),
+                publicKey: keyPair.publicKey,
+                allowedDomains: ['*.example.com'],
+            });
+
+            expect(isValid).toBe(true);
+        });
+
+        it('should reject valid signature made for another domain', () => {
+            const isValid = verifySignData({
+                signedData: sign('attacker.com'),
+                publicKey: keyPair.publicKey,
+                allowedDomains: ['example.com', '*.example.com'],
+            });
+
+            expect(isValid).toBe(false);
+        });
+    });
+});
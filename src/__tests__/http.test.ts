@@ -0,0 +1,350 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import nacl from 'tweetnacl';
+import express from 'express';
+import Fastify from 'fastify';
+import { Address } from '@ton/core';
+import { signData } from '../sign';
+import {
+    ChainPublicKeyResolver,
+    InMemoryChainProvider,
+    PublicKeyResolver,
+} from '../resolver';
+import {
+    createVerifyHandler,
+    toFastifyHandler,
+    toFetchHandler,
+    VerifyHandlerOptions,
+} from '../http';
+import { toExpressMiddleware, toNodeHandler, VerifyServer } from '../http-node';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const keyPair = nacl.sign.keyPair.fromSeed(Buffer.alloc(32, 5));
+const resolver = new ChainPublicKeyResolver(
+    new InMemoryChainProvider().setPublicKey(
+        Address.parse(TEST_ADDRESS),
+        Buffer.from(keyPair.publicKey)
+    )
+);
+
+const signedData = signData({
+    payload: { type: 'text', text: 'Log in to example.com' },
+    domain: 'example.com',
+    privateKey: keyPair.secretKey,
+    address: TEST_ADDRESS,
+    timestamp: 1700000000,
+});
+
+const verified = {
+    valid: true,
+    address: TEST_ADDRESS,
+    addressRaw: Address.parse(TEST_ADDRESS).toRawString(),
+    addressFriendly: TEST_ADDRESS,
+    domain: 'example.com',
+    timestamp: 1700000000,
+};
+
+function handler(options: Partial<VerifyHandlerOptions> = {}) {
+    return createVerifyHandler({ resolver, ...options });
+}
+
+describe('createVerifyHandler', () => {
+    it('accepts a valid proof', async () => {
+        expect(await handler()({ signedData })).toEqual({
+            status: 200,
+            body: verified,
+        });
+    });
+
+    it('returns the session created by onVerified', async () => {
+        const verify = handler({
+            onVerified: (data, publicKey) => ({
+                user: data.address,
+                key: Buffer.from(publicKey).toString('hex'),
+            }),
+        });
+
+        expect((await verify({ signedData })).body).toEqual({
+            ...verified,
+            session: {
+                user: TEST_ADDRESS,
+                key: Buffer.from(keyPair.publicKey).toString('hex'),
+            },
+        });
+    });
+
+    it('rejects malformed requests with field errors', async () => {
+        expect(await handler()([])).toMatchObject({
+            status: 400,
+            body: { reason: 'malformed_request' },
+        });
+        expect(
+            await handler()({ signedData: { ...signedData, timestamp: -1 } })
+        ).toEqual({
+            status: 400,
+            body: {
+                valid: false,
+                reason: 'malformed_request',
+                message: 'Invalid signedData',
+                errors: [
+                    {
+                        path: 'signedData.timestamp',
+                        message: 'Must be an integer between 0 and 2^53 - 1',
+                    },
+                ],
+            },
+        });
+        expect(
+            await handler()({ signedData, walletStateInit: 42 })
+        ).toMatchObject({ status: 400 });
+        expect(
+            await handler()({
+                signedData: { ...signedData, timestamp: 2 ** 60 },
+            })
+        ).toMatchObject({ status: 400 });
+    });
+
+    it('rejects an invalid proof', async () => {
+        const tampered = {
+            ...signedData,
+            payload: { type: 'text', text: 'Log in to evil.com' },
+        };
+
+        expect(await handler()({ signedData: tampered })).toMatchObject({
+            status: 401,
+            body: { valid: false, reason: 'invalid_signature' },
+        });
+    });
+
+    it('applies verification policies', async () => {
+        const verify = handler({
+            allowedDomains: ['example.org'],
+            maxAgeSeconds: 300,
+            now: 1700000100,
+        });
+
+        expect((await verify({ signedData })).body).toMatchObject({
+            reason: 'domain_mismatch',
+        });
+        expect(
+            (
+                await handler({ maxAgeSeconds: 60, now: 1700000100 })({
+                    signedData,
+                })
+            ).body
+        ).toMatchObject({ reason: 'expired' });
+    });
+
+    it('passes walletStateInit to the resolver', async () => {
+        let context: unknown;
+        const capturing: PublicKeyResolver = {
+            resolvePublicKey: async (_address, ctx) => {
+                context = ctx;
+                return null;
+            },
+        };
+
+        const response = await handler({ resolver: capturing })({
+            signedData,
+            walletStateInit: 'te6cc',
+        });
+
+        expect(context).toEqual({ walletStateInit: 'te6cc' });
+        expect(response).toMatchObject({
+            status: 401,
+            body: { reason: 'public_key_not_found' },
+        });
+    });
+
+    it('hides resolver errors', async () => {
+        const failing: PublicKeyResolver = {
+            resolvePublicKey: async () => {
+                throw new Error('toncenter is down: api key 1234');
+            },
+        };
+
+        expect(await handler({ resolver: failing })({ signedData })).toEqual({
+            status: 500,
+            body: {
+                valid: false,
+                reason: 'internal_error',
+                message: 'Verification failed',
+            },
+        });
+    });
+});
+
+describe('toFetchHandler', () => {
+    const fetchHandler = toFetchHandler(handler(), { maxBodyBytes: 2048 });
+    const request = (init: RequestInit) =>
+        fetchHandler(new Request('http://localhost/verify', init));
+
+    it('verifies a JSON body', async () => {
+        const response = await request({
+            method: 'POST',
+            body: JSON.stringify({ signedData }),
+        });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual(verified);
+    });
+
+    it('rejects other methods, invalid JSON and large bodies', async () => {
+        expect((await request({ method: 'GET' })).status).toBe(405);
+        expect((await request({ method: 'POST', body: '{' })).status).toBe(400);
+        expect(
+            (await request({ method: 'POST', body: 'x'.repeat(2049) })).status
+        ).toBe(413);
+    });
+
+    it('stops reading a chunked body once it is too large', async () => {
+        let cancelled = false;
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                controller.enqueue(new Uint8Array(1024).fill(32));
+            },
+            cancel() {
+                cancelled = true;
+            },
+        });
+
+        const response = await request({
+            method: 'POST',
+            body,
+            duplex: 'half',
+        } as RequestInit);
+
+        expect(response.status).toBe(413);
+        expect(cancelled).toBe(true);
+    });
+});
+
+describe('localhost servers', () => {
+    const cleanup: (() => Promise<unknown>)[] = [];
+    afterEach(async () => {
+        await Promise.all(cleanup.splice(0).map((close) => close()));
+    });
+
+    async function listen(server: http.Server): Promise<string> {
+        await new Promise<void>((resolve) =>
+            server.listen(0, '127.0.0.1', resolve)
+        );
+        cleanup.push(() => new Promise((resolve) => server.close(resolve)));
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}/verify`;
+    }
+
+    const post = async (url: string, body: string) => {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body,
+        });
+        return { status: response.status, body: await response.json() };
+    };
+
+    it('serves the reference VerifyServer', async () => {
+        const server = new VerifyServer({ resolver, maxBodyBytes: 4096 });
+        const url = await server.listen();
+        cleanup.push(() => server.close());
+
+        expect(
+            await post(`${url}verify`, JSON.stringify({ signedData }))
+        ).toEqual({ status: 200, body: verified });
+        expect((await post(`${url}other`, '{}')).status).toBe(404);
+        expect((await post(`${url}verify`, 'x'.repeat(5000))).status).toBe(413);
+    });
+
+    it('serves the Node.js http adapter', async () => {
+        const url = await listen(http.createServer(toNodeHandler(handler())));
+
+        expect(await post(url, JSON.stringify({ signedData }))).toEqual({
+            status: 200,
+            body: verified,
+        });
+        expect((await fetch(url)).status).toBe(405);
+    });
+
+    // Chunked upload that never ends by itself
+    function endlessUpload(url: string): Promise<number | undefined> {
+        return new Promise((resolve, reject) => {
+            const req = http.request(url, { method: 'POST' });
+            const timer = setInterval(() => req.write('x'.repeat(1024)), 5);
+            req.on('response', (res) => {
+                clearInterval(timer);
+                res.resume();
+                resolve(res.statusCode);
+            });
+            req.on('error', (e) => {
+                clearInterval(timer);
+                reject(e);
+            });
+        });
+    }
+
+    it('answers 413 to an endless upload and closes it', async () => {
+        const url = await listen(
+            http.createServer(toNodeHandler(handler(), { maxBodyBytes: 4096 }))
+        );
+
+        expect(await endlessUpload(url)).toBe(413);
+    });
+
+    it('settles when the client aborts the upload', async () => {
+        const handle = toNodeHandler(handler());
+        const settled = new Promise<void>((resolve, reject) => {
+            const server = http.createServer((req, res) =>
+                handle(req, res).then(resolve, reject)
+            );
+            listen(server).then((url) => {
+                const req = http.request(url, { method: 'POST' });
+                req.on('error', () => {});
+                req.write('{"signedData":');
+                setTimeout(() => req.destroy(), 20);
+            });
+        });
+
+        await expect(settled).resolves.toBeUndefined();
+    });
+
+    it.each([
+        ['with express.json()', true],
+        ['without body parser', false],
+    ])('serves the Express middleware %s', async (_name, parseJson) => {
+        const app = express();
+        if (parseJson) {
+            app.use(express.json());
+        }
+        app.post('/verify', toExpressMiddleware(handler()));
+        const url = await listen(http.createServer(app));
+
+        expect(await post(url, JSON.stringify({ signedData }))).toEqual({
+            status: 200,
+            body: verified,
+        });
+        expect(
+            (await post(url, JSON.stringify({ signedData: {} }))).status
+        ).toBe(400);
+    });
+
+    it('serves the Fastify handler', async () => {
+        const app = Fastify();
+        app.post('/verify', toFastifyHandler(handler()));
+        const base = await app.listen({ port: 0, host: '127.0.0.1' });
+        cleanup.push(() => app.close());
+
+        expect(
+            await post(`${base}/verify`, JSON.stringify({ signedData }))
+        ).toEqual({ status: 200, body: verified });
+        expect(
+            (
+                await post(
+                    `${base}/verify`,
+                    JSON.stringify({
+                        signedData: { ...signedData, signature: 'AA==' },
+                    })
+                )
+            ).body
+        ).toMatchObject({ reason: 'malformed_request' });
+    });
+});
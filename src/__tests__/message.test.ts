@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { Address, beginCell } from '@ton/core';
+import {
+    buildSignDataMessage,
+    diffSignDataMessages,
+    MessageSegment,
+} from '../message';
+import { createCellHash, createTextBinaryHash } from '../utils';
+import { SignDataPayloadCell, SignDataPayloadText } from '../types';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const TIMESTAMP = 1700000000;
+
+const textPayload: SignDataPayloadText = { type: 'text', text: 'Hello' };
+const cellPayload: SignDataPayloadCell = {
+    type: 'cell',
+    schema: 'msg#_ amount:uint32 = Msg;',
+    cell: beginCell().storeUint(5, 32).endCell().toBoc().toString('base64'),
+};
+
+function segment(segments: MessageSegment[], label: string): MessageSegment {
+    return segments.find((s) => s.label === label)!;
+}
+
+describe('buildSignDataMessage', () => {
+    it('splits text message into labelled segments with offsets', () => {
+        const debug = buildSignDataMessage({
+            payload: textPayload,
+            address: TEST_ADDRESS,
+            domain: 'example.com',
+            timestamp: TIMESTAMP,
+        });
+
+        expect(debug.kind).toBe('text_binary');
+        expect(
+            debug.segments.map((s) => [s.label, s.offset, s.length])
+        ).toEqual([
+            ['prefix', 0, 24],
+            ['workchain', 24, 4],
+            ['address_hash', 28, 32],
+            ['domain_length', 60, 4],
+            ['domain', 64, 11],
+            ['timestamp', 75, 8],
+            ['type', 83, 3],
+            ['payload_length', 86, 4],
+            ['payload', 90, 5],
+        ]);
+        expect(segment(debug.segments, 'prefix').hex).toBe(
+            'ffff' + Buffer.from('ton-connect/sign-data/').toString('hex')
+        );
+        expect(segment(debug.segments, 'domain_length').value).toBe(11);
+        expect(segment(debug.segments, 'timestamp').value).toBe('1700000000');
+        expect(segment(debug.segments, 'type').value).toBe('txt');
+        expect(segment(debug.segments, 'payload').value).toBe('Hello');
+    });
+
+    it('produces the hashed message', () => {
+        const debug = buildSignDataMessage({
+            payload: { type: 'binary', bytes: 'AQID' },
+            address: TEST_ADDRESS,
+            domain: 'example.com',
+            timestamp: TIMESTAMP,
+        });
+
+        expect(debug.kind === 'text_binary' && debug.message.length).toBe(
+            debug.segments.reduce((sum, s) => sum + s.length, 0)
+        );
+        expect(segment(debug.segments, 'type').value).toBe('bin');
+        expect(segment(debug.segments, 'payload').value).toBe('AQID');
+        expect(debug.hash).toEqual(
+            createTextBinaryHash(
+                { type: 'binary', bytes: 'AQID' },
+                Address.parse(TEST_ADDRESS),
+                'example.com',
+                TIMESTAMP
+            )
+        );
+    });
+
+    it('returns cell envelope with fields and references', () => {
+        const debug = buildSignDataMessage({
+            payload: cellPayload,
+            address: TEST_ADDRESS,
+            domain: 'Example.com',
+            timestamp: TIMESTAMP,
+        });
+
+        expect(debug.kind).toBe('cell');
+        expect(debug.hash).toEqual(
+            createCellHash(
+                cellPayload,
+                Address.parse(TEST_ADDRESS),
+                'Example.com',
+                TIMESTAMP
+            )
+        );
+        expect(
+            debug.segments.map((s) => [s.label, s.offset, s.length])
+        ).toEqual([
+            ['prefix', 0, 32],
+            ['schema_hash', 32, 32],
+            ['timestamp', 64, 64],
+            ['address', 128, 267],
+            ['domain', 0, 96],
+            ['payload', 0, 32],
+        ]);
+        expect(segment(debug.segments, 'prefix').hex).toBe('75569022');
+        expect(segment(debug.segments, 'domain')).toMatchObject({
+            ref: 0,
+            value: 'example.com',
+        });
+        expect(segment(debug.segments, 'address').value).toBe(
+            Address.parse(TEST_ADDRESS).toRawString()
+        );
+    });
+});
+
+describe('diffSignDataMessages', () => {
+    const base = {
+        payload: textPayload,
+        address: TEST_ADDRESS,
+        domain: 'example.com',
+        timestamp: TIMESTAMP,
+    };
+
+    it('returns no differences for identical messages', () => {
+        expect(
+            diffSignDataMessages(
+                buildSignDataMessage(base),
+                buildSignDataMessage(base)
+            )
+        ).toEqual([]);
+    });
+
+    it('pinpoints the differing field', () => {
+        const diff = diffSignDataMessages(
+            buildSignDataMessage(base),
+            buildSignDataMessage({ ...base, timestamp: TIMESTAMP + 1 })
+        );
+
+        expect(diff.map((d) => d.label)).toEqual(['timestamp']);
+        expect(diff[0].expected!.value).toBe('1700000000');
+        expect(diff[0].actual!.value).toBe('1700000001');
+    });
+
+    it('reports shifted segments after a length change', () => {
+        const diff = diffSignDataMessages(
+            buildSignDataMessage(base),
+            buildSignDataMessage({ ...base, domain: 'www.example.com' })
+        );
+
+        expect(diff.map((d) => d.label)).toEqual([
+            'domain_length',
+            'domain',
+            'timestamp',
+            'type',
+            'payload_length',
+            'payload',
+        ]);
+    });
+
+    it('detects differences in cell references', () => {
+        const other: SignDataPayloadCell = {
+            ...cellPayload,
+            cell: beginCell()
+                .storeUint(6, 32)
+                .endCell()
+                .toBoc()
+                .toString('base64'),
+        };
+        const diff = diffSignDataMessages(
+            buildSignDataMessage({ ...base, payload: cellPayload }),
+            buildSignDataMessage({ ...base, payload: other })
+        );
+
+        expect(diff.map((d) => d.label)).toEqual(['payload']);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { builtinModules } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SRC = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+// Import specifiers of every module reachable from `entry`
+function collectImports(entry: string): Map<string, string[]> {
+    const imports = new Map<string, string[]>();
+    const visit = (file: string) => {
+        if (imports.has(file)) {
+            return;
+        }
+        const source = readFileSync(join(SRC, file), 'utf8');
+        const specifiers = [
+            ...source.matchAll(/^(?:import|export)[^'"]*?from\s+'([^']+)'/gm),
+            ...source.matchAll(/^import\s+'([^']+)'/gm),
+        ].map((m) => m[1]);
+        imports.set(file, specifiers);
+        for (const specifier of specifiers) {
+            if (specifier.startsWith('./')) {
+                visit(`${specifier.slice(2)}.ts`);
+            }
+        }
+    };
+    visit(entry);
+    return imports;
+}
+
+// "punycode/punycode.js" is the npm package, not the deprecated built-in
+const isBuiltin = (specifier: string) =>
+    specifier.startsWith('node:') || builtinModules.includes(specifier);
+
+describe('browser entry point', () => {
+    const imports = collectImports('browser.ts');
+
+    it('reaches the portable modules', () => {
+        expect([...imports.keys()]).toEqual(
+            expect.arrayContaining(['sign.ts', 'verify.ts', 'utils.ts'])
+        );
+        expect(imports.has('crypto-node.ts')).toBe(false);
+        expect(imports.has('signing-server.ts')).toBe(false);
+    });
+
+    it('imports no Node.js built-in module', () => {
+        const builtins = [...imports].flatMap(([file, specifiers]) =>
+            specifiers.filter(isBuiltin).map((s) => `${file}: ${s}`)
+        );
+
+        expect(builtins).toEqual([]);
+    });
+
+    it('takes punycode from the npm package', () => {
+        const specifiers = [...imports.values()].flat();
+
+        expect(specifiers).toContain('punycode/punycode.js');
+    });
+});
+
+describe('node entry point', () => {
+    it('registers the native crypto provider', async () => {
+        const { getSyncCryptoProvider, setCryptoProvider } =
+            await import('../node');
+        setCryptoProvider(undefined);
+
+        expect(getSyncCryptoProvider().name).toBe('node');
+    });
+});
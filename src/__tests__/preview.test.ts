@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import { Address, beginCell } from '@ton/core';
+import { renderSignPreview } from '../preview';
+import { createCellPayload } from '../tlb-encode';
+import { SignDataPayload } from '../types';
+
+describe('renderSignPreview', () => {
+    const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+    const TEST_DOMAIN = 'example.com';
+
+    describe('text payload', () => {
+        it('should return plain text unchanged', () => {
+            const preview = renderSignPreview(
+                { type: 'text', text: 'Hello, TON!\nLine 2' },
+                TEST_DOMAIN,
+                TEST_ADDRESS
+            );
+
+            expect(preview.payload).toEqual({
+                type: 'text',
+                text: 'Hello, TON!\nLine 2',
+                length: 18,
+            });
+            expect(preview.warnings).toEqual([]);
+        });
+
+        it('should flag bidi overrides and control characters', () => {
+            const preview = renderSignPreview(
+                { type: 'text', text: 'Pay \u202eelif.exe\u0007' },
+                TEST_DOMAIN,
+                TEST_ADDRESS
+            );
+
+            expect(preview.payload).toMatchObject({
+                text: 'Pay [U+202E]elif.exe[U+0007]',
+            });
+            expect(preview.warnings).toEqual([
+                { kind: 'bidi_override', index: 4, codePoint: 'U+202E' },
+                { kind: 'control_character', index: 13, codePoint: 'U+0007' },
+            ]);
+        });
+
+        it('should flag zero-width characters', () => {
+            const preview = renderSignPreview(
+                { type: 'text', text: 'ap\u200bprove' },
+                TEST_DOMAIN,
+                TEST_ADDRESS
+            );
+
+            expect(preview.warnings).toEqual([
+                { kind: 'invisible_character', index: 2, codePoint: 'U+200B' },
+            ]);
+        });
+
+        it('should flag the Arabic letter mark', () => {
+            const preview = renderSignPreview(
+                { type: 'text', text: 'a\u061cb' },
+                TEST_DOMAIN,
+                TEST_ADDRESS
+            );
+
+            expect(preview.payload).toMatchObject({ text: 'a[U+061C]b' });
+            expect(preview.warnings).toEqual([
+                { kind: 'bidi_override', index: 1, codePoint: 'U+061C' },
+            ]);
+        });
+    });
+
+    describe('binary payload', () => {
+        it('should show size, hash and hex dump', () => {
+            const bytes = Buffer.from('Hello, TON! Binary data.');
+            const preview = renderSignPreview(
+                { type: 'binary', bytes: bytes.toString('base64') },
+                TEST_DOMAIN,
+                TEST_ADDRESS
+            );
+
+            expect(preview.payload).toEqual({
+                type: 'binary',
+                size: 24,
+                sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+                hexDump: [
+                    '00000000  48 65 6c 6c 6f 2c 20 54 4f 4e 21 20 42 69 6e 61  |Hello, TON! Bina|',
+                    '00000010  72 79 20 64 61 74 61 2e                          |ry data.|',
+                ].join('\n'),
+                truncated: false,
+            });
+        });
+
+        it('should truncate long dumps', () => {
+            const preview = renderSignPreview(
+                { type: 'binary', bytes: Buffer.alloc(100).toString('base64') },
+                TEST_DOMAIN,
+                TEST_ADDRESS,
+                { maxDumpBytes: 32 }
+            );
+
+            expect(preview.payload).toMatchObject({
+                size: 100,
+                truncated: true,
+            });
+            if (preview.payload.type === 'binary') {
+                expect(preview.payload.hexDump.split('\n')).toHaveLength(2);
+            }
+        });
+    });
+
+    describe('cell payload', () => {
+        const SCHEMA =
+            'transfer#123 amount:Coins to:MsgAddress comment:string = Transfer';
+
+        it('should show decoded fields', () => {
+            const payload = createCellPayload(SCHEMA, {
+                amount: 1_000_000_000n,
+                to: TEST_ADDRESS,
+                comment: 'Transfer 1 TON',
+            });
+
+            const preview = renderSignPreview(
+                payload,
+                TEST_DOMAIN,
+                TEST_ADDRESS
+            );
+
+            expect(preview.payload).toMatchObject({
+                type: 'cell',
+                schema: SCHEMA,
+                fields: {
+                    '@type': 'transfer',
+                    amount: '1000000000',
+                    comment: 'Transfer 1 TON',
+                },
+            });
+            expect(preview.warnings).toEqual([]);
+        });
+
+        it('should warn when cell does not match schema', () => {
+            const preview = renderSignPreview(
+                {
+                    type: 'cell',
+                    schema: SCHEMA,
+                    cell: beginCell()
+                        .storeUint(0x123, 32)
+                        .endCell()
+                        .toBoc()
+                        .toString('base64'),
+                },
+                TEST_DOMAIN,
+                TEST_ADDRESS
+            );
+
+            expect(preview.payload).toMatchObject({ fields: null });
+            expect(preview.warnings).toMatchObject([
+                { kind: 'schema_mismatch', field: 'Transfer', bitOffset: 0 },
+            ]);
+        });
+
+        it('should stop decoding cells shared by many parents', () => {
+            let cell = beginCell().storeUint(0b00, 2).endCell();
+            for (let i = 0; i < 40; i++) {
+                cell = beginCell()
+                    .storeUint(0b11, 2)
+                    .storeRef(cell)
+                    .storeRef(cell)
+                    .endCell();
+            }
+
+            const preview = renderSignPreview(
+                {
+                    type: 'cell',
+                    schema: 't$_ a:(Maybe ^T) b:(Maybe ^T) = T;',
+                    cell: cell.toBoc().toString('base64'),
+                },
+                TEST_DOMAIN,
+                TEST_ADDRESS
+            );
+
+            expect(preview.payload).toMatchObject({ fields: null });
+            expect(preview.warnings).toMatchObject([
+                {
+                    kind: 'schema_mismatch',
+                    message: expect.stringMatching(/more cells than allowed/),
+                },
+            ]);
+        });
+    });
+
+    describe('malformed payload', () => {
+        it.each([
+            [{ type: 'json', data: '{}' }, 'Unsupported payload type "json"'],
+            [{ type: 'text' }, 'Text payload must be a string'],
+            [{ type: 'binary', bytes: 'AA=' }, 'Binary payload must be base64'],
+            [
+                { type: 'binary', bytes: '*AAA' },
+                'Binary payload must be base64',
+            ],
+            [
+                { type: 'cell', schema: 'a$_ = A;' },
+                'Cell payload schema and cell must be strings',
+            ],
+        ])('should show %o as unsupported', (payload, message) => {
+            const preview = renderSignPreview(
+                payload as unknown as SignDataPayload,
+                TEST_DOMAIN,
+                TEST_ADDRESS
+            );
+
+            expect(preview.payload).toEqual({
+                type: 'unsupported',
+                payloadType: payload.type,
+            });
+            expect(preview.warnings).toEqual([
+                { kind: 'malformed_payload', message },
+            ]);
+        });
+    });
+
+    describe('domain and address', () => {
+        it('should normalize IDN domain', () => {
+            const preview = renderSignPreview(
+                { type: 'text', text: 'hi' },
+                'App.Пример.COM.',
+                TEST_ADDRESS
+            );
+
+            expect(preview.domain).toEqual({
+                original: 'App.Пример.COM.',
+                normalized: 'app.xn--e1afmkfd.com',
+                unicode: 'app.пример.com',
+            });
+        });
+
+        it('should warn about invalid domain', () => {
+            const preview = renderSignPreview(
+                { type: 'text', text: 'hi' },
+                'bad..com',
+                TEST_ADDRESS
+            );
+
+            expect(preview.domain.normalized).toBeNull();
+            expect(preview.warnings).toMatchObject([
+                { kind: 'invalid_domain' },
+            ]);
+        });
+
+        it('should show raw address as user-friendly', () => {
+            const raw = Address.parse(TEST_ADDRESS).toRawString();
+            const preview = renderSignPreview(
+                { type: 'text', text: 'hi' },
+                TEST_DOMAIN,
+                raw
+            );
+
+            expect(preview.address).toEqual({
+                friendly: TEST_ADDRESS,
+                raw,
+                workchain: 0,
+                testOnly: false,
+            });
+        });
+    });
+});
@@ -0,0 +1,350 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { mnemonicToPrivateKey } from '@ton/crypto';
+import { beginCell } from '@ton/core';
+import { signData } from '../sign';
+import { verifySignData, verifySignDataAsync } from '../verify';
+import { SignDataPayload } from '../types';
+import {
+    checkFreshness,
+    InMemorySeenSignatureStore,
+    payloadContainsNonce,
+    SeenSignatureStoreFullError,
+} from '../replay';
+
+describe('replay protection', () => {
+    const TEST_MNEMONIC = [
+        'unfold',
+        'item',
+        'school',
+        'little',
+        'upper',
+        'surge',
+        'pride',
+        'endorse',
+        'outer',
+        'filter',
+        'biology',
+        'prefer',
+        'regular',
+        'island',
+        'hidden',
+        'dice',
+        'nuclear',
+        'grace',
+        'motor',
+        'entire',
+        'weird',
+        'between',
+        'falcon',
+        'dwarf',
+    ];
+
+    const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+    const TEST_DOMAIN = 'example.com';
+    const NOW = 1703980800;
+
+    let keyPair: { publicKey: Buffer; secretKey: Buffer };
+
+    beforeAll(async () => {
+        keyPair = await mnemonicToPrivateKey(TEST_MNEMONIC);
+    });
+
+    const signAt = (
+        timestamp: number,
+        payload: SignDataPayload = { type: 'text', text: 'Hello, TON!' }
+    ) => {
+        const originalDateNow = Date.now;
+        Date.now = () => timestamp * 1000;
+        try {
+            return signData({
+                payload,
+                domain: TEST_DOMAIN,
+                privateKey: keyPair.secretKey,
+                address: TEST_ADDRESS,
+            });
+        } finally {
+            Date.now = originalDateNow;
+        }
+    };
+
+    describe('freshness window', () => {
+        it('should accept signature within max age', () => {
+            const isValid = verifySignData({
+                signedData: signAt(NOW - 299),
+                publicKey: keyPair.publicKey,
+                maxAgeSeconds: 300,
+                now: NOW,
+            });
+
+            expect(isValid).toBe(true);
+        });
+
+        it('should reject signature older than max age', () => {
+            const isValid = verifySignData({
+                signedData: signAt(NOW - 301),
+                publicKey: keyPair.publicKey,
+                maxAgeSeconds: 300,
+                now: NOW,
+            });
+
+            expect(isValid).toBe(false);
+        });
+
+        it('should allow configured clock skew into the future', () => {
+            const signedData = signAt(NOW + 10);
+            const params = {
+                signedData,
+                publicKey: keyPair.publicKey,
+                maxAgeSeconds: 300,
+                now: NOW,
+            };
+
+            expect(
+                verifySignData({ ...params, maxFutureSkewSeconds: 10 })
+            ).toBe(true);
+            expect(verifySignData({ ...params, maxFutureSkewSeconds: 9 })).toBe(
+                false
+            );
+        });
+
+        it('should report failure reasons', () => {
+            expect(
+                checkFreshness(NOW - 301, { maxAgeSeconds: 300, now: NOW })
+            ).toBe('expired');
+            expect(
+                checkFreshness(NOW + 61, { maxAgeSeconds: 300, now: NOW })
+            ).toBe('timestamp_in_future');
+            expect(checkFreshness(NOW - 10_000, { now: NOW })).toBeNull();
+        });
+    });
+
+    describe('expected nonce', () => {
+        const NONCE = 'n-8f2c1a';
+
+        it('should accept text payload containing the nonce', () => {
+            const isValid = verifySignData({
+                signedData: signAt(NOW, {
+                    type: 'text',
+                    text: `Log in to example.com, nonce: ${NONCE}`,
+                }),
+                publicKey: keyPair.publicKey,
+                expectedNonce: NONCE,
+            });
+
+            expect(isValid).toBe(true);
+        });
+
+        it('should reject payload without the nonce', () => {
+            const isValid = verifySignData({
+                signedData: signAt(NOW),
+                publicKey: keyPair.publicKey,
+                expectedNonce: NONCE,
+            });
+
+            expect(isValid).toBe(false);
+        });
+
+        it('should find the nonce in binary payload', () => {
+            const payload: SignDataPayload = {
+                type: 'binary',
+                bytes: Buffer.concat([
+                    Buffer.from([1, 2, 3]),
+                    Buffer.from(NONCE),
+                ]).toString('base64'),
+            };
+
+            expect(payloadContainsNonce(payload, NONCE)).toBe(true);
+            expect(payloadContainsNonce(payload, 'other')).toBe(false);
+        });
+
+        it('should find the nonce in unaligned cell bits', () => {
+            const cell = beginCell()
+                .storeUint(0, 3)
+                .storeRef(beginCell().storeUint(1, 5).storeStringTail(NONCE))
+                .endCell();
+            const payload: SignDataPayload = {
+                type: 'cell',
+                schema: 'challenge#_ nonce:^string = Challenge;',
+                cell: cell.toBoc().toString('base64'),
+            };
+
+            expect(payloadContainsNonce(payload, NONCE)).toBe(true);
+            expect(payloadContainsNonce(payload, 'other')).toBe(false);
+        });
+    });
+
+    describe('seen signatures store', () => {
+        it('should accept a signature only once', () => {
+            const store = new InMemorySeenSignatureStore({ now: () => NOW });
+            const params = {
+                signedData: signAt(NOW),
+                publicKey: keyPair.publicKey,
+                maxAgeSeconds: 300,
+                now: NOW,
+                seenSignatures: store,
+            };
+
+            expect(verifySignData(params)).toBe(true);
+            expect(verifySignData(params)).toBe(false);
+        });
+
+        it('should not remember signatures that failed verification', () => {
+            const store = new InMemorySeenSignatureStore({ now: () => NOW });
+            const signedData = signAt(NOW);
+
+            const wrongPublicKey = Buffer.from(keyPair.publicKey);
+            wrongPublicKey[0] ^= 1;
+
+            expect(
+                verifySignData({
+                    signedData,
+                    publicKey: wrongPublicKey,
+                    maxAgeSeconds: 300,
+                    now: NOW,
+                    seenSignatures: store,
+                })
+            ).toBe(false);
+            expect(store.size).toBe(0);
+            expect(
+                verifySignData({
+                    signedData,
+                    publicKey: keyPair.publicKey,
+                    maxAgeSeconds: 300,
+                    now: NOW,
+                    seenSignatures: store,
+                })
+            ).toBe(true);
+        });
+
+        it('should require maxAgeSeconds, so entries expire', () => {
+            expect(() =>
+                verifySignData({
+                    signedData: signAt(NOW),
+                    publicKey: keyPair.publicKey,
+                    seenSignatures: new InMemorySeenSignatureStore(),
+                })
+            ).toThrow('seenSignatures requires maxAgeSeconds');
+        });
+
+        it('should await an asynchronous store', async () => {
+            const seen = new Set<string>();
+            const store = {
+                markSeen: async (key: string) => {
+                    const isFirstUse = !seen.has(key);
+                    seen.add(key);
+                    return isFirstUse;
+                },
+            };
+            const params = {
+                signedData: signAt(NOW),
+                publicKey: keyPair.publicKey,
+                maxAgeSeconds: 300,
+                now: NOW,
+                seenSignatures: store,
+            };
+
+            expect(await verifySignDataAsync(params)).toEqual({ valid: true });
+            expect(await verifySignDataAsync(params)).toMatchObject({
+                valid: false,
+                reason: 'replayed',
+            });
+            expect(() => verifySignData(params)).toThrow(
+                'seenSignatures is asynchronous'
+            );
+        });
+
+        it('should fail verification when the store is full', async () => {
+            const store = new InMemorySeenSignatureStore({
+                maxEntries: 1,
+                now: () => NOW,
+            });
+            const params = {
+                publicKey: keyPair.publicKey,
+                maxAgeSeconds: 300,
+                now: NOW,
+                seenSignatures: store,
+            };
+
+            expect(verifySignData({ ...params, signedData: signAt(NOW) })).toBe(
+                true
+            );
+            expect(
+                verifySignData({ ...params, signedData: signAt(NOW - 1) })
+            ).toBe(false);
+            expect(
+                await verifySignDataAsync({
+                    ...params,
+                    signedData: signAt(NOW - 2),
+                })
+            ).toEqual({
+                valid: false,
+                reason: 'replay_store_full',
+                message:
+                    'Seen signature store is full: 1 entries have not expired',
+            });
+        });
+
+        it('should rethrow other store errors', async () => {
+            const store = {
+                markSeen: (): boolean => {
+                    throw new Error('store is down');
+                },
+            };
+            const params = {
+                signedData: signAt(NOW),
+                publicKey: keyPair.publicKey,
+                maxAgeSeconds: 300,
+                now: NOW,
+                seenSignatures: store,
+            };
+
+            expect(() => verifySignData(params)).toThrow('store is down');
+            await expect(verifySignDataAsync(params)).rejects.toThrow(
+                'store is down'
+            );
+        });
+
+        it('should forget entries after they expire', () => {
+            let now = NOW;
+            const store = new InMemorySeenSignatureStore({ now: () => now });
+
+            expect(store.markSeen('a', NOW + 10)).toBe(true);
+            expect(store.markSeen('a', NOW + 10)).toBe(false);
+
+            now = NOW + 11;
+            expect(store.markSeen('a', NOW + 20)).toBe(true);
+        });
+
+        it('should drop expired entries when full', () => {
+            let now = NOW;
+            const store = new InMemorySeenSignatureStore({
+                maxEntries: 2,
+                now: () => now,
+            });
+
+            store.markSeen('a', NOW + 10);
+            store.markSeen('b', NOW + 20);
+            now = NOW + 11;
+
+            expect(store.markSeen('c', NOW + 20)).toBe(true);
+            expect(store.size).toBe(2);
+            expect(store.markSeen('b', NOW + 20)).toBe(false);
+        });
+
+        it('should refuse new entries rather than evict live ones', () => {
+            const store = new InMemorySeenSignatureStore({
+                maxEntries: 2,
+                now: () => NOW,
+            });
+
+            store.markSeen('a', NOW + 10);
+            store.markSeen('b', NOW + 10);
+
+            expect(() => store.markSeen('c', NOW + 10)).toThrow(
+                SeenSignatureStoreFullError
+            );
+            expect(store.markSeen('a', NOW + 10)).toBe(false);
+            expect(store.markSeen('b', NOW + 10)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { mnemonicToPrivateKey } from '@ton/crypto';
+import { Address, beginCell, contractAddress, storeStateInit } from '@ton/core';
+import { signData } from '../sign';
+import {
+    verifySignDataWithResolver,
+    verifySignDataWithResolverDetailed,
+} from '../verify';
+import {
+    CachingPublicKeyResolver,
+    ChainPublicKeyResolver,
+    FallbackPublicKeyResolver,
+    InMemoryChainProvider,
+    StateInitPublicKeyResolver,
+} from '../resolver';
+import { WALLET_CODE } from './fixtures/wallet-code';
+
+describe('public key resolver', () => {
+    const TEST_MNEMONIC = [
+        'unfold',
+        'item',
+        'school',
+        'little',
+        'upper',
+        'surge',
+        'pride',
+        'endorse',
+        'outer',
+        'filter',
+        'biology',
+        'prefer',
+        'regular',
+        'island',
+        'hidden',
+        'dice',
+        'nuclear',
+        'grace',
+        'motor',
+        'entire',
+        'weird',
+        'between',
+        'falcon',
+        'dwarf',
+    ];
+
+    const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+    const TEST_DOMAIN = 'example.com';
+
+    let keyPair: { publicKey: Buffer; secretKey: Buffer };
+
+    beforeAll(async () => {
+        keyPair = await mnemonicToPrivateKey(TEST_MNEMONIC);
+    });
+
+    const sign = (address = TEST_ADDRESS) =>
+        signData({
+            payload: { type: 'text', text: 'Hello, TON!' },
+            domain: TEST_DOMAIN,
+            privateKey: keyPair.secretKey,
+            address,
+        });
+
+    describe('ChainPublicKeyResolver', () => {
+        it('should verify using get_public_key of a deployed wallet', async () => {
+            const provider = new InMemoryChainProvider().setPublicKey(
+                Address.parse(TEST_ADDRESS),
+                keyPair.publicKey
+            );
+
+            const isValid = await verifySignDataWithResolver({
+                signedData: sign(),
+                resolver: new ChainPublicKeyResolver(provider),
+            });
+
+            expect(isValid).toBe(true);
+        });
+
+        it('should keep leading zero bytes of the public key', async () => {
+            const publicKey = Buffer.alloc(32, 0);
+            publicKey[31] = 1;
+            const address = Address.parse(TEST_ADDRESS);
+            const provider = new InMemoryChainProvider().setPublicKey(
+                address,
+                publicKey
+            );
+
+            const resolved = await new ChainPublicKeyResolver(
+                provider
+            ).resolvePublicKey(address);
+
+            expect(resolved?.equals(publicKey)).toBe(true);
+        });
+
+        it('should fail verification for an unknown wallet', async () => {
+            const isValid = await verifySignDataWithResolver({
+                signedData: sign(),
+                resolver: new ChainPublicKeyResolver(
+                    new InMemoryChainProvider()
+                ),
+            });
+
+            expect(isValid).toBe(false);
+        });
+
+        it('should fail verification when chain returns another key', async () => {
+            const provider = new InMemoryChainProvider().setPublicKey(
+                Address.parse(TEST_ADDRESS),
+                Buffer.alloc(32, 7)
+            );
+
+            const isValid = await verifySignDataWithResolver({
+                signedData: sign(),
+                resolver: new ChainPublicKeyResolver(provider),
+            });
+
+            expect(isValid).toBe(false);
+        });
+    });
+
+    describe('FallbackPublicKeyResolver', () => {
+        it('should use StateInit before asking the chain', async () => {
+            const init = {
+                code: WALLET_CODE.v4,
+                data: beginCell()
+                    .storeUint(0, 32)
+                    .storeUint(698983191, 32)
+                    .storeBuffer(keyPair.publicKey)
+                    .storeBit(0)
+                    .endCell(),
+            };
+            const address = contractAddress(0, init).toString();
+            const provider = new InMemoryChainProvider();
+
+            const isValid = await verifySignDataWithResolver({
+                signedData: sign(address),
+                resolver: new FallbackPublicKeyResolver(
+                    new StateInitPublicKeyResolver(),
+                    new ChainPublicKeyResolver(provider)
+                ),
+                context: {
+                    walletStateInit: beginCell()
+                        .store(storeStateInit(init))
+                        .endCell()
+                        .toBoc()
+                        .toString('base64'),
+                },
+            });
+
+            expect(isValid).toBe(true);
+            expect(provider.calls).toBe(0);
+        });
+
+        it('should fall back to the chain without StateInit', async () => {
+            const provider = new InMemoryChainProvider().setPublicKey(
+                Address.parse(TEST_ADDRESS),
+                keyPair.publicKey
+            );
+
+            const isValid = await verifySignDataWithResolver({
+                signedData: sign(),
+                resolver: new FallbackPublicKeyResolver(
+                    new StateInitPublicKeyResolver(),
+                    new ChainPublicKeyResolver(provider)
+                ),
+            });
+
+            expect(isValid).toBe(true);
+            expect(provider.calls).toBe(1);
+        });
+    });
+
+    describe('verifySignDataWithResolverDetailed', () => {
+        it('should report a malformed address before resolving', async () => {
+            const provider = new InMemoryChainProvider();
+
+            const result = await verifySignDataWithResolverDetailed({
+                signedData: { ...sign(), address: '0:zz' },
+                resolver: new ChainPublicKeyResolver(provider),
+            });
+
+            expect(result).toEqual({
+                valid: false,
+                reason: 'malformed_address',
+                message: 'Invalid address "0:zz"',
+            });
+            expect(provider.calls).toBe(0);
+        });
+
+        it.each(['not base64!', Buffer.from('garbage').toString('base64')])(
+            'should report a malformed StateInit %j before resolving',
+            async (walletStateInit) => {
+                const params = {
+                    signedData: sign(),
+                    resolver: new StateInitPublicKeyResolver(),
+                    context: { walletStateInit },
+                };
+
+                expect(
+                    await verifySignDataWithResolverDetailed(params)
+                ).toMatchObject({
+                    valid: false,
+                    reason: 'malformed_state_init',
+                });
+                expect(await verifySignDataWithResolver(params)).toBe(false);
+            }
+        );
+
+        it('should report a public key that cannot be resolved', async () => {
+            expect(
+                await verifySignDataWithResolverDetailed({
+                    signedData: sign(),
+                    resolver: new ChainPublicKeyResolver(
+                        new InMemoryChainProvider()
+                    ),
+                })
+            ).toEqual({
+                valid: false,
+                reason: 'public_key_not_found',
+                message: 'Cannot resolve the public key of the wallet',
+            });
+        });
+    });
+
+    describe('CachingPublicKeyResolver', () => {
+        it('should cache resolved keys until TTL expires', async () => {
+            let now = 1_000;
+            const address = Address.parse(TEST_ADDRESS);
+            const provider = new InMemoryChainProvider().setPublicKey(
+                address,
+                keyPair.publicKey
+            );
+            const resolver = new CachingPublicKeyResolver(
+                new ChainPublicKeyResolver(provider),
+                { ttlMs: 500, now: () => now }
+            );
+
+            await resolver.resolvePublicKey(address);
+            now += 499;
+            await resolver.resolvePublicKey(address);
+            expect(provider.calls).toBe(1);
+
+            now += 1;
+            await resolver.resolvePublicKey(address);
+            expect(provider.calls).toBe(2);
+        });
+
+        it('should not cache failed lookups', async () => {
+            const address = Address.parse(TEST_ADDRESS);
+            const provider = new InMemoryChainProvider();
+            const resolver = new CachingPublicKeyResolver(
+                new ChainPublicKeyResolver(provider),
+                { ttlMs: 60_000 }
+            );
+
+            expect(await resolver.resolvePublicKey(address)).toBeNull();
+
+            provider.setPublicKey(address, keyPair.publicKey);
+            const resolved = await resolver.resolvePublicKey(address);
+
+            expect(resolved?.equals(keyPair.publicKey)).toBe(true);
+            expect(provider.calls).toBe(2);
+        });
+    });
+});
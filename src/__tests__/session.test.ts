@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import nacl from 'tweetnacl';
+import { Cell } from '@ton/core';
+import { signData } from '../sign';
+import {
+    issueSessionToken,
+    payloadDigest,
+    SessionSigningKey,
+    SessionVerificationKey,
+    verifyAndIssueSession,
+    verifySessionToken,
+} from '../session';
+import { SignDataPayload } from '../types';
+import { hmacSha256 } from '../crypto';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const RAW_ADDRESS =
+    '0:b2a93997269b2116ed465b5b724d7ea969addcfb7ece1bdb37baff19cd7ffd18';
+const NOW = 1700000000;
+
+const wallet = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(1));
+const server = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(2));
+const secret = Buffer.from('a sufficiently long HS256 secret!');
+
+const keys: [SessionSigningKey, SessionVerificationKey][] = [
+    [
+        { alg: 'HS256', secret },
+        { alg: 'HS256', secret },
+    ],
+    [
+        { alg: 'EdDSA', secretKey: server.secretKey },
+        { alg: 'EdDSA', publicKey: server.publicKey },
+    ],
+];
+
+const sign = (payload: SignDataPayload = { type: 'text', text: 'Log in' }) =>
+    signData({
+        payload,
+        domain: 'example.com',
+        privateKey: wallet.secretKey,
+        address: TEST_ADDRESS,
+        timestamp: NOW - 10,
+    });
+
+const decodePart = (token: string, index: number) =>
+    JSON.parse(Buffer.from(token.split('.')[index], 'base64url').toString());
+
+describe.each(keys)('$alg session token', (signingKey, verificationKey) => {
+    it('binds address, domain, timestamp and payload', async () => {
+        const token = await issueSessionToken(sign(), {
+            key: signingKey,
+            issuer: 'auth.example.com',
+            ttlSeconds: 600,
+            now: NOW,
+        });
+
+        expect(decodePart(token, 0)).toEqual({
+            alg: signingKey.alg,
+            typ: 'JWT',
+        });
+        expect(
+            await verifySessionToken(token, {
+                key: verificationKey,
+                issuer: 'auth.example.com',
+                audience: 'example.com',
+                now: NOW + 300,
+            })
+        ).toEqual({
+            valid: true,
+            claims: {
+                iss: 'auth.example.com',
+                sub: RAW_ADDRESS,
+                aud: 'example.com',
+                iat: NOW,
+                exp: NOW + 600,
+                ton_wc: 0,
+                ton_ts: NOW - 10,
+                ton_payload_type: 'text',
+                // sha256("Log in")
+                ton_payload_hash:
+                    'c189840cf7e2d6f6fdeefde1ac59dfdf50bb75642eb569b4e38a5614d6f12ac2',
+            },
+        });
+    });
+
+    it('rejects tampered claims', async () => {
+        const token = await issueSessionToken(sign(), {
+            key: signingKey,
+            now: NOW,
+        });
+        const [header, , signature] = token.split('.');
+        const claims = decodePart(token, 1);
+        const forged = Buffer.from(
+            JSON.stringify({ ...claims, sub: `0:${'00'.repeat(32)}` })
+        ).toString('base64url');
+
+        expect(
+            await verifySessionToken(`${header}.${forged}.${signature}`, {
+                key: verificationKey,
+                now: NOW,
+            })
+        ).toMatchObject({ valid: false, reason: 'invalid_signature' });
+    });
+
+    it('checks expiry, issuer and audience', async () => {
+        const token = await issueSessionToken(sign(), {
+            key: signingKey,
+            ttlSeconds: 60,
+            now: NOW,
+        });
+        const reason = async (options: object) => {
+            const result = await verifySessionToken(token, {
+                key: verificationKey,
+                now: NOW,
+                ...options,
+            });
+            return result.valid ? null : result.reason;
+        };
+
+        expect(await reason({})).toBeNull();
+        expect(await reason({ now: NOW + 60 + 59 })).toBeNull(); // clock skew
+        expect(await reason({ now: NOW + 60 + 60 })).toBe('expired');
+        expect(await reason({ now: NOW - 61 })).toBe('not_yet_valid');
+        expect(await reason({ issuer: 'auth.example.com' })).toBe(
+            'issuer_mismatch'
+        );
+        expect(await reason({ audience: ['example.org'] })).toBe(
+            'audience_mismatch'
+        );
+    });
+});
+
+describe('verifySessionToken', () => {
+    const hsKey = { alg: 'HS256', secret } as const;
+
+    it('accepts only the algorithm of the key', async () => {
+        const token = await issueSessionToken(sign(), {
+            key: { alg: 'EdDSA', secretKey: server.secretKey },
+        });
+        const [, claims, signature] = token.split('.');
+        const none = Buffer.from('{"alg":"none"}').toString('base64url');
+
+        expect(await verifySessionToken(token, { key: hsKey })).toMatchObject({
+            reason: 'unsupported_algorithm',
+        });
+        expect(
+            await verifySessionToken(`${none}.${claims}.${signature}`, {
+                key: { alg: 'EdDSA', publicKey: server.publicKey },
+            })
+        ).toMatchObject({ reason: 'unsupported_algorithm' });
+    });
+
+    it('refuses HS256 secrets shorter than 32 bytes', async () => {
+        const weak = { alg: 'HS256', secret: new Uint8Array(31) } as const;
+        const token = await issueSessionToken(sign(), { key: hsKey });
+
+        await expect(issueSessionToken(sign(), { key: weak })).rejects.toThrow(
+            'HS256 secret must be at least 32 bytes, got 31'
+        );
+        await expect(verifySessionToken(token, { key: weak })).rejects.toThrow(
+            'HS256 secret must be at least 32 bytes'
+        );
+        await expect(
+            verifySessionToken(token, {
+                key: { alg: 'HS256', secret: new Uint8Array(0) },
+            })
+        ).rejects.toThrow('got 0');
+    });
+
+    it('rejects malformed tokens', async () => {
+        for (const token of ['', 'a.b', 'a.b.c.d', 'a.b+.c', 'a..c']) {
+            expect(
+                await verifySessionToken(token, { key: hsKey }),
+                token
+            ).toMatchObject({ valid: false, reason: 'malformed_token' });
+        }
+    });
+
+    it('rejects signed tokens that are not sessions', async () => {
+        const input = `${Buffer.from('{"alg":"HS256"}').toString('base64url')}.${Buffer.from('{"sub":"x"}').toString('base64url')}`;
+        const signature = Buffer.from(
+            await hmacSha256(secret, Buffer.from(input))
+        ).toString('base64url');
+
+        expect(
+            await verifySessionToken(`${input}.${signature}`, { key: hsKey })
+        ).toMatchObject({ reason: 'malformed_claims' });
+    });
+});
+
+describe('payloadDigest', () => {
+    it('hashes binary bytes and cell representation', async () => {
+        const cell = 'te6cckEBAQEAAgAAAEysuc0=';
+
+        expect(await payloadDigest({ type: 'binary', bytes: 'AQID' })).toBe(
+            '039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81'
+        );
+        expect(
+            await payloadDigest({ type: 'cell', schema: 'e = E', cell })
+        ).toBe(Cell.fromBase64(cell).hash().toString('hex'));
+    });
+});
+
+describe('verifyAndIssueSession', () => {
+    const options = { key: { alg: 'HS256', secret } as const, now: NOW };
+
+    it('issues a token for a valid proof', async () => {
+        const result = await verifyAndIssueSession(
+            { signedData: sign(), publicKey: wallet.publicKey },
+            options
+        );
+
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+            expect(
+                await verifySessionToken(result.token, {
+                    key: options.key,
+                    now: NOW,
+                })
+            ).toEqual({ valid: true, claims: result.claims });
+        }
+    });
+
+    it('returns the failed check for an invalid proof', async () => {
+        expect(
+            await verifyAndIssueSession(
+                { signedData: sign(), publicKey: server.publicKey },
+                options
+            )
+        ).toMatchObject({ valid: false, reason: 'invalid_signature' });
+    });
+});
@@ -0,0 +1,8 @@
+import { Buffer as BufferPolyfill } from 'buffer';
+
+// The edge-runtime environment exposes Node.js' own Buffer. Browsers and
+// workers have none: @ton/core needs a global Buffer, which apps provide with
+// the `buffer` package, so the portable tests run against that one only.
+const scope = globalThis as { Buffer?: unknown };
+delete scope.Buffer;
+scope.Buffer = BufferPolyfill;
@@ -0,0 +1,21 @@
+import {
+    CryptoProvider,
+    naclCryptoProvider,
+    setCryptoProvider,
+    webCryptoProvider,
+} from '../../crypto';
+import { nodeCryptoProvider } from '../../crypto-node';
+
+const providers: Record<string, CryptoProvider> = {
+    node: nodeCryptoProvider,
+    nacl: naclCryptoProvider,
+    webcrypto: webCryptoProvider,
+};
+
+const name = process.env.CRYPTO_PROVIDER;
+if (name) {
+    if (!providers[name]) {
+        throw new Error(`Unknown CRYPTO_PROVIDER "${name}"`);
+    }
+    setCryptoProvider(providers[name]);
+}
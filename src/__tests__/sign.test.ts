@@ -398,6 +398,29 @@ describe('sign-data', () => {
 
             expect(isValid).toBe(false);
         });
+
+        it('should refuse to sign cell not matching schema in strict mode', () => {
+            const params = {
+                payload: {
+                    type: 'cell' as const,
+                    schema: 'transfer#123 amount:Coins = Transfer;',
+                    cell: beginCell()
+                        .storeUint(0x123, 32)
+                        .storeCoins(1n)
+                        .endCell()
+                        .toBoc()
+                        .toString('base64'),
+                },
+                domain: TEST_DOMAIN,
+                privateKey: keyPair.secretKey,
+                address: TEST_ADDRESS,
+            };
+
+            expect(() => signData({ ...params, strictSchema: true })).toThrow(
+                /Cell does not match schema: .*"Transfer", bit offset 0/
+            );
+            expect(() => signData(params)).not.toThrow();
+        });
     });
 
     describe('signature consistency', () => {
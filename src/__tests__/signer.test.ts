@@ -0,0 +1,124 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import nacl from 'tweetnacl';
+import { signData, signDataWith } from '../sign';
+import { verifySignData } from '../verify';
+import { KeyPairSigner, RemoteSigner, Signer } from '../signer';
+import { MockSigningServer } from '../signing-server';
+import { SignDataPayloadText } from '../types';
+
+const TEST_MNEMONIC =
+    'unfold item school little upper surge pride endorse outer filter biology prefer regular island hidden dice nuclear grace motor entire weird between falcon dwarf'.split(
+        ' '
+    );
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const SEED = Buffer.alloc(32, 3);
+
+const params = {
+    payload: { type: 'text', text: 'Hello, TON!' } as SignDataPayloadText,
+    domain: 'example.com',
+    address: TEST_ADDRESS,
+    timestamp: 1700000000,
+};
+
+describe('KeyPairSigner', () => {
+    it('produces the same result as signData', async () => {
+        const signer = KeyPairSigner.fromSeed(SEED);
+        const secretKey = Buffer.from(
+            nacl.sign.keyPair.fromSeed(SEED).secretKey
+        );
+
+        expect(await signDataWith(signer, params)).toEqual(
+            signData({ ...params, privateKey: secretKey })
+        );
+    });
+
+    it('derives the key from a mnemonic', async () => {
+        const signer = await KeyPairSigner.fromMnemonic(TEST_MNEMONIC);
+        const signedData = await signDataWith(signer, params);
+
+        expect(
+            verifySignData({ signedData, publicKey: signer.publicKey })
+        ).toBe(true);
+    });
+
+    it('rejects keys of wrong length', () => {
+        expect(() => new KeyPairSigner(Buffer.alloc(32))).toThrow(
+            'Secret key must be 64 bytes, got 32'
+        );
+        expect(() => KeyPairSigner.fromSeed(Buffer.alloc(64))).toThrow(
+            'Seed must be 32 bytes, got 64'
+        );
+    });
+});
+
+describe('signDataWith', () => {
+    it('rejects a signature that does not match the public key', async () => {
+        const other = KeyPairSigner.fromSeed(Buffer.alloc(32, 4));
+        const signer: Signer = {
+            publicKey: KeyPairSigner.fromSeed(SEED).publicKey,
+            sign: (hash) => other.sign(hash),
+        };
+
+        await expect(signDataWith(signer, params)).rejects.toThrow(
+            'Signer returned a signature that does not match its public key'
+        );
+    });
+
+    it('applies strict schema check before calling the signer', async () => {
+        let called = false;
+        const signer: Signer = {
+            publicKey: Buffer.alloc(32),
+            sign: async () => {
+                called = true;
+                return Buffer.alloc(64);
+            },
+        };
+
+        await expect(
+            signDataWith(signer, {
+                ...params,
+                payload: {
+                    type: 'cell',
+                    schema: 'a#_ x:uint64 = A;',
+                    cell: 'te6cckEBAQEAAgAAAEysuc0=',
+                },
+                strictSchema: true,
+            })
+        ).rejects.toThrow('Cell does not match schema');
+        expect(called).toBe(false);
+    });
+});
+
+describe('RemoteSigner', () => {
+    let server: MockSigningServer | undefined;
+
+    afterEach(async () => {
+        await server?.close();
+        server = undefined;
+    });
+
+    it('signs through the mock signing server', async () => {
+        const local = KeyPairSigner.fromSeed(SEED);
+        server = new MockSigningServer(local);
+        const url = await server.listen();
+
+        const remote = await RemoteSigner.connect(url);
+        expect(remote.publicKey).toEqual(local.publicKey);
+
+        const signedData = await signDataWith(remote, params);
+        expect(server.signCount).toBe(1);
+        expect(verifySignData({ signedData, publicKey: local.publicKey })).toBe(
+            true
+        );
+    });
+
+    it('reports service errors', async () => {
+        server = new MockSigningServer(KeyPairSigner.fromSeed(SEED));
+        const url = await server.listen();
+        const remote = await RemoteSigner.connect(url);
+
+        await expect(remote.sign(Buffer.alloc(16))).rejects.toThrow(
+            'Remote signer responded with 400'
+        );
+    });
+});
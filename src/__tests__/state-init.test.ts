@@ -0,0 +1,334 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { mnemonicToPrivateKey } from '@ton/crypto';
+import {
+    beginCell,
+    Cell,
+    contractAddress,
+    StateInit,
+    storeStateInit,
+} from '@ton/core';
+import { signData } from '../sign';
+import {
+    verifySignDataWithStateInit,
+    verifySignDataWithStateInitDetailed,
+} from '../verify';
+import { extractWalletPublicKey } from '../state-init';
+import { WALLET_CODE } from './fixtures/wallet-code';
+
+describe('state-init', () => {
+    const TEST_MNEMONIC = [
+        'unfold',
+        'item',
+        'school',
+        'little',
+        'upper',
+        'surge',
+        'pride',
+        'endorse',
+        'outer',
+        'filter',
+        'biology',
+        'prefer',
+        'regular',
+        'island',
+        'hidden',
+        'dice',
+        'nuclear',
+        'grace',
+        'motor',
+        'entire',
+        'weird',
+        'between',
+        'falcon',
+        'dwarf',
+    ];
+    const TEST_DOMAIN = 'example.com';
+
+    let keyPair: { publicKey: Buffer; secretKey: Buffer };
+
+    beforeAll(async () => {
+        keyPair = await mnemonicToPrivateKey(TEST_MNEMONIC);
+    });
+
+    const layouts: {
+        name: keyof typeof WALLET_CODE;
+        data: (pk: Buffer) => Cell;
+    }[] = [
+        {
+            name: 'v3',
+            data: (pk) =>
+                beginCell()
+                    .storeUint(0, 32)
+                    .storeUint(698983191, 32)
+                    .storeBuffer(pk)
+                    .endCell(),
+        },
+        {
+            name: 'v4',
+            data: (pk) =>
+                beginCell()
+                    .storeUint(0, 32)
+                    .storeUint(698983191, 32)
+                    .storeBuffer(pk)
+                    .storeBit(0)
+                    .endCell(),
+        },
+        {
+            name: 'v5r1',
+            data: (pk) =>
+                beginCell()
+                    .storeBit(1)
+                    .storeUint(0, 32)
+                    .storeInt(2147483409, 32)
+                    .storeBuffer(pk)
+                    .storeBit(0)
+                    .endCell(),
+        },
+        {
+            name: 'highload-v2',
+            data: (pk) =>
+                beginCell()
+                    .storeUint(0, 32)
+                    .storeUint(0, 64)
+                    .storeBuffer(pk)
+                    .storeBit(0)
+                    .endCell(),
+        },
+        {
+            name: 'highload-v3',
+            data: (pk) =>
+                beginCell()
+                    .storeBuffer(pk)
+                    .storeUint(0x10ad, 32)
+                    .storeBit(0)
+                    .storeBit(0)
+                    .storeUint(0, 64)
+                    .storeUint(60 * 60, 22)
+                    .endCell(),
+        },
+    ];
+
+    const encode = (init: StateInit) =>
+        beginCell()
+            .store(storeStateInit(init))
+            .endCell()
+            .toBoc()
+            .toString('base64');
+
+    describe('extractWalletPublicKey', () => {
+        it.each(layouts)(
+            'should read public key from $name data',
+            ({ name, data }) => {
+                const result = extractWalletPublicKey(
+                    WALLET_CODE[name],
+                    data(keyPair.publicKey)
+                );
+                expect(result?.layout).toBe(name);
+                expect(result?.publicKey.equals(keyPair.publicKey)).toBe(true);
+            }
+        );
+
+        it('should return null for unknown code', () => {
+            const code = beginCell().storeUint(0xc0de, 16).endCell();
+            const data = layouts[0].data(keyPair.publicKey);
+            expect(extractWalletPublicKey(code, data)).toBeNull();
+        });
+
+        it('should return null for data that does not fit the code', () => {
+            const data = layouts[0].data(keyPair.publicKey);
+            expect(extractWalletPublicKey(WALLET_CODE.v5r1, data)).toBeNull();
+        });
+    });
+
+    describe('verifySignDataWithStateInit', () => {
+        it.each(layouts)(
+            'should verify signature for $name wallet',
+            ({ name, data }) => {
+                const init = {
+                    code: WALLET_CODE[name],
+                    data: data(keyPair.publicKey),
+                };
+                const address = contractAddress(0, init).toString();
+
+                const signedData = signData({
+                    payload: { type: 'text', text: 'Hello, TON!' },
+                    domain: TEST_DOMAIN,
+                    privateKey: keyPair.secretKey,
+                    address,
+                });
+
+                const isValid = verifySignDataWithStateInit({
+                    signedData,
+                    walletStateInit: encode(init),
+                });
+
+                expect(isValid).toBe(true);
+            }
+        );
+
+        it('should fail verification when StateInit does not match address', () => {
+            const init = {
+                code: WALLET_CODE.v4,
+                data: layouts[1].data(keyPair.publicKey),
+            };
+
+            const signedData = signData({
+                payload: { type: 'text', text: 'Hello, TON!' },
+                domain: TEST_DOMAIN,
+                privateKey: keyPair.secretKey,
+                address: 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx',
+            });
+
+            const isValid = verifySignDataWithStateInit({
+                signedData,
+                walletStateInit: encode(init),
+            });
+
+            expect(isValid).toBe(false);
+        });
+
+        it('should fail verification when StateInit holds another key', () => {
+            const otherKey = Buffer.alloc(32, 7);
+            const init = {
+                code: WALLET_CODE.v4,
+                data: layouts[1].data(otherKey),
+            };
+            const address = contractAddress(0, init).toString();
+
+            const signedData = signData({
+                payload: { type: 'text', text: 'Hello, TON!' },
+                domain: TEST_DOMAIN,
+                privateKey: keyPair.secretKey,
+                address,
+            });
+
+            const isValid = verifySignDataWithStateInit({
+                signedData,
+                walletStateInit: encode(init),
+            });
+
+            expect(isValid).toBe(false);
+        });
+
+        it('should fail verification for unknown wallet code', () => {
+            const init = {
+                code: beginCell().storeUint(0xc0de, 16).endCell(),
+                data: layouts[1].data(keyPair.publicKey),
+            };
+            const address = contractAddress(0, init).toString();
+
+            const signedData = signData({
+                payload: { type: 'text', text: 'Hello, TON!' },
+                domain: TEST_DOMAIN,
+                privateKey: keyPair.secretKey,
+                address,
+            });
+
+            expect(
+                verifySignDataWithStateInit({
+                    signedData,
+                    walletStateInit: encode(init),
+                })
+            ).toBe(false);
+        });
+
+        it('should report a malformed address instead of throwing', () => {
+            const init = {
+                code: WALLET_CODE.v4,
+                data: layouts[1].data(keyPair.publicKey),
+            };
+            const signedData = {
+                ...signData({
+                    payload: { type: 'text', text: 'Hello, TON!' },
+                    domain: TEST_DOMAIN,
+                    privateKey: keyPair.secretKey,
+                    address: contractAddress(0, init).toString(),
+                }),
+                address: 'not an address',
+            };
+
+            expect(
+                verifySignDataWithStateInitDetailed({
+                    signedData,
+                    walletStateInit: encode(init),
+                })
+            ).toEqual({
+                valid: false,
+                reason: 'malformed_address',
+                message: 'Invalid address "not an address"',
+            });
+            expect(
+                verifySignDataWithStateInit({
+                    signedData,
+                    walletStateInit: encode(init),
+                })
+            ).toBe(false);
+        });
+
+        it.each(['', 'not base64!', Buffer.from('garbage').toString('base64')])(
+            'should report a malformed StateInit %j instead of throwing',
+            (walletStateInit) => {
+                const signedData = signData({
+                    payload: { type: 'text', text: 'Hello, TON!' },
+                    domain: TEST_DOMAIN,
+                    privateKey: keyPair.secretKey,
+                    address: 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx',
+                });
+
+                expect(
+                    verifySignDataWithStateInitDetailed({
+                        signedData,
+                        walletStateInit,
+                    })
+                ).toMatchObject({
+                    valid: false,
+                    reason: 'malformed_state_init',
+                });
+                expect(
+                    verifySignDataWithStateInit({ signedData, walletStateInit })
+                ).toBe(false);
+            }
+        );
+
+        it('should report a StateInit of another account', () => {
+            const signedData = signData({
+                payload: { type: 'text', text: 'Hello, TON!' },
+                domain: TEST_DOMAIN,
+                privateKey: keyPair.secretKey,
+                address: 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx',
+            });
+
+            expect(
+                verifySignDataWithStateInitDetailed({
+                    signedData,
+                    walletStateInit: encode({
+                        code: WALLET_CODE.v4,
+                        data: layouts[1].data(keyPair.publicKey),
+                    }),
+                })
+            ).toMatchObject({ valid: false, reason: 'public_key_not_found' });
+        });
+
+        it('should verify masterchain wallet', () => {
+            const init = {
+                code: WALLET_CODE.v5r1,
+                data: layouts[2].data(keyPair.publicKey),
+            };
+            const address = contractAddress(-1, init).toRawString();
+
+            const signedData = signData({
+                payload: { type: 'text', text: 'Hello, TON!' },
+                domain: TEST_DOMAIN,
+                privateKey: keyPair.secretKey,
+                address,
+            });
+
+            expect(
+                verifySignDataWithStateInit({
+                    signedData,
+                    walletStateInit: encode(init),
+                })
+            ).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,310 @@
+import { describe, it, expect } from 'vitest';
+import { Address } from '@ton/core';
+import nacl from 'tweetnacl';
+import {
+    BinaryStreamPayload,
+    createBinaryStreamHash,
+    signBinaryStream,
+    verifyBinaryStream,
+} from '../stream';
+import { Sha256 } from '../sha256';
+import { createSha256Hasher, naclCryptoProvider } from '../crypto';
+import { createTextBinaryHash } from '../utils';
+import { signData } from '../sign';
+import { verifySignDataDetailed } from '../verify';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const parsedAddr = Address.parse(TEST_ADDRESS);
+const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(5));
+const DOMAIN = 'example.com';
+const TIMESTAMP = 1700000000;
+
+const bytes = Uint8Array.from({ length: 1000 }, (_, i) => (i * 31) % 256);
+
+async function* chunksOf(data: Uint8Array, size: number) {
+    for (let i = 0; i < data.length; i += size) {
+        yield data.subarray(i, i + size);
+    }
+}
+
+function readableOf(data: Uint8Array, size: number) {
+    let offset = 0;
+    return new ReadableStream<Uint8Array>({
+        pull(controller) {
+            if (offset >= data.length) {
+                controller.close();
+                return;
+            }
+            controller.enqueue(data.slice(offset, offset + size));
+            offset += size;
+        },
+    });
+}
+
+const streamOf = (
+    data: Uint8Array,
+    length = data.length
+): BinaryStreamPayload => ({ stream: chunksOf(data, 7), length });
+
+const bufferedHash = (data: Uint8Array) =>
+    createTextBinaryHash(
+        { type: 'binary', bytes: Buffer.from(data).toString('base64') },
+        parsedAddr,
+        DOMAIN,
+        TIMESTAMP
+    );
+
+describe('Sha256', () => {
+    it.each([0, 1, 55, 56, 63, 64, 65, 1000])(
+        'matches webcrypto for %i bytes fed in pieces',
+        async (length) => {
+            const data = bytes.subarray(0, length);
+            const hasher = new Sha256();
+            for (let i = 0; i < data.length; i += 13) {
+                hasher.update(data.subarray(i, i + 13));
+            }
+
+            const expected = await globalThis.crypto.subtle.digest(
+                'SHA-256',
+                data
+            );
+            expect(Buffer.from(hasher.digest())).toEqual(Buffer.from(expected));
+        }
+    );
+
+    it('cannot be used after digest', () => {
+        const hasher = new Sha256();
+        hasher.digest();
+
+        expect(() => hasher.update(bytes)).toThrow('Hash is already digested');
+        expect(() => hasher.digest()).toThrow('Hash is already digested');
+    });
+
+    it('is the fallback of providers without an incremental hash', () => {
+        expect(createSha256Hasher(naclCryptoProvider)).toBeInstanceOf(Sha256);
+    });
+});
+
+describe('createBinaryStreamHash', () => {
+    it.each([
+        ['an async iterable', () => chunksOf(bytes, 7)],
+        ['a ReadableStream', () => readableOf(bytes, 100)],
+        ['a single chunk', () => chunksOf(bytes, bytes.length)],
+    ])('matches the buffered hash for %s', async (_, stream) => {
+        const hash = await createBinaryStreamHash(
+            { stream: stream(), length: bytes.length },
+            parsedAddr,
+            DOMAIN,
+            TIMESTAMP
+        );
+
+        expect(hash).toEqual(bufferedHash(bytes));
+    });
+
+    it('hashes an empty payload', async () => {
+        const empty = new Uint8Array(0);
+
+        expect(
+            await createBinaryStreamHash(
+                streamOf(empty),
+                parsedAddr,
+                DOMAIN,
+                TIMESTAMP
+            )
+        ).toEqual(bufferedHash(empty));
+    });
+
+    it.each([
+        [
+            bytes.length + 1,
+            'Stream ended after 1000 of the declared 1001 bytes',
+        ],
+        [bytes.length - 1, 'Stream is longer than the declared 999 bytes'],
+        [-1, 'Declared length must be an integer'],
+        [1.5, 'Declared length must be an integer'],
+    ])('rejects a declared length of %d', async (length, message) => {
+        await expect(
+            createBinaryStreamHash(
+                streamOf(bytes, length),
+                parsedAddr,
+                DOMAIN,
+                TIMESTAMP
+            )
+        ).rejects.toThrow(message);
+    });
+
+    it('rejects a large payload before reading it', async () => {
+        let read = false;
+        async function* stream() {
+            read = true;
+            yield bytes;
+        }
+
+        await expect(
+            createBinaryStreamHash(
+                { stream: stream(), length: bytes.length },
+                parsedAddr,
+                DOMAIN,
+                TIMESTAMP,
+                { maxPayloadBytes: 999 }
+            )
+        ).rejects.toThrow('Payload must be at most 999 bytes');
+        expect(read).toBe(false);
+    });
+
+    it('cancels a ReadableStream that is too long', async () => {
+        let cancelled = false;
+        const stream = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                controller.enqueue(bytes);
+            },
+            cancel() {
+                cancelled = true;
+            },
+        });
+
+        await expect(
+            createBinaryStreamHash(
+                { stream, length: bytes.length },
+                parsedAddr,
+                DOMAIN,
+                TIMESTAMP
+            )
+        ).rejects.toThrow('Stream is longer');
+        expect(cancelled).toBe(true);
+    });
+});
+
+describe('signBinaryStream / verifyBinaryStream', () => {
+    const sign = (payload = streamOf(bytes)) =>
+        signBinaryStream({
+            payload,
+            domain: DOMAIN,
+            privateKey: keyPair.secretKey,
+            address: TEST_ADDRESS,
+            timestamp: TIMESTAMP,
+        });
+
+    it('signs the same as signData', async () => {
+        const buffered = signData({
+            payload: {
+                type: 'binary',
+                bytes: Buffer.from(bytes).toString('base64'),
+            },
+            domain: DOMAIN,
+            privateKey: keyPair.secretKey,
+            address: TEST_ADDRESS,
+            timestamp: TIMESTAMP,
+        });
+        const { payload, ...signature } = buffered;
+
+        expect(await sign()).toEqual(signature);
+        expect(
+            await verifyBinaryStream({
+                signedData: signature,
+                payload: streamOf(bytes),
+                publicKey: keyPair.publicKey,
+            })
+        ).toEqual({ valid: true });
+        expect(
+            verifySignDataDetailed({
+                signedData: { ...(await sign()), payload },
+                publicKey: keyPair.publicKey,
+            })
+        ).toEqual({ valid: true });
+    });
+
+    it('rejects other bytes with the same length', async () => {
+        const other = bytes.slice();
+        other[500] ^= 1;
+
+        expect(
+            await verifyBinaryStream({
+                signedData: await sign(),
+                payload: streamOf(other),
+                publicKey: keyPair.publicKey,
+            })
+        ).toMatchObject({ valid: false, reason: 'invalid_signature' });
+    });
+
+    it.each([
+        [{ maxPayloadBytes: 999 }, 'payload_too_large'],
+        [{ allowedDomains: ['other.com'] }, 'domain_mismatch'],
+        [{ now: TIMESTAMP + 3600, maxAgeSeconds: 60 }, 'expired'],
+    ])('applies the verification options %o', async (options, reason) => {
+        expect(
+            await verifyBinaryStream({
+                signedData: await sign(),
+                payload: streamOf(bytes),
+                publicKey: keyPair.publicKey,
+                ...options,
+            })
+        ).toMatchObject({ valid: false, reason });
+    });
+
+    it('reports a stream that does not match its length', async () => {
+        expect(
+            await verifyBinaryStream({
+                signedData: await sign(),
+                payload: streamOf(bytes, bytes.length + 1),
+                publicKey: keyPair.publicKey,
+            })
+        ).toMatchObject({ valid: false, reason: 'malformed_payload' });
+    });
+
+    it('enforces maxPayloadBytes when signing', async () => {
+        await expect(
+            signBinaryStream({
+                payload: streamOf(bytes),
+                domain: DOMAIN,
+                privateKey: keyPair.secretKey,
+                address: TEST_ADDRESS,
+                maxPayloadBytes: 100,
+            })
+        ).rejects.toThrow('Payload must be at most 100 bytes');
+    });
+});
+
+describe('maxPayloadBytes on the buffered path', () => {
+    const payload = {
+        type: 'binary' as const,
+        bytes: Buffer.from(bytes).toString('base64'),
+    };
+
+    it('limits signData', () => {
+        const params = {
+            payload,
+            domain: DOMAIN,
+            privateKey: keyPair.secretKey,
+            address: TEST_ADDRESS,
+        };
+
+        expect(() => signData({ ...params, maxPayloadBytes: 999 })).toThrow(
+            'Payload must be at most 999 bytes'
+        );
+        expect(() =>
+            signData({ ...params, maxPayloadBytes: 1000 })
+        ).not.toThrow();
+    });
+
+    it('limits verifySignDataDetailed', () => {
+        const signedData = signData({
+            payload,
+            domain: DOMAIN,
+            privateKey: keyPair.secretKey,
+            address: TEST_ADDRESS,
+        });
+
+        expect(
+            verifySignDataDetailed({
+                signedData,
+                publicKey: keyPair.publicKey,
+                maxPayloadBytes: 999,
+            })
+        ).toEqual({
+            valid: false,
+            reason: 'payload_too_large',
+            message: 'Payload must be at most 999 bytes',
+        });
+    });
+});
@@ -0,0 +1,511 @@
+import { describe, it, expect } from 'vitest';
+import { Address, beginCell, BitString } from '@ton/core';
+import { parseTlbSchema } from '../tlb';
+import { decodeTlbCell, TlbDecodeError, validateTlbCell } from '../tlb-decode';
+import { buildTlbCell, createCellPayload } from '../tlb-encode';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+
+describe('TL-B', () => {
+    describe('parseTlbSchema', () => {
+        it('should parse constructor with hex tag and fields', () => {
+            const schema = parseTlbSchema(
+                'transfer#123 amount:Coins to:MsgAddress comment:string = Transfer'
+            );
+
+            expect(schema.root).toBe('Transfer');
+            expect(schema.constructors).toEqual([
+                {
+                    name: 'transfer',
+                    tag: { bits: 12, value: 0x123n },
+                    fields: [
+                        { name: 'amount', type: { kind: 'coins' } },
+                        { name: 'to', type: { kind: 'address' } },
+                        { name: 'comment', type: { kind: 'string' } },
+                    ],
+                    resultType: 'Transfer',
+                },
+            ]);
+        });
+
+        it('should parse binary and empty tags', () => {
+            const schema = parseTlbSchema(
+                'a$01 = T; b#_ = T; c = T; d$_ x:Bool = T;'
+            );
+
+            expect(schema.constructors.map((c) => c.tag)).toEqual([
+                { bits: 2, value: 1n },
+                { bits: 0, value: 0n },
+                { bits: 0, value: 0n },
+                { bits: 0, value: 0n },
+            ]);
+            expect(schema.types.get('T')).toHaveLength(4);
+        });
+
+        it('should parse nested type expressions', () => {
+            const schema = parseTlbSchema(
+                'msg#_ a:(Maybe ^Cell) b:(Either uint8 (## 16)) c:^(Maybe int64) d:(^Cell) = Msg;'
+            );
+
+            expect(schema.constructors[0].fields.map((f) => f.type)).toEqual([
+                {
+                    kind: 'maybe',
+                    inner: { kind: 'ref', inner: { kind: 'cell' } },
+                },
+                {
+                    kind: 'either',
+                    left: { kind: 'uint', bits: 8 },
+                    right: { kind: 'uint', bits: 16 },
+                },
+                {
+                    kind: 'ref',
+                    inner: { kind: 'maybe', inner: { kind: 'int', bits: 64 } },
+                },
+                { kind: 'ref', inner: { kind: 'cell' } },
+            ]);
+        });
+
+        it('should use the last declaration as root and skip comments', () => {
+            const schema = parseTlbSchema(`
+                // inner type
+                item#01 value:uint32 = Item;
+                /* root */
+                list#02 first:^Item second:Item = List;
+            `);
+
+            expect(schema.root).toBe('List');
+            expect(schema.constructors[1].fields[0].type).toEqual({
+                kind: 'ref',
+                inner: { kind: 'named', name: 'Item' },
+            });
+        });
+
+        it('should reject unknown types', () => {
+            expect(() => parseTlbSchema('a#_ x:Foo = A;')).toThrow(
+                /unknown type "Foo" in field "a.x"/
+            );
+        });
+
+        it('should reject unsupported syntax', () => {
+            expect(() => parseTlbSchema('a#_ {n:#} x:(## n) = A;')).toThrow(
+                /implicit fields/
+            );
+            expect(() => parseTlbSchema('a#_ x:Maybe = A;')).toThrow(
+                /requires parentheses/
+            );
+            expect(() => parseTlbSchema('a#_ x:uint32')).toThrow(
+                /expected "="/
+            );
+            expect(() => parseTlbSchema('')).toThrow(/no declarations/);
+            expect(() => parseTlbSchema('a#a_ = A;')).toThrow(
+                'TL-B: invalid hex tag in "a#a_"'
+            );
+        });
+    });
+
+    describe('decodeTlbCell', () => {
+        it('should decode README transfer example', () => {
+            const cell = beginCell()
+                .storeUint(0x123, 12)
+                .storeCoins(1_000_000_000n)
+                .storeAddress(Address.parse(TEST_ADDRESS))
+                .storeStringTail('Transfer 1 TON')
+                .endCell();
+
+            expect(
+                decodeTlbCell(
+                    'transfer#123 amount:Coins to:MsgAddress comment:string = Transfer',
+                    cell.toBoc().toString('base64')
+                )
+            ).toEqual({
+                '@type': 'transfer',
+                amount: '1000000000',
+                to: Address.parse(TEST_ADDRESS).toString(),
+                comment: 'Transfer 1 TON',
+            });
+        });
+
+        it('should decode integers of different sizes', () => {
+            const cell = beginCell()
+                .storeUint(7, 8)
+                .storeInt(-5, 32)
+                .storeUint(2n ** 64n - 1n, 64)
+                .storeInt(-(2n ** 40n), 41)
+                .storeBit(1)
+                .storeUint(1, 1)
+                .storeBuffer(Buffer.from('abcd', 'hex'))
+                .endCell();
+
+            expect(
+                decodeTlbCell(
+                    'v#_ a:uint8 b:int32 c:uint64 d:int41 e:Bool f:Bit g:bits16 = V;',
+                    cell
+                )
+            ).toEqual({
+                '@type': 'v',
+                a: 7,
+                b: -5,
+                c: '18446744073709551615',
+                d: '-1099511627776',
+                e: true,
+                f: 1,
+                g: 'ABCD',
+            });
+        });
+
+        it('should decode Maybe, Either and refs', () => {
+            const inner = beginCell().storeUint(42, 16).endCell();
+            const cell = beginCell()
+                .storeBit(1)
+                .storeRef(inner)
+                .storeBit(0)
+                .storeBit(1)
+                .storeUint(9, 8)
+                .storeRef(beginCell().storeStringTail('hi'))
+                .endCell();
+
+            expect(
+                decodeTlbCell(
+                    'm#_ a:(Maybe ^Cell) b:(Maybe uint8) c:(Either uint4 uint8) d:^string = M;',
+                    cell
+                )
+            ).toEqual({
+                '@type': 'm',
+                a: inner.toBoc().toString('base64'),
+                b: null,
+                c: { right: 9 },
+                d: 'hi',
+            });
+        });
+
+        it('should pick constructor by tag', () => {
+            const schema = `
+                deposit#01 amount:Coins = Action;
+                withdraw#02 to:MsgAddress = Action;
+                req#_ action:^Action = Request;
+            `;
+            const cell = beginCell()
+                .storeRef(beginCell().storeUint(2, 8).storeAddress(null))
+                .endCell();
+
+            expect(decodeTlbCell(schema, cell)).toEqual({
+                '@type': 'req',
+                action: { '@type': 'withdraw', to: null },
+            });
+        });
+
+        it('should decode snake strings spanning several cells', () => {
+            const text = 'x'.repeat(300);
+            const cell = beginCell()
+                .storeUint(0, 32)
+                .storeStringTail(text)
+                .endCell();
+
+            expect(
+                decodeTlbCell(
+                    'message#_ op:uint32 text:string = Message;',
+                    cell
+                )
+            ).toEqual({ '@type': 'message', op: 0, text });
+        });
+
+        it('should report field path when data is missing', () => {
+            const cell = beginCell().storeUint(1, 8).endCell();
+
+            expect(() =>
+                decodeTlbCell('p#_ a:uint8 b:uint32 = P;', cell)
+            ).toThrow(/cannot read field .* at "P.b", bit offset 8/);
+        });
+
+        it('should fail when no constructor tag matches', () => {
+            const cell = beginCell().storeUint(0x124, 12).endCell();
+
+            expect(() =>
+                decodeTlbCell('transfer#123 = Transfer;', cell)
+            ).toThrow(/no constructor tag matches at "Transfer"/);
+        });
+
+        it('should fail on a type that recurses without reading data', () => {
+            expect(() =>
+                decodeTlbCell('a$_ x:A = A;', beginCell().endCell())
+            ).toThrow(
+                'TL-B: type "A" recurses without reading any data at "A.x"'
+            );
+        });
+
+        it('should fail fast on cells shared by many parents', () => {
+            // 2^40 paths through 41 distinct cells
+            let cell = beginCell().storeUint(0b00, 2).endCell();
+            for (let i = 0; i < 40; i++) {
+                cell = beginCell()
+                    .storeUint(0b11, 2)
+                    .storeRef(cell)
+                    .storeRef(cell)
+                    .endCell();
+            }
+            const boc = cell.toBoc().toString('base64');
+
+            expect(() =>
+                decodeTlbCell('t$_ a:(Maybe ^T) b:(Maybe ^T) = T;', boc)
+            ).toThrow(/reads more cells than allowed/);
+        });
+
+        it('should count every cell read against maxCells', () => {
+            const schema = 's$_ text:string = S;';
+            const cell = beginCell().storeStringTail('x'.repeat(300)).endCell();
+
+            expect(decodeTlbCell(schema, cell, { maxCells: 3 })).toEqual({
+                '@type': 's',
+                text: 'x'.repeat(300),
+            });
+            expect(() => decodeTlbCell(schema, cell, { maxCells: 2 })).toThrow(
+                'TL-B: cell reads more cells than allowed at "S.text", bit offset 0'
+            );
+        });
+
+        it('should fail on data nested too deep', () => {
+            const schema = 'a$1 x:A = A; b$0 y:(Maybe ^A) = A;';
+            // 1021 + 10 `a` constructors around two `b` constructors
+            const last = beginCell()
+                .storeUint(0x3ff, 10)
+                .storeUint(0b00, 2)
+                .endCell();
+            const cell = beginCell()
+                .storeBits(new BitString(Buffer.alloc(128, 0xff), 0, 1021))
+                .storeUint(0b01, 2)
+                .storeRef(last)
+                .endCell();
+
+            let error: TlbDecodeError | undefined;
+            try {
+                decodeTlbCell(schema, cell);
+            } catch (e) {
+                error = e as TlbDecodeError;
+            }
+            expect(error?.message).toMatch(/nests more than 1024 types deep/);
+            expect(error?.field).toMatch(/^\.\.\.[.xy]+$/);
+            expect(error?.field).toHaveLength(203);
+        });
+    });
+
+    describe('buildTlbCell', () => {
+        const TRANSFER_SCHEMA =
+            'transfer#123 amount:Coins to:MsgAddress comment:string = Transfer';
+
+        it('should build the same cell as manual builder', () => {
+            const manual = beginCell()
+                .storeUint(0x123, 12)
+                .storeCoins(1_000_000_000n)
+                .storeAddress(Address.parse(TEST_ADDRESS))
+                .storeStringTail('Transfer 1 TON')
+                .endCell();
+
+            const built = buildTlbCell(TRANSFER_SCHEMA, {
+                amount: 1_000_000_000n,
+                to: Address.parse(TEST_ADDRESS),
+                comment: 'Transfer 1 TON',
+            });
+
+            expect(built.equals(manual)).toBe(true);
+        });
+
+        it('should create cell payload for signData', () => {
+            const payload = createCellPayload(TRANSFER_SCHEMA, {
+                amount: '1000000000',
+                to: TEST_ADDRESS,
+                comment: 'Transfer 1 TON',
+            });
+
+            expect(payload.type).toBe('cell');
+            expect(payload.schema).toBe(TRANSFER_SCHEMA);
+            expect(decodeTlbCell(payload.schema, payload.cell)).toEqual({
+                '@type': 'transfer',
+                amount: '1000000000',
+                to: Address.parse(TEST_ADDRESS).toString(),
+                comment: 'Transfer 1 TON',
+            });
+        });
+
+        it('should round-trip decoded values', () => {
+            const schema = `
+                deposit#01 amount:Coins = Action;
+                withdraw#02 to:MsgAddress = Action;
+                req#_ id:uint64 flag:Bool key:bits12 n:int41
+                    action:^Action memo:(Maybe ^string)
+                    alt:(Either uint4 (## 8)) raw:(Maybe ^Cell) = Request;
+            `;
+            const value = {
+                '@type': 'req',
+                id: '18446744073709551615',
+                flag: true,
+                key: 'ABC',
+                n: '-1099511627776',
+                action: { '@type': 'withdraw', to: null },
+                memo: 'hello',
+                alt: { right: 200 },
+                raw: beginCell()
+                    .storeUint(5, 3)
+                    .endCell()
+                    .toBoc()
+                    .toString('base64'),
+            };
+
+            const cell = buildTlbCell(schema, value);
+
+            expect(decodeTlbCell(schema, cell)).toEqual(value);
+        });
+
+        it('should round-trip partial-byte bit strings', () => {
+            const schema = 'b#_ x:bits5 = B;';
+            const cell = beginCell().storeUint(0b10110, 5).endCell();
+            const decoded = decodeTlbCell(schema, cell);
+
+            expect(buildTlbCell(schema, decoded).equals(cell)).toBe(true);
+        });
+
+        it('should require @type for types with several constructors', () => {
+            expect(() =>
+                buildTlbCell('a#1 = T; b#2 = T; r#_ t:T = R;', { t: {} })
+            ).toThrow(/"@type" is required for "R.t", one of: a, b/);
+        });
+
+        it('should report field path for invalid values', () => {
+            expect(() =>
+                buildTlbCell(TRANSFER_SCHEMA, {
+                    amount: 'lots',
+                    to: TEST_ADDRESS,
+                    comment: '',
+                })
+            ).toThrow(/expected integer for "Transfer.amount"/);
+            expect(() => buildTlbCell('p#_ a:uint8 = P;', { a: 256 })).toThrow(
+                /cannot store "P.a"/
+            );
+        });
+    });
+
+    describe('validateTlbCell', () => {
+        const TRANSFER_SCHEMA =
+            'transfer#123 amount:Coins to:MsgAddress comment:string = Transfer';
+
+        it('should accept cell built from the schema', () => {
+            const payload = createCellPayload(TRANSFER_SCHEMA, {
+                amount: 1n,
+                to: TEST_ADDRESS,
+                comment: 'hi',
+            });
+
+            expect(validateTlbCell(payload.schema, payload.cell)).toMatchObject(
+                { valid: true, value: { '@type': 'transfer', amount: '1' } }
+            );
+        });
+
+        it('should report leftover bits in the root cell', () => {
+            const cell = beginCell().storeUint(1, 8).storeUint(0, 4).endCell();
+
+            expect(validateTlbCell('p#_ a:uint8 = P;', cell)).toEqual({
+                valid: false,
+                message: expect.stringMatching(
+                    /4 unread bits and 0 unread refs/
+                ),
+                field: 'P',
+                bitOffset: 8,
+            });
+        });
+
+        it('should report leftover refs inside a referenced cell', () => {
+            const cell = beginCell()
+                .storeRef(
+                    beginCell().storeUint(1, 8).storeRef(beginCell().endCell())
+                )
+                .endCell();
+
+            expect(validateTlbCell('p#_ a:^uint8 = P;', cell)).toMatchObject({
+                valid: false,
+                field: 'P.a',
+                bitOffset: 8,
+            });
+        });
+
+        it('should report field and bit offset of a mismatch', () => {
+            // Cell written with a 32-bit op-code, schema declares 12-bit tag
+            const cell = beginCell()
+                .storeUint(0x123, 32)
+                .storeCoins(1_000_000_000n)
+                .endCell();
+
+            expect(validateTlbCell(TRANSFER_SCHEMA, cell)).toMatchObject({
+                valid: false,
+                field: 'Transfer',
+                bitOffset: 0,
+            });
+
+            const short = beginCell()
+                .storeUint(0x123, 12)
+                .storeCoins(5n)
+                .endCell();
+            expect(validateTlbCell(TRANSFER_SCHEMA, short)).toMatchObject({
+                valid: false,
+                field: 'Transfer.to',
+                bitOffset: 24,
+            });
+        });
+
+        it('should not throw on malformed input', () => {
+            expect(
+                validateTlbCell('a#_ x:Foo = A;', beginCell().endCell())
+            ).toMatchObject({ valid: false, field: 'schema' });
+            expect(validateTlbCell('a#_ = A;', 'AAAA')).toMatchObject({
+                valid: false,
+                field: 'cell',
+            });
+        });
+
+        it('should limit the cells of the BOC and the cells read', () => {
+            const schema = 'p$_ a:^Cell b:^Cell = P;';
+            const leaf = beginCell().storeUint(1, 8).endCell();
+            const cell = beginCell().storeRef(leaf).storeRef(leaf).endCell();
+            const tree = beginCell()
+                .storeRef(beginCell().storeUint(1, 8).endCell())
+                .storeRef(beginCell().storeUint(2, 8).endCell())
+                .endCell();
+            const boc = (c: typeof cell) => c.toBoc().toString('base64');
+
+            expect(validateTlbCell(schema, boc(tree), { maxCells: 2 })).toEqual(
+                {
+                    valid: false,
+                    message: 'BOC has 3 cells, at most 2 are allowed',
+                    field: 'cell',
+                    bitOffset: 0,
+                }
+            );
+            // Two cells in the BOC, three reads
+            expect(
+                validateTlbCell(schema, boc(cell), { maxCells: 2 })
+            ).toMatchObject({
+                valid: false,
+                message: expect.stringMatching(/reads more cells than allowed/),
+            });
+            expect(
+                validateTlbCell(schema, boc(cell), { maxCells: 3 })
+            ).toMatchObject({ valid: true });
+        });
+
+        it('should report schemas that cannot be decoded', () => {
+            const empty = beginCell().endCell();
+
+            expect(validateTlbCell('a$_ x:A = A;', empty)).toEqual({
+                valid: false,
+                message:
+                    'TL-B: type "A" recurses without reading any data at "A.x", bit offset 0',
+                field: 'A.x',
+                bitOffset: 0,
+            });
+            expect(validateTlbCell('a#a_ = A;', empty)).toEqual({
+                valid: false,
+                message: 'TL-B: invalid hex tag in "a#a_"',
+                field: 'schema',
+                bitOffset: 0,
+            });
+        });
+    });
+});
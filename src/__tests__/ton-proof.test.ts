@@ -0,0 +1,388 @@
+import { describe, it, expect } from 'vitest';
+import { Address } from '@ton/core';
+import nacl from 'tweetnacl';
+import {
+    createTonProofHash,
+    createTonProofHashAsync,
+    createTonProofMessage,
+    createTonProofMessageParts,
+    signTonProof,
+    signTonProofAsync,
+    verifyTonProof,
+    verifyTonProofAsync,
+    verifyTonProofDetailed,
+} from '../ton-proof';
+import {
+    proofAddress,
+    verifyProof,
+    verifyProofAsync,
+    verifyProofDetailed,
+    verifyProofWithResolver,
+} from '../proof';
+import { signData } from '../sign';
+import { createChallenge } from '../challenge';
+import { InMemorySeenSignatureStore } from '../replay';
+import { TonProof } from '../types';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const NOW = 1700000000;
+const PAYLOAD = 'E5B4ARS6CdOI2b5e1jz0jnS-x-a3DgfNXprrg_3pec0';
+const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(7));
+
+// Independent of the crypto provider under test
+const sha256 = async (data: Buffer) =>
+    Buffer.from(await globalThis.crypto.subtle.digest('SHA-256', data));
+
+const sign = (domain = 'example.com', payload = PAYLOAD): TonProof =>
+    signTonProof({
+        address: TEST_ADDRESS,
+        domain,
+        payload,
+        privateKey: keyPair.secretKey,
+        timestamp: NOW,
+    });
+
+const verifyParams = (proof: TonProof) => ({
+    address: TEST_ADDRESS,
+    proof,
+    publicKey: keyPair.publicKey,
+});
+
+describe('ton_proof message', () => {
+    const parsedAddr = Address.parse(TEST_ADDRESS);
+
+    it('matches the TON Connect layout', async () => {
+        const wc = Buffer.alloc(4);
+        wc.writeInt32BE(parsedAddr.workChain);
+        const domainLen = Buffer.alloc(4);
+        domainLen.writeUInt32LE(11);
+        const ts = Buffer.alloc(8);
+        ts.writeBigUInt64LE(BigInt(NOW));
+
+        const expected = Buffer.concat([
+            Buffer.from('ton-proof-item-v2/'),
+            wc,
+            parsedAddr.hash,
+            domainLen,
+            Buffer.from('example.com'),
+            ts,
+            Buffer.from(PAYLOAD),
+        ]);
+
+        expect(
+            createTonProofMessage(parsedAddr, 'example.com', NOW, PAYLOAD)
+        ).toEqual(expected);
+        expect(
+            createTonProofHash(parsedAddr, 'example.com', NOW, PAYLOAD)
+        ).toEqual(
+            await sha256(
+                Buffer.concat([
+                    Buffer.from([0xff, 0xff]),
+                    Buffer.from('ton-connect'),
+                    await sha256(expected),
+                ])
+            )
+        );
+    });
+
+    it('writes the domain length and timestamp little-endian', () => {
+        const parts = createTonProofMessageParts(
+            parsedAddr,
+            'ton.org',
+            0x0102,
+            ''
+        );
+        const byLabel = Object.fromEntries(
+            parts.map((p) => [p.label, p.bytes.toString('hex')])
+        );
+
+        expect(byLabel.domain_length).toBe('07000000');
+        expect(byLabel.timestamp).toBe('0201000000000000');
+        expect(byLabel.payload).toBe('');
+    });
+
+    it('counts the domain length in UTF-8 bytes', () => {
+        const parts = createTonProofMessageParts(
+            parsedAddr,
+            'пример.рф',
+            NOW,
+            PAYLOAD
+        );
+        expect(parts.find((p) => p.label === 'domain_length')?.bytes).toEqual(
+            Buffer.from([17, 0, 0, 0])
+        );
+    });
+
+    it('hashes the same asynchronously', async () => {
+        expect(
+            await createTonProofHashAsync(
+                parsedAddr,
+                'example.com',
+                NOW,
+                PAYLOAD
+            )
+        ).toEqual(createTonProofHash(parsedAddr, 'example.com', NOW, PAYLOAD));
+    });
+});
+
+describe('signTonProof', () => {
+    it('produces a proof in TonProofItemReply form', () => {
+        const proof = sign('пример.рф');
+
+        expect(proof).toMatchObject({
+            timestamp: NOW,
+            domain: { lengthBytes: 17, value: 'пример.рф' },
+            payload: PAYLOAD,
+        });
+        expect(Buffer.from(proof.signature, 'base64')).toHaveLength(64);
+    });
+
+    it('signs the same with the async variant', async () => {
+        expect(
+            await signTonProofAsync({
+                address: TEST_ADDRESS,
+                domain: 'example.com',
+                payload: PAYLOAD,
+                privateKey: keyPair.secretKey,
+                timestamp: NOW,
+            })
+        ).toEqual(sign());
+    });
+});
+
+describe('verifyTonProof', () => {
+    it('accepts a signed proof', async () => {
+        const proof = sign();
+
+        expect(verifyTonProof(verifyParams(proof))).toBe(true);
+        expect(await verifyTonProofAsync(verifyParams(proof))).toEqual({
+            valid: true,
+        });
+    });
+
+    it('accepts the raw form of the address', () => {
+        expect(
+            verifyTonProof({
+                ...verifyParams(sign()),
+                address: Address.parse(TEST_ADDRESS).toRawString(),
+            })
+        ).toBe(true);
+    });
+
+    it.each([
+        ['payload', { payload: PAYLOAD + 'x' }],
+        ['timestamp', { timestamp: NOW + 1 }],
+        ['domain', { domain: { lengthBytes: 11, value: 'example.org' } }],
+    ])('rejects a tampered %s', (_, change) => {
+        expect(
+            verifyTonProofDetailed(verifyParams({ ...sign(), ...change }))
+        ).toMatchObject({ valid: false, reason: 'invalid_signature' });
+    });
+
+    it('rejects another address', () => {
+        expect(
+            verifyTonProofDetailed({
+                ...verifyParams(sign()),
+                address: '0:' + '00'.repeat(32),
+            })
+        ).toMatchObject({ valid: false, reason: 'invalid_signature' });
+    });
+
+    it('rejects a domain length that does not match the domain', () => {
+        const proof = sign();
+        expect(
+            verifyTonProofDetailed(
+                verifyParams({
+                    ...proof,
+                    domain: { ...proof.domain, lengthBytes: 12 },
+                })
+            )
+        ).toMatchObject({ valid: false, reason: 'malformed_domain' });
+    });
+
+    it.each([
+        ['malformed_address', { address: 'not an address' }, {}],
+        ['malformed_signature', {}, { signature: 'not base64!' }],
+        ['bad_signature_length', {}, { signature: 'AAAA' }],
+        ['malformed_timestamp', {}, { timestamp: -1 }],
+        ['malformed_payload', {}, { payload: 42 }],
+    ])('reports %s', (reason, params, proofChange) => {
+        expect(
+            verifyTonProofDetailed({
+                ...verifyParams({
+                    ...sign(),
+                    ...(proofChange as Partial<TonProof>),
+                }),
+                ...params,
+            })
+        ).toMatchObject({ valid: false, reason });
+    });
+
+    it('applies the verification policies', () => {
+        const params = verifyParams(sign());
+
+        expect(
+            verifyTonProofDetailed({
+                ...params,
+                allowedDomains: ['example.org'],
+            })
+        ).toMatchObject({ reason: 'domain_mismatch' });
+        expect(
+            verifyTonProofDetailed({
+                ...params,
+                maxAgeSeconds: 60,
+                now: NOW + 61,
+            })
+        ).toMatchObject({ reason: 'expired' });
+        expect(
+            verifyTonProofDetailed({ ...params, expectedNonce: 'other' })
+        ).toMatchObject({ reason: 'nonce_mismatch' });
+        expect(
+            verifyTonProofDetailed({ ...params, expectedNonce: PAYLOAD })
+        ).toEqual({ valid: true });
+    });
+
+    it('limits the payload size in UTF-8 bytes', () => {
+        const params = verifyParams(sign('example.com', 'ü'.repeat(8)));
+
+        expect(
+            verifyTonProofDetailed({ ...params, maxPayloadBytes: 16 })
+        ).toEqual({ valid: true });
+        expect(
+            verifyTonProofDetailed({ ...params, maxPayloadBytes: 15 })
+        ).toEqual({
+            valid: false,
+            reason: 'payload_too_large',
+            message: 'Payload must be at most 15 bytes',
+        });
+    });
+
+    it('rejects a replayed proof', () => {
+        const seenSignatures = new InMemorySeenSignatureStore({
+            now: () => NOW,
+        });
+        const params = {
+            ...verifyParams(sign()),
+            maxAgeSeconds: 300,
+            now: NOW,
+            seenSignatures,
+        };
+
+        expect(verifyTonProofDetailed(params)).toEqual({ valid: true });
+        expect(verifyTonProofDetailed(params)).toMatchObject({
+            valid: false,
+            reason: 'replayed',
+        });
+    });
+
+    it('answers a text challenge with the challenge text as payload', () => {
+        const challenge = createChallenge({
+            type: 'text',
+            domain: 'example.com',
+            now: NOW,
+        });
+        const text =
+            challenge.payload.type === 'text' ? challenge.payload.text : '';
+
+        expect(
+            verifyTonProofDetailed({
+                ...verifyParams(sign('example.com', text)),
+                challenge,
+                now: NOW,
+            })
+        ).toEqual({ valid: true });
+        expect(
+            verifyTonProofDetailed({
+                ...verifyParams(sign()),
+                challenge,
+                now: NOW,
+            })
+        ).toMatchObject({ valid: false, reason: 'challenge_mismatch' });
+    });
+});
+
+describe('verifyProof', () => {
+    const signedData = signData({
+        payload: { type: 'text', text: PAYLOAD },
+        domain: 'example.com',
+        privateKey: keyPair.secretKey,
+        address: TEST_ADDRESS,
+        timestamp: NOW,
+    });
+
+    it('verifies both proof types', async () => {
+        for (const proof of [
+            { type: 'sign_data', signedData } as const,
+            {
+                type: 'ton_proof',
+                address: TEST_ADDRESS,
+                proof: sign(),
+            } as const,
+        ]) {
+            const params = { proof, publicKey: keyPair.publicKey };
+            expect(verifyProof(params)).toBe(true);
+            expect(verifyProofDetailed(params)).toEqual({ valid: true });
+            expect(await verifyProofAsync(params)).toEqual({ valid: true });
+            expect(proofAddress(proof)).toBe(TEST_ADDRESS);
+        }
+    });
+
+    it('reports failures of both types alike', () => {
+        const options = {
+            publicKey: keyPair.publicKey,
+            allowedDomains: ['example.org'],
+        };
+
+        expect(
+            verifyProofDetailed({
+                ...options,
+                proof: { type: 'sign_data', signedData },
+            })
+        ).toMatchObject({ valid: false, reason: 'domain_mismatch' });
+        expect(
+            verifyProofDetailed({
+                ...options,
+                proof: {
+                    type: 'ton_proof',
+                    address: TEST_ADDRESS,
+                    proof: sign(),
+                },
+            })
+        ).toMatchObject({ valid: false, reason: 'domain_mismatch' });
+    });
+
+    it('does not accept a sign-data signature as a ton_proof', () => {
+        expect(
+            verifyProof({
+                proof: {
+                    type: 'ton_proof',
+                    address: TEST_ADDRESS,
+                    proof: { ...sign(), signature: signedData.signature },
+                },
+                publicKey: keyPair.publicKey,
+            })
+        ).toBe(false);
+    });
+
+    it('resolves the public key of the proof address', async () => {
+        const resolved: string[] = [];
+        const resolver = {
+            resolvePublicKey: async (address: Address) => {
+                resolved.push(address.toRawString());
+                return Buffer.from(keyPair.publicKey);
+            },
+        };
+
+        expect(
+            await verifyProofWithResolver({
+                proof: {
+                    type: 'ton_proof',
+                    address: TEST_ADDRESS,
+                    proof: sign(),
+                },
+                resolver,
+            })
+        ).toBe(true);
+        expect(resolved).toEqual([Address.parse(TEST_ADDRESS).toRawString()]);
+    });
+});
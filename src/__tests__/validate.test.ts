@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest';
+import nacl from 'tweetnacl';
+import {
+    formatSchemaErrors,
+    parseSignDataPayload,
+    parseSignDataResult,
+} from '../validate';
+import { signData } from '../sign';
+import { SignDataPayload } from '../types';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(7));
+
+function signed(payload: SignDataPayload): Record<string, unknown> {
+    return JSON.parse(
+        JSON.stringify(
+            signData({
+                payload,
+                domain: 'app.example.com',
+                privateKey: keyPair.secretKey,
+                address: TEST_ADDRESS,
+                timestamp: 1700000000,
+            })
+        )
+    );
+}
+
+const text = signed({ type: 'text', text: 'Hello, TON!' });
+const binary = signed({ type: 'binary', bytes: 'AQID' });
+const cell = signed({
+    type: 'cell',
+    schema: 'message#_ text:string = Message',
+    cell: 'te6cckEBAQEAAgAAAEysuc0=',
+});
+
+function errorsOf(input: unknown, strict = false) {
+    const result = parseSignDataResult(input, { strict });
+    return result.valid ? [] : result.errors;
+}
+
+describe('parseSignDataResult', () => {
+    it.each([text, binary, cell])('accepts signed $payload.type', (input) => {
+        expect(parseSignDataResult(input, { strict: true })).toEqual({
+            valid: true,
+            value: input,
+        });
+    });
+
+    it('accepts raw address', () => {
+        expect(
+            errorsOf({
+                ...text,
+                address:
+                    '0:b2a9399726' +
+                    '9b2116ed465b5b724d7ea969addcfb7ece1bdb37baff19cd7ffd18',
+            })
+        ).toEqual([]);
+    });
+
+    it('rejects an address with a bad checksum', () => {
+        expect(
+            errorsOf({
+                ...text,
+                address: 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfy',
+            })
+        ).toEqual([{ path: 'address', message: 'Must be a TON address' }]);
+    });
+
+    it('rejects non-objects', () => {
+        for (const input of [null, 'text', 42, [text]]) {
+            expect(errorsOf(input)).toEqual([
+                { path: '', message: 'Must be an object' },
+            ]);
+        }
+    });
+
+    it('reports every malformed field', () => {
+        expect(
+            errorsOf({
+                signature: 42,
+                address: 'not an address',
+                timestamp: '1700000000',
+                domain: '',
+                payload: { type: 'text', text: null },
+            })
+        ).toEqual([
+            { path: 'signature', message: 'Must be a string' },
+            { path: 'address', message: 'Must be a TON address' },
+            {
+                path: 'timestamp',
+                message: 'Must be an integer between 0 and 2^53 - 1',
+            },
+            { path: 'domain', message: 'Must not be empty' },
+            { path: 'payload.text', message: 'Must be a string' },
+        ]);
+    });
+
+    it('requires strict base64', () => {
+        const urlSafe = (value: string) =>
+            value.replace(/\+/g, '-').replace(/\//g, '_');
+        const signature = Buffer.alloc(64, 0xfb).toString('base64');
+
+        expect(errorsOf({ ...text, signature: urlSafe(signature) })).toEqual([
+            { path: 'signature', message: 'Must be base64' },
+        ]);
+        expect(
+            errorsOf({ ...binary, payload: { type: 'binary', bytes: '+/8' } })
+        ).toEqual([{ path: 'payload.bytes', message: 'Must be base64' }]);
+        expect(
+            errorsOf({
+                ...cell,
+                payload: { ...(cell.payload as object), cell: '-_8=' },
+            })
+        ).toEqual([{ path: 'payload.cell', message: 'Must be base64' }]);
+    });
+
+    it('requires 64-byte signature', () => {
+        expect(
+            errorsOf({
+                ...text,
+                signature: Buffer.alloc(63).toString('base64'),
+            })
+        ).toEqual([{ path: 'signature', message: 'Must be 64 bytes, got 63' }]);
+    });
+
+    it.each([-1, 1.5, 2 ** 53, 2 ** 64, Number.NaN, Number.POSITIVE_INFINITY])(
+        'rejects timestamp %s',
+        (timestamp) => {
+            expect(errorsOf({ ...text, timestamp })).toEqual([
+                {
+                    path: 'timestamp',
+                    message: 'Must be an integer between 0 and 2^53 - 1',
+                },
+            ]);
+        }
+    );
+
+    it('accepts timestamp up to the safe integer range', () => {
+        expect(errorsOf({ ...text, timestamp: 0 })).toEqual([]);
+        expect(
+            errorsOf({ ...text, timestamp: Number.MAX_SAFE_INTEGER })
+        ).toEqual([]);
+    });
+
+    it('rejects unknown payload type', () => {
+        expect(
+            errorsOf({ ...text, payload: { type: 'json', json: {} } })
+        ).toEqual([
+            {
+                path: 'payload.type',
+                message: 'Must be one of: text, binary, cell',
+            },
+        ]);
+    });
+
+    it('rejects extra fields only in strict mode', () => {
+        const input = {
+            ...text,
+            publicKey: 'ab',
+            payload: { ...(text.payload as object), network: '-239' },
+        };
+
+        expect(errorsOf(input)).toEqual([]);
+        expect(errorsOf(input, true)).toEqual([
+            { path: 'publicKey', message: 'Unknown field' },
+            { path: 'payload.network', message: 'Unknown field' },
+        ]);
+    });
+
+    it('rejects fields of another payload type in strict mode', () => {
+        expect(
+            errorsOf(
+                {
+                    ...text,
+                    payload: { type: 'text', text: 'hi', bytes: 'AQID' },
+                },
+                true
+            )
+        ).toEqual([{ path: 'payload.bytes', message: 'Unknown field' }]);
+    });
+
+    it('enforces size limits', () => {
+        const limits = {
+            maxTextBytes: 4,
+            maxBinaryBytes: 2,
+            maxCellBytes: 8,
+            maxSchemaLength: 10,
+            maxDomainLength: 8,
+        };
+        const check = (input: unknown) => {
+            const result = parseSignDataResult(input, { limits });
+            return result.valid ? [] : result.errors.map((e) => e.path);
+        };
+
+        expect(
+            check({ ...text, payload: { type: 'text', text: 'тон' } })
+        ).toEqual(['domain', 'payload.text']);
+        expect(check(binary)).toEqual(['domain', 'payload.bytes']);
+        expect(check(cell)).toEqual([
+            'domain',
+            'payload.schema',
+            'payload.cell',
+        ]);
+        expect(
+            check({
+                ...binary,
+                domain: 'a.com',
+                payload: { type: 'binary', bytes: 'AQI=' },
+            })
+        ).toEqual([]);
+    });
+});
+
+describe('parseSignDataPayload', () => {
+    it('accepts payload', () => {
+        expect(parseSignDataPayload(cell.payload)).toEqual({
+            valid: true,
+            value: cell.payload,
+        });
+    });
+
+    it('reports paths relative to the payload', () => {
+        expect(
+            parseSignDataPayload(
+                { type: 'binary', bytes: 'a' },
+                { strict: true }
+            )
+        ).toEqual({
+            valid: false,
+            errors: [{ path: 'bytes', message: 'Must be base64' }],
+        });
+    });
+});
+
+describe('formatSchemaErrors', () => {
+    it('joins errors with their paths', () => {
+        expect(
+            formatSchemaErrors([
+                { path: '', message: 'Must be an object' },
+                { path: 'payload.type', message: 'Unknown' },
+            ])
+        ).toBe('Must be an object; payload.type: Unknown');
+    });
+});
@@ -0,0 +1,303 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { mnemonicToPrivateKey } from '@ton/crypto';
+import { beginCell } from '@ton/core';
+import { signData } from '../sign';
+import { verifySignData, verifySignDataDetailed } from '../verify';
+import { SignDataPayload, SignDataResult } from '../types';
+import { InMemorySeenSignatureStore } from '../replay';
+
+describe('verifySignDataDetailed', () => {
+    const TEST_MNEMONIC = [
+        'unfold',
+        'item',
+        'school',
+        'little',
+        'upper',
+        'surge',
+        'pride',
+        'endorse',
+        'outer',
+        'filter',
+        'biology',
+        'prefer',
+        'regular',
+        'island',
+        'hidden',
+        'dice',
+        'nuclear',
+        'grace',
+        'motor',
+        'entire',
+        'weird',
+        'between',
+        'falcon',
+        'dwarf',
+    ];
+
+    const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+    const TEST_DOMAIN = 'example.com';
+
+    let keyPair: { publicKey: Buffer; secretKey: Buffer };
+
+    beforeAll(async () => {
+        keyPair = await mnemonicToPrivateKey(TEST_MNEMONIC);
+    });
+
+    const sign = (
+        payload: SignDataPayload = { type: 'text', text: 'Hello, TON!' }
+    ) =>
+        signData({
+            payload,
+            domain: TEST_DOMAIN,
+            privateKey: keyPair.secretKey,
+            address: TEST_ADDRESS,
+        });
+
+    const reasonFor = (
+        signedData: SignDataResult,
+        publicKey: Buffer = keyPair.publicKey
+    ) => {
+        const result = verifySignDataDetailed({ signedData, publicKey });
+        return result.valid ? null : result.reason;
+    };
+
+    it('should return valid result for correct signature', () => {
+        expect(
+            verifySignDataDetailed({
+                signedData: sign(),
+                publicKey: keyPair.publicKey,
+            })
+        ).toEqual({ valid: true });
+    });
+
+    it('should report invalid signature', () => {
+        const signedData = sign();
+        signedData.domain = 'hacked.com';
+
+        const result = verifySignDataDetailed({
+            signedData,
+            publicKey: keyPair.publicKey,
+        });
+
+        expect(result).toEqual({
+            valid: false,
+            reason: 'invalid_signature',
+            message: expect.any(String),
+        });
+    });
+
+    it('should report malformed address', () => {
+        expect(reasonFor({ ...sign(), address: 'not-an-address' })).toBe(
+            'malformed_address'
+        );
+    });
+
+    it('should report malformed signature base64', () => {
+        expect(reasonFor({ ...sign(), signature: 'not base64!' })).toBe(
+            'malformed_signature'
+        );
+        expect(
+            reasonFor({
+                ...sign(),
+                signature: Buffer.alloc(64, 0xfb).toString('base64url'),
+            })
+        ).toBe('malformed_signature');
+    });
+
+    it('should report bad signature length', () => {
+        expect(
+            reasonFor({
+                ...sign(),
+                signature: Buffer.alloc(32).toString('base64'),
+            })
+        ).toBe('bad_signature_length');
+    });
+
+    it('should report bad public key length', () => {
+        expect(reasonFor(sign(), Buffer.alloc(16))).toBe(
+            'bad_public_key_length'
+        );
+    });
+
+    it('should report malformed timestamp', () => {
+        expect(reasonFor({ ...sign(), timestamp: 1.5 })).toBe(
+            'malformed_timestamp'
+        );
+        expect(reasonFor({ ...sign(), timestamp: -1 })).toBe(
+            'malformed_timestamp'
+        );
+    });
+
+    it('should report malformed binary payload', () => {
+        expect(
+            reasonFor({
+                ...sign(),
+                payload: { type: 'binary', bytes: '%%%' },
+            })
+        ).toBe('malformed_payload');
+    });
+
+    it('should report unknown payload type', () => {
+        expect(
+            reasonFor({
+                ...sign(),
+                payload: { type: 'json' } as unknown as SignDataPayload,
+            })
+        ).toBe('malformed_payload');
+    });
+
+    it('should report malformed cell BOC', () => {
+        expect(
+            reasonFor({
+                ...sign(),
+                payload: {
+                    type: 'cell',
+                    schema: 'message#_ text:string = Message;',
+                    cell: Buffer.from('not a boc').toString('base64'),
+                },
+            })
+        ).toBe('malformed_cell');
+    });
+
+    it('should report malformed domain of cell payload', () => {
+        const signedData = sign({
+            type: 'cell',
+            schema: 'message#_ text:string = Message;',
+            cell: beginCell()
+                .storeStringTail('Hello')
+                .endCell()
+                .toBoc()
+                .toString('base64'),
+        });
+
+        expect(reasonFor({ ...signedData, domain: 'bad..com' })).toBe(
+            'malformed_domain'
+        );
+    });
+
+    it('should report cell not matching schema in strict mode', () => {
+        const signedData = sign({
+            type: 'cell',
+            schema: 'p#_ a:uint8 = P;',
+            cell: beginCell()
+                .storeUint(1, 8)
+                .storeUint(0, 4)
+                .endCell()
+                .toBoc()
+                .toString('base64'),
+        });
+
+        expect(
+            verifySignDataDetailed({
+                signedData,
+                publicKey: keyPair.publicKey,
+                strictSchema: true,
+            })
+        ).toEqual({
+            valid: false,
+            reason: 'schema_mismatch',
+            message: expect.stringMatching(/"P", bit offset 8/),
+        });
+        expect(reasonFor(signedData)).toBeNull();
+    });
+
+    it('should report a recursive schema as schema mismatch', () => {
+        const signedData = sign({
+            type: 'cell',
+            schema: 'a$_ x:A = A;',
+            cell: beginCell().endCell().toBoc().toString('base64'),
+        });
+
+        expect(
+            verifySignDataDetailed({
+                signedData,
+                publicKey: keyPair.publicKey,
+                strictSchema: true,
+            })
+        ).toEqual({
+            valid: false,
+            reason: 'schema_mismatch',
+            message:
+                'TL-B: type "A" recurses without reading any data at "A.x", bit offset 0',
+        });
+    });
+
+    it('should reject a cell shared by many parents quickly', () => {
+        let cell = beginCell().storeUint(0b00, 2).endCell();
+        for (let i = 0; i < 40; i++) {
+            cell = beginCell()
+                .storeUint(0b11, 2)
+                .storeRef(cell)
+                .storeRef(cell)
+                .endCell();
+        }
+        const signedData = sign({
+            type: 'cell',
+            schema: 't$_ a:(Maybe ^T) b:(Maybe ^T) = T;',
+            cell: cell.toBoc().toString('base64'),
+        });
+
+        expect(
+            verifySignDataDetailed({
+                signedData,
+                publicKey: keyPair.publicKey,
+                strictSchema: true,
+            })
+        ).toMatchObject({
+            valid: false,
+            reason: 'schema_mismatch',
+            message: expect.stringMatching(/reads more cells than allowed/),
+        });
+    });
+
+    it('should report policy failures', () => {
+        const signedData = sign();
+        const base = { signedData, publicKey: keyPair.publicKey };
+
+        expect(
+            verifySignDataDetailed({
+                ...base,
+                maxAgeSeconds: 60,
+                now: signedData.timestamp + 61,
+            })
+        ).toMatchObject({ valid: false, reason: 'expired' });
+        expect(
+            verifySignDataDetailed({
+                ...base,
+                maxAgeSeconds: 60,
+                now: signedData.timestamp - 61,
+            })
+        ).toMatchObject({ valid: false, reason: 'timestamp_in_future' });
+        expect(
+            verifySignDataDetailed({ ...base, allowedDomains: ['other.com'] })
+        ).toMatchObject({ valid: false, reason: 'domain_mismatch' });
+        expect(
+            verifySignDataDetailed({ ...base, expectedNonce: 'abc' })
+        ).toMatchObject({ valid: false, reason: 'nonce_mismatch' });
+    });
+
+    it('should report replayed signature', () => {
+        const seenSignatures = new InMemorySeenSignatureStore();
+        const params = {
+            signedData: sign(),
+            publicKey: keyPair.publicKey,
+            maxAgeSeconds: 300,
+            seenSignatures,
+        };
+
+        expect(verifySignDataDetailed(params).valid).toBe(true);
+        expect(verifySignDataDetailed(params)).toMatchObject({
+            valid: false,
+            reason: 'replayed',
+        });
+    });
+
+    it('should make verifySignData return false instead of throwing', () => {
+        expect(
+            verifySignData({
+                signedData: { ...sign(), address: 'garbage' },
+                publicKey: keyPair.publicKey,
+            })
+        ).toBe(false);
+    });
+});
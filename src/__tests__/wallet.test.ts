@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import { Address, beginCell } from '@ton/core';
+import {
+    createSignDataRequestHandler,
+    SignDataApprovalRequest,
+    SignDataRequestHandlerOptions,
+} from '../wallet';
+import { KeyPairSigner, Signer } from '../signer';
+import { verifySignDataDetailed } from '../verify';
+import { createCellPayload } from '../tlb-encode';
+
+const TEST_ADDRESS = 'UQCyqTmXJpshFu1GW1tyTX6paa3c-37OG9s3uv8ZzX_9GDfx';
+const RAW_ADDRESS = Address.parse(TEST_ADDRESS).toRawString();
+const APP_URL = 'https://app.example.com:8443/login';
+const signer = KeyPairSigner.fromSeed(new Uint8Array(32).fill(5));
+
+const TEXT = { type: 'text', text: 'Confirm login' };
+const CELL = createCellPayload('message#_ text:^string = Message;', {
+    text: 'Hello, TON!',
+});
+
+function setup(options: Partial<SignDataRequestHandlerOptions> = {}) {
+    const approvals: SignDataApprovalRequest[] = [];
+    const handler = createSignDataRequestHandler({
+        signer,
+        address: TEST_ADDRESS,
+        appUrl: APP_URL,
+        approve: (request) => {
+            approvals.push(request);
+            return true;
+        },
+        ...options,
+    });
+    return { handler, approvals };
+}
+
+const rpc = (payload: unknown, id = '7') => ({
+    method: 'signData',
+    params: [JSON.stringify(payload)],
+    id,
+});
+
+describe('createSignDataRequestHandler', () => {
+    it('signs an approved request for the app host name', async () => {
+        const { handler, approvals } = setup();
+
+        const response = await handler(rpc(TEXT));
+
+        expect(response).toMatchObject({
+            id: '7',
+            result: {
+                address: RAW_ADDRESS,
+                domain: 'app.example.com',
+                payload: TEXT,
+            },
+        });
+        if (!('result' in response)) {
+            throw new Error('expected a result');
+        }
+        expect(Object.keys(response.result).sort()).toEqual([
+            'address',
+            'domain',
+            'payload',
+            'signature',
+            'timestamp',
+        ]);
+        expect(
+            verifySignDataDetailed({
+                signedData: response.result,
+                publicKey: signer.publicKey,
+            })
+        ).toEqual({ valid: true });
+
+        expect(approvals).toHaveLength(1);
+        expect(approvals[0]).toMatchObject({
+            payload: TEXT,
+            domain: 'app.example.com',
+            address: RAW_ADDRESS,
+            preview: { payload: { type: 'text', text: 'Confirm login' } },
+        });
+    });
+
+    it('signs cell payloads without network and from', async () => {
+        const { handler } = setup();
+
+        const response = await handler(
+            rpc({ ...CELL, network: '-239', from: RAW_ADDRESS })
+        );
+
+        expect(response).toMatchObject({ result: { payload: CELL } });
+    });
+
+    it('waits for an asynchronous approval', async () => {
+        const { handler } = setup({
+            approve: () =>
+                new Promise((resolve) => setTimeout(resolve, 5, true)),
+        });
+
+        expect(await handler(rpc(TEXT))).toHaveProperty('result');
+    });
+
+    it('returns USER_REJECTS_ERROR when the user declines', async () => {
+        const { handler } = setup({ approve: async () => false });
+
+        expect(await handler(rpc(TEXT))).toEqual({
+            error: { code: 300, message: 'User rejected the request' },
+            id: '7',
+        });
+    });
+
+    it('returns UNKNOWN_ERROR when approval or signing fails', async () => {
+        const failing: Signer = {
+            publicKey: signer.publicKey,
+            sign: async () => {
+                throw new Error('HSM offline');
+            },
+        };
+
+        for (const options of [
+            {
+                approve: () => {
+                    throw new Error('UI crashed');
+                },
+            },
+            { signer: failing },
+        ]) {
+            const { handler } = setup(options);
+            expect(await handler(rpc(TEXT))).toMatchObject({
+                error: { code: 0 },
+                id: '7',
+            });
+        }
+    });
+
+    it.each([
+        ['a method other than signData', { method: 'sendTransaction' }],
+        ['an unknown payload type', rpc({ type: 'image', url: 'x' })],
+    ])('returns METHOD_NOT_SUPPORTED for %s', async (_, request) => {
+        const { handler, approvals } = setup();
+
+        expect(await handler({ ...rpc(TEXT), ...request })).toMatchObject({
+            error: { code: 400 },
+            id: '7',
+        });
+        expect(approvals).toEqual([]);
+    });
+
+    it('returns METHOD_NOT_SUPPORTED for a type the wallet disabled', async () => {
+        const { handler } = setup({ supportedTypes: ['text', 'binary'] });
+
+        expect(await handler(rpc(CELL))).toMatchObject({
+            error: {
+                code: 400,
+                message: 'Payload type "cell" is not supported',
+            },
+        });
+    });
+
+    it.each([
+        ['a non-object request', null],
+        ['missing params', { method: 'signData', id: '7' }],
+        [
+            'params that are not JSON',
+            { method: 'signData', params: ['{'], id: '7' },
+        ],
+        ['a payload that is not an object', rpc('text')],
+        ['a text payload without text', rpc({ type: 'text' })],
+        [
+            'binary payload in url-safe base64',
+            rpc({ type: 'binary', bytes: '-_8' }),
+        ],
+        [
+            'a request for another account',
+            rpc({ ...TEXT, from: '0:' + '00'.repeat(32) }),
+        ],
+        ['an invalid from', rpc({ ...TEXT, from: 'nobody' })],
+        [
+            'a payload with unknown fields',
+            rpc({ ...TEXT, domain: 'evil.example' }),
+        ],
+    ])('returns BAD_REQUEST_ERROR for %s', async (_, request) => {
+        const { handler, approvals } = setup();
+
+        expect(await handler(request)).toMatchObject({ error: { code: 1 } });
+        expect(approvals).toEqual([]);
+    });
+
+    it('rejects a request for another network', async () => {
+        const { handler } = setup({ network: '-239' });
+
+        expect(await handler(rpc({ ...TEXT, network: '-3' }))).toMatchObject({
+            error: { code: 1, message: 'Request is for network -3' },
+        });
+        expect(await handler(rpc({ ...TEXT, network: '-239' }))).toHaveProperty(
+            'result'
+        );
+    });
+
+    it('reports which payload field is invalid', async () => {
+        const { handler } = setup();
+
+        expect(await handler(rpc({ type: 'text', text: 42 }))).toEqual({
+            error: {
+                code: 1,
+                message: 'Invalid payload: text: Must be a string',
+            },
+            id: '7',
+        });
+    });
+
+    it('applies size limits', async () => {
+        const { handler } = setup({ limits: { maxTextBytes: 4 } });
+
+        expect(await handler(rpc(TEXT))).toMatchObject({ error: { code: 1 } });
+    });
+
+    it('rejects cells that do not match their schema in strict mode', async () => {
+        const { handler } = setup({ strictSchema: true });
+
+        expect(
+            await handler(
+                rpc({ ...CELL, schema: 'message#_ value:uint8 = Message;' })
+            )
+        ).toMatchObject({
+            error: { code: 1, message: /^Cell does not match schema/ },
+        });
+    });
+
+    it('previews cells shared by many parents without stalling', async () => {
+        let cell = beginCell().storeUint(0b00, 2).endCell();
+        for (let i = 0; i < 40; i++) {
+            cell = beginCell()
+                .storeUint(0b11, 2)
+                .storeRef(cell)
+                .storeRef(cell)
+                .endCell();
+        }
+        const { handler, approvals } = setup();
+
+        await handler(
+            rpc({
+                type: 'cell',
+                schema: 't$_ a:(Maybe ^T) b:(Maybe ^T) = T;',
+                cell: cell.toBoc().toString('base64'),
+            })
+        );
+
+        expect(approvals[0].preview.warnings).toMatchObject([
+            {
+                kind: 'schema_mismatch',
+                message: expect.stringMatching(/more cells than allowed/),
+            },
+        ]);
+    });
+});
@@ -0,0 +1,92 @@
+import { Address } from '@ton/core';
+import { TonNetwork } from './types';
+
+export interface AddressPolicyOptions {
+    /**
+     * Network the signature must be issued on. A user-friendly address must
+     * carry the matching test-only flag; raw addresses carry no flag and are
+     * accepted on either network.
+     */
+    network?: TonNetwork;
+    allowedWorkchains?: number[]; // e.g. [0] for basechain only
+}
+
+export type AddressFailure = 'network_mismatch' | 'workchain_not_allowed';
+
+/**
+ * Normalized forms of an address, suitable as storage keys.
+ */
+export interface NormalizedAddress {
+    addressRaw: string; // "<workchain>:<hex>"
+    addressFriendly: string; // non-bounceable, url-safe user-friendly form
+}
+
+export const MAINNET: TonNetwork = '-239';
+export const TESTNET: TonNetwork = '-3';
+
+/**
+ * Reads the test-only flag of a user-friendly address.
+ *
+ * @returns the flag, or undefined for a raw address
+ * @throws if `address` is not a valid TON address
+ */
+export function addressTestOnlyFlag(address: string): boolean | undefined {
+    if (Address.isFriendly(address)) {
+        return Address.parseFriendly(address).isTestOnly;
+    }
+    Address.parseRaw(address);
+    return undefined;
+}
+
+/**
+ * Checks the address against the expected network and workchains.
+ *
+ * Nothing is checked for options that are not set.
+ *
+ * @returns failure reason, or null if the address is allowed
+ * @throws if `address` is not a valid TON address
+ */
+export function checkAddress(
+    address: string,
+    options: AddressPolicyOptions
+): AddressFailure | null {
+    if (options.network !== undefined) {
+        const testOnly = addressTestOnlyFlag(address);
+        if (
+            testOnly !== undefined &&
+            testOnly !== (options.network === TESTNET)
+        ) {
+            return 'network_mismatch';
+        }
+    }
+    if (
+        options.allowedWorkchains &&
+        !options.allowedWorkchains.includes(Address.parse(address).workChain)
+    ) {
+        return 'workchain_not_allowed';
+    }
+    return null;
+}
+
+/**
+ * Returns the raw and user-friendly forms of an address, whichever form it
+ * was given in. The friendly form is non-bounceable, as for wallets, and
+ * test-only if the input was, or if it is raw and `network` is testnet.
+ *
+ * @throws if `address` is not a valid TON address
+ */
+export function normalizeAddress(
+    address: string,
+    network?: TonNetwork
+): NormalizedAddress {
+    const testOnly = addressTestOnlyFlag(address) ?? network === TESTNET;
+    const parsed = Address.parse(address);
+    return {
+        addressRaw: parsed.toRawString(),
+        addressFriendly: parsed.toString({
+            urlSafe: true,
+            bounceable: false,
+            testOnly,
+        }),
+    };
+}
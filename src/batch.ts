@@ -0,0 +1,347 @@
+import { createRequire } from 'node:module';
+import { Worker } from 'node:worker_threads';
+import { Address } from '@ton/core';
+import { SignDataResult } from './types';
+import {
+    checkReplay,
+    prepareVerification,
+    VerifyOptions,
+    VerifyResult,
+} from './verify';
+import { createSignDataHash } from './utils';
+import { getSyncCryptoProvider } from './crypto';
+
+export interface BatchItem {
+    signedData: SignDataResult;
+    publicKey: Uint8Array;
+}
+
+export interface VerifyBatchOptions extends VerifyOptions {
+    /**
+     * Pool to check signatures in; without it signatures are checked on
+     * the calling thread.
+     */
+    pool?: VerifyWorkerPool;
+}
+
+/**
+ * Single Ed25519 check, as sent to a worker.
+ */
+export interface SignatureJob {
+    hash: Uint8Array;
+    signature: Uint8Array;
+    publicKey: number; // index into the deduplicated key list
+}
+
+/**
+ * Verifies many sign-data signatures.
+ *
+ * Same checks and results as `verifySignDataDetailed` for each item, with
+ * shared work done once: each distinct address is parsed once, each
+ * distinct public key is converted once, and identical (hash, signature,
+ * key) triples are checked once. With `pool`, signature checks run in
+ * worker threads.
+ *
+ * Policy options apply to every item. `seenSignatures` is updated in input
+ * order after all signatures are checked, so a repeated proof within the
+ * batch is `replayed` from its second occurrence on.
+ *
+ * @returns one result per item, in input order
+ */
+export async function verifyBatch(
+    items: BatchItem[],
+    options: VerifyBatchOptions = {}
+): Promise<VerifyResult[]> {
+    const { pool, ...verifyOptions } = options;
+
+    const addresses = new Map<string, Address | Error>();
+    const parseAddress = (address: string): Address => {
+        let parsed = addresses.get(address);
+        if (parsed === undefined) {
+            try {
+                parsed = Address.parse(address);
+            } catch (e) {
+                parsed = e as Error;
+            }
+            addresses.set(address, parsed);
+        }
+        if (parsed instanceof Error) {
+            throw parsed;
+        }
+        return parsed;
+    };
+
+    const keys: Uint8Array[] = [];
+    const keyIndex = new Map<string, number>();
+    const jobs: SignatureJob[] = [];
+    const jobIndex = new Map<string, number>();
+
+    const results: (VerifyResult | null)[] = [];
+    const itemJobs: number[] = [];
+    const hashes: Buffer[] = [];
+
+    for (const [i, item] of items.entries()) {
+        const prepared = prepareVerification(
+            { ...verifyOptions, ...item },
+            parseAddress
+        );
+        if ('valid' in prepared) {
+            results[i] = prepared;
+            continue;
+        }
+        const { payload, domain, timestamp } = item.signedData;
+        const finalHash = createSignDataHash(
+            payload,
+            prepared.parsedAddr,
+            domain,
+            timestamp
+        );
+
+        const keyHex = Buffer.from(item.publicKey).toString('hex');
+        let key = keyIndex.get(keyHex);
+        if (key === undefined) {
+            key = keys.push(new Uint8Array(item.publicKey)) - 1;
+            keyIndex.set(keyHex, key);
+        }
+
+        const jobKey = `${finalHash.toString('hex')}:${prepared.signature.toString('hex')}:${key}`;
+        let job = jobIndex.get(jobKey);
+        if (job === undefined) {
+            job =
+                jobs.push({
+                    hash: new Uint8Array(finalHash),
+                    signature: new Uint8Array(prepared.signature),
+                    publicKey: key,
+                }) - 1;
+            jobIndex.set(jobKey, job);
+        }
+
+        results[i] = null;
+        itemJobs[i] = job;
+        hashes[i] = finalHash;
+    }
+
+    const valid = pool
+        ? await pool.verify(jobs, keys)
+        : verifySignatures(jobs, keys);
+
+    const verified: VerifyResult[] = [];
+    for (const [i, result] of results.entries()) {
+        if (result) {
+            verified.push(result);
+        } else if (!valid[itemJobs[i]]) {
+            verified.push({
+                valid: false,
+                reason: 'invalid_signature',
+                message: 'Signature does not match',
+            });
+        } else {
+            verified.push(
+                await checkReplay({ ...verifyOptions, ...items[i] }, hashes[i])
+            );
+        }
+    }
+    return verified;
+}
+
+function verifySignatures(jobs: SignatureJob[], keys: Uint8Array[]): boolean[] {
+    const provider = getSyncCryptoProvider();
+    return jobs.map((job) =>
+        provider.verifySync(job.hash, job.signature, keys[job.publicKey])
+    );
+}
+
+// Runs as a CommonJS script; tweetnacl is loaded by its resolved path so
+// the worker works the same from sources and from the build output. The
+// verifiers mirror `naclCryptoProvider` and `nodeCryptoProvider`, which
+// disagree on some malformed signatures (e.g. non-canonical S).
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const nodeCrypto = require('node:crypto');
+const nacl = require(workerData.naclPath);
+const SPKI_ED25519_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+const verifiers = {
+    nacl: (message, signature, publicKey) =>
+        signature.length === 64 &&
+        publicKey.length === 32 &&
+        nacl.sign.detached.verify(message, signature, publicKey),
+    node: (message, signature, publicKey) => {
+        if (signature.length !== 64 || publicKey.length !== 32) {
+            return false;
+        }
+        try {
+            return nodeCrypto.verify(
+                null,
+                message,
+                nodeCrypto.createPublicKey({
+                    key: Buffer.concat([SPKI_ED25519_PREFIX, publicKey]),
+                    format: 'der',
+                    type: 'spki',
+                }),
+                signature
+            );
+        } catch {
+            return false;
+        }
+    },
+};
+parentPort.on('message', ({ id, provider, jobs, keys }) => {
+    const verify = verifiers[provider];
+    const valid = jobs.map((job) =>
+        verify(job.hash, job.signature, keys[job.publicKey])
+    );
+    parentPort.postMessage({ id, valid });
+});
+`;
+
+// Providers the workers can reproduce, by `CryptoProvider.name`
+const WORKER_PROVIDERS = ['nacl', 'node'];
+
+interface PendingRequest {
+    worker: Worker;
+    resolve(valid: boolean[]): void;
+    reject(error: Error): void;
+}
+
+/**
+ * Fixed-size pool of worker threads checking Ed25519 signatures.
+ *
+ * Create once and reuse across batches; call `close()` on shutdown.
+ * Workers check signatures the way the selected crypto provider does, so
+ * results match the sequential path; only the Node.js native and tweetnacl
+ * providers are supported.
+ * A worker that dies fails its pending checks and is replaced; a worker
+ * that dies before starting closes the pool.
+ */
+export class VerifyWorkerPool {
+    private readonly workers: Worker[];
+    private readonly pending = new Map<number, PendingRequest>();
+    private readonly naclPath: string;
+    private nextId = 0;
+    private closed = false;
+
+    /**
+     * @param size number of worker threads
+     */
+    constructor(readonly size: number) {
+        if (!Number.isInteger(size) || size < 1) {
+            throw new Error(
+                `Pool size must be a positive integer, got ${size}`
+            );
+        }
+
+        this.naclPath = createRequire(import.meta.url).resolve('tweetnacl');
+        this.workers = Array.from({ length: size }, (_, slot) =>
+            this.spawn(slot)
+        );
+    }
+
+    /**
+     * Splits signature checks evenly between the workers.
+     *
+     * @param provider name of the crypto provider to check with, the
+     *                 selected one by default
+     * @returns validity of each job, in order
+     * @throws if the pool is closed, the provider is not supported by the
+     *         workers, or a worker dies during the checks
+     */
+    async verify(
+        jobs: SignatureJob[],
+        keys: Uint8Array[],
+        provider = getSyncCryptoProvider().name
+    ): Promise<boolean[]> {
+        if (this.closed) {
+            throw new Error('Worker pool is closed');
+        }
+        if (!WORKER_PROVIDERS.includes(provider)) {
+            throw new Error(
+                `Worker pool cannot check signatures with the "${provider}" crypto provider`
+            );
+        }
+        if (jobs.length === 0) {
+            return [];
+        }
+
+        const chunkSize = Math.ceil(jobs.length / this.size);
+        const chunks: Promise<boolean[]>[] = [];
+        for (let i = 0; i * chunkSize < jobs.length; i++) {
+            chunks.push(
+                this.run(
+                    this.workers[i],
+                    provider,
+                    jobs.slice(i * chunkSize, (i + 1) * chunkSize),
+                    keys
+                )
+            );
+        }
+        return (await Promise.all(chunks)).flat();
+    }
+
+    async close(): Promise<void> {
+        this.closed = true;
+        this.failAll(new Error('Worker pool closed'));
+        await Promise.all(this.workers.map((worker) => worker.terminate()));
+    }
+
+    private spawn(slot: number): Worker {
+        const worker = new Worker(WORKER_SOURCE, {
+            eval: true,
+            workerData: { naclPath: this.naclPath },
+        });
+        let started = false;
+        worker.on('online', () => (started = true));
+        worker.on('message', ({ id, valid }) => {
+            this.pending.get(id)?.resolve(valid);
+            this.pending.delete(id);
+        });
+        // Replaced on error already, before the exit that follows
+        const retire = (error: Error) => {
+            this.failWorker(worker, error);
+            if (this.closed || this.workers[slot] !== worker) {
+                return;
+            }
+            if (started) {
+                this.workers[slot] = this.spawn(slot);
+            } else {
+                // Would fail the same way again
+                this.closed = true;
+                this.failAll(error);
+                void Promise.all(this.workers.map((w) => w.terminate()));
+            }
+        };
+        worker.on('error', retire);
+        worker.on('exit', (code) =>
+            retire(new Error(`Worker exited with code ${code}`))
+        );
+        return worker;
+    }
+
+    private run(
+        worker: Worker,
+        provider: string,
+        jobs: SignatureJob[],
+        keys: Uint8Array[]
+    ): Promise<boolean[]> {
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { worker, resolve, reject });
+            worker.postMessage({ id, provider, jobs, keys });
+        });
+    }
+
+    private failWorker(worker: Worker, error: Error): void {
+        for (const [id, request] of this.pending) {
+            if (request.worker === worker) {
+                request.reject(error);
+                this.pending.delete(id);
+            }
+        }
+    }
+
+    private failAll(error: Error): void {
+        for (const request of this.pending.values()) {
+            request.reject(error);
+        }
+        this.pending.clear();
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * Entry point for browsers and edge runtimes: no Node.js built-in modules.
+ *
+ * Requires a global `Buffer`, like @ton/core itself: the `buffer` package in
+ * browsers, which is what the edge-runtime tests run with. Synchronous
+ * functions use the pure JS tweetnacl provider; select `webCryptoProvider`
+ * and use the `...Async` functions to hash and verify with WebCrypto.
+ */
+export * from './types';
+export * from './sign';
+export * from './verify';
+export * from './utils';
+export * from './domain';
+export * from './replay';
+export * from './resolver';
+export * from './state-init';
+export * from './tlb';
+export * from './tlb-decode';
+export * from './tlb-encode';
+export * from './preview';
+export * from './message';
+export * from './crypto';
+export * from './sha256';
+export * from './signer';
+export * from './validate';
+export * from './http';
+export * from './session';
+export * from './challenge';
+export * from './ton-proof';
+export * from './proof';
+export * from './wallet';
+export * from './client';
+export * from './address';
+export * from './stream';
@@ -0,0 +1,279 @@
+import { Cell } from '@ton/core';
+import { SignDataPayload } from './types';
+import { createCellPayload } from './tlb-encode';
+import { normalizeDomain } from './domain';
+import { unixNow } from './replay';
+import { checkHs256Secret, hmacSha256, timingSafeEqual } from './crypto';
+import { parseSignDataPayload } from './validate';
+
+/**
+ * Payload issued by the server for the user to sign, with the data it
+ * binds. `payload` is sent to the wallet as is.
+ */
+export interface Challenge {
+    nonce: string; // hex, also embedded in the payload
+    domain: string; // domain the payload must be signed for
+    expiresAt: number; // unix seconds
+    payload: SignDataPayload;
+}
+
+export interface CreateChallengeOptions {
+    type: SignDataPayload['type'];
+    domain: string;
+    ttlSeconds?: number; // defaults to DEFAULT_CHALLENGE_TTL_SECONDS
+    /**
+     * Text payload template; `{domain}`, `{nonce}`, `{expiresAt}` (unix
+     * seconds) and `{expires}` (ISO 8601) are replaced.
+     */
+    template?: string;
+    nonce?: string; // defaults to 16 random bytes, hex
+    now?: number; // current unix time in seconds, defaults to Date.now()
+}
+
+export const DEFAULT_CHALLENGE_TTL_SECONDS = 300;
+
+export const DEFAULT_CHALLENGE_TEMPLATE =
+    'Sign in to {domain}\n\nNonce: {nonce}\nExpires: {expires}';
+
+/**
+ * TL-B schema of cell challenges. The nonce and domain are UTF-8 strings in
+ * their own cells, so `expectedNonce` finds the nonce too.
+ */
+export const CHALLENGE_SCHEMA =
+    'sign_data_challenge#7369676e nonce:^string expires_at:uint64 domain:^string = SignDataChallenge';
+
+const BINARY_CHALLENGE_MAGIC = Buffer.from('TCC1');
+
+/**
+ * Generates a challenge payload of the given type carrying a random nonce,
+ * the expiry and the intended domain:
+ *
+ *   • text:   `template` (or `DEFAULT_CHALLENGE_TEMPLATE`) filled in
+ *   • binary: "TCC1" || expires_at (uint64 BE) || nonce_len (uint8) ||
+ *             nonce || domain_len (uint8) || domain
+ *   • cell:   `CHALLENGE_SCHEMA`
+ *
+ * @throws if the nonce or domain is longer than 255 bytes in binary form
+ */
+export function createChallenge(options: CreateChallengeOptions): Challenge {
+    const { type, domain } = options;
+    const nonce = options.nonce ?? randomNonce();
+    const expiresAt =
+        (options.now ?? unixNow()) +
+        (options.ttlSeconds ?? DEFAULT_CHALLENGE_TTL_SECONDS);
+
+    let payload: SignDataPayload;
+    switch (type) {
+        case 'text':
+            payload = {
+                type,
+                text: fillTemplate(
+                    options.template ?? DEFAULT_CHALLENGE_TEMPLATE,
+                    { domain, nonce, expiresAt }
+                ),
+            };
+            break;
+        case 'binary':
+            payload = {
+                type,
+                bytes: encodeBinaryChallenge(nonce, domain, expiresAt).toString(
+                    'base64'
+                ),
+            };
+            break;
+        case 'cell':
+            payload = createCellPayload(CHALLENGE_SCHEMA, {
+                nonce,
+                expires_at: BigInt(expiresAt),
+                domain,
+            });
+            break;
+        default:
+            throw new Error(`Unknown payload type "${type}"`);
+    }
+    return { nonce, domain, expiresAt, payload };
+}
+
+export type ChallengeFailure =
+    'challenge_mismatch' | 'challenge_domain_mismatch' | 'challenge_expired';
+
+/**
+ * Checks that signed data answers the challenge: same payload, signed for
+ * the challenge's domain, before expiry.
+ *
+ * @returns failure reason, or null if the data matches
+ */
+export function checkChallenge(
+    signed: { payload: SignDataPayload; domain: string },
+    challenge: Challenge,
+    now = unixNow()
+): ChallengeFailure | null {
+    if (!samePayload(signed.payload, challenge.payload)) {
+        return 'challenge_mismatch';
+    }
+    if (!sameDomain(signed.domain, challenge.domain)) {
+        return 'challenge_domain_mismatch';
+    }
+    if (now > challenge.expiresAt) {
+        return 'challenge_expired';
+    }
+    return null;
+}
+
+export type ChallengeTokenResult =
+    | { valid: true; challenge: Challenge }
+    | {
+          valid: false;
+          reason: 'malformed_token' | 'invalid_signature' | 'expired';
+          message: string;
+      };
+
+/**
+ * Seals a challenge into a token, so the server needs no storage: the
+ * client sends the token back with the signed data.
+ *
+ * The token is authenticated, not encrypted. It can be redeemed until it
+ * expires; use `seenSignatures` to accept each signature only once.
+ *
+ * @returns `<base64url JSON>.<base64url HMAC-SHA256>`
+ * @throws if `secret` is shorter than `MIN_HS256_SECRET_BYTES`
+ */
+export async function createChallengeToken(
+    challenge: Challenge,
+    secret: Uint8Array
+): Promise<string> {
+    checkHs256Secret(secret);
+    const body = Buffer.from(JSON.stringify(challenge)).toString('base64url');
+    const mac = await hmacSha256(secret, Buffer.from(body));
+    return `${body}.${Buffer.from(mac).toString('base64url')}`;
+}
+
+/**
+ * Opens a token made by `createChallengeToken`, checking its HMAC, the
+ * shape of the challenge and its expiry.
+ *
+ * @throws if `secret` is shorter than `MIN_HS256_SECRET_BYTES`
+ */
+export async function openChallengeToken(
+    token: string,
+    secret: Uint8Array,
+    now = unixNow()
+): Promise<ChallengeTokenResult> {
+    checkHs256Secret(secret);
+    const parts = token.split('.');
+    if (parts.length !== 2 || !parts.every((p) => /^[\w-]+$/.test(p))) {
+        return fail('malformed_token', 'Challenge token is malformed');
+    }
+
+    const mac = await hmacSha256(secret, Buffer.from(parts[0]));
+    if (!timingSafeEqual(mac, Buffer.from(parts[1], 'base64url'))) {
+        return fail('invalid_signature', 'Challenge token was not issued here');
+    }
+
+    let challenge: unknown;
+    try {
+        challenge = JSON.parse(Buffer.from(parts[0], 'base64url').toString());
+    } catch {
+        return fail('malformed_token', 'Challenge token is malformed');
+    }
+    if (!isChallenge(challenge)) {
+        return fail('malformed_token', 'Challenge token is malformed');
+    }
+    if (now > challenge.expiresAt) {
+        return fail('expired', 'Challenge has expired');
+    }
+    return { valid: true, challenge };
+}
+
+function isChallenge(value: unknown): value is Challenge {
+    const c = value as Record<string, unknown> | null;
+    return (
+        typeof c?.nonce === 'string' &&
+        typeof c.domain === 'string' &&
+        typeof c.expiresAt === 'number' &&
+        parseSignDataPayload(c.payload).valid
+    );
+}
+
+function randomNonce(): string {
+    const bytes = new Uint8Array(16);
+    globalThis.crypto.getRandomValues(bytes);
+    return Buffer.from(bytes).toString('hex');
+}
+
+function fillTemplate(
+    template: string,
+    values: { domain: string; nonce: string; expiresAt: number }
+): string {
+    const replacements: Record<string, string> = {
+        domain: values.domain,
+        nonce: values.nonce,
+        expiresAt: String(values.expiresAt),
+        expires: new Date(values.expiresAt * 1000).toISOString(),
+    };
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        Object.hasOwn(replacements, name) ? replacements[name] : match
+    );
+}
+
+function encodeBinaryChallenge(
+    nonce: string,
+    domain: string,
+    expiresAt: number
+): Buffer {
+    const expires = Buffer.alloc(8);
+    expires.writeBigUInt64BE(BigInt(expiresAt));
+    return Buffer.concat([
+        BINARY_CHALLENGE_MAGIC,
+        expires,
+        lengthPrefixed(nonce, 'Nonce'),
+        lengthPrefixed(domain, 'Domain'),
+    ]);
+}
+
+function lengthPrefixed(value: string, name: string): Buffer {
+    const bytes = Buffer.from(value, 'utf8');
+    if (bytes.length > 255) {
+        throw new Error(`${name} must be at most 255 bytes`);
+    }
+    return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+}
+
+function samePayload(a: SignDataPayload, b: SignDataPayload): boolean {
+    switch (a.type) {
+        case 'text':
+            return b.type === 'text' && a.text === b.text;
+        case 'binary':
+            return (
+                b.type === 'binary' &&
+                Buffer.from(a.bytes, 'base64').equals(
+                    Buffer.from(b.bytes, 'base64')
+                )
+            );
+        case 'cell':
+            if (b.type !== 'cell' || a.schema !== b.schema) {
+                return false;
+            }
+            try {
+                return Cell.fromBase64(a.cell).equals(Cell.fromBase64(b.cell));
+            } catch {
+                return false;
+            }
+    }
+}
+
+// Text and binary payloads may be signed for names encodeDnsName rejects
+function sameDomain(a: string, b: string): boolean {
+    try {
+        return normalizeDomain(a) === normalizeDomain(b);
+    } catch {
+        return a === b;
+    }
+}
+
+function fail(
+    reason: 'malformed_token' | 'invalid_signature' | 'expired',
+    message: string
+): ChallengeTokenResult {
+    return { valid: false, reason, message };
+}
@@ -0,0 +1,387 @@
+#!/usr/bin/env node
+import { readFileSync, realpathSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { Address } from '@ton/core';
+import { mnemonicToPrivateKey } from '@ton/crypto';
+import nacl from 'tweetnacl';
+import {
+    buildSignDataMessage,
+    createCellPayload,
+    encodeDnsName,
+    formatSchemaErrors,
+    normalizeDomain,
+    parseSignDataResult,
+    publicKeyFromStateInit,
+    SignDataPayload,
+    SignDataResult,
+    signData,
+    verifySignDataDetailed,
+} from './node';
+
+const USAGE = `Usage: ton-sign-data <command> [options]
+
+Commands:
+  sign            Sign a payload, prints SignDataResult JSON
+    --type <text|binary|cell>   payload type (required)
+    --domain <domain>           app domain (required)
+    --address <address>         wallet address (required)
+    --mnemonic-file <path>      file with 24 mnemonic words
+    --secret-key <hex>          Ed25519 secret key (64 bytes) or seed (32 bytes)
+    --text <text>               text payload
+    --bytes <base64>            binary payload
+    --schema <tlb>              TL-B schema of cell payload
+    --cell <base64>             cell payload BOC
+    --value <json>              build cell payload from JSON value and schema
+    --file <path>               read payload from file ("-" for stdin);
+                                text/binary: raw content, cell: base64 BOC
+    --strict-schema             refuse cell not matching its schema
+
+  verify          Verify SignDataResult JSON, prints verification result
+    --file <path>               JSON file (default: stdin)
+    --public-key <hex>          signer public key
+    --state-init <base64>       wallet StateInit to take public key from
+    --allowed-domain <domain>   allowed domain, may repeat, "*.": subdomains
+    --max-age <seconds>         reject older signatures
+    --now <unix>                current time for --max-age
+    --strict-schema             require cell to match its schema
+
+  hash            Print pre-hash message, its segments and digest of
+                  SignDataResult JSON
+    --file <path>               JSON file (default: stdin)
+
+  encode-domain <domain>        Print TEP-81 encoding of a domain
+
+Exit codes: 0 success, 1 verification failed, 2 usage or input error.
+`;
+
+export interface CliIo {
+    stdin(): Promise<Buffer>;
+    stdout(text: string): void;
+    stderr(text: string): void;
+}
+
+const processIo: CliIo = {
+    async stdin() {
+        const chunks: Buffer[] = [];
+        for await (const chunk of process.stdin) {
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks);
+    },
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+};
+
+class UsageError extends Error {}
+
+/**
+ * Runs the command-line tool.
+ *
+ * @param argv arguments without the node and script paths
+ * @returns process exit code
+ */
+export async function runCli(
+    argv: string[],
+    io: CliIo = processIo
+): Promise<number> {
+    const [command, ...args] = argv;
+
+    try {
+        switch (command) {
+            case 'sign':
+                return await signCommand(args, io);
+            case 'verify':
+                return await verifyCommand(args, io);
+            case 'hash':
+                return await hashCommand(args, io);
+            case 'encode-domain':
+                return encodeDomainCommand(args, io);
+            case '-h':
+            case '--help':
+            case 'help':
+                io.stdout(USAGE);
+                return 0;
+            default:
+                throw new UsageError(
+                    command ? `Unknown command "${command}"` : 'Missing command'
+                );
+        }
+    } catch (e) {
+        io.stderr(`error: ${(e as Error).message}\n`);
+        if (e instanceof UsageError) {
+            io.stderr(`\n${USAGE}`);
+        }
+        return 2;
+    }
+}
+
+/**
+ * Runs `parseArgs`, reporting unknown or malformed options as usage errors.
+ */
+function parse<T>(parseFn: () => T): T {
+    try {
+        return parseFn();
+    } catch (e) {
+        throw new UsageError((e as Error).message);
+    }
+}
+
+function required(value: unknown, name: string): string {
+    if (typeof value !== 'string' || value === '') {
+        throw new UsageError(`--${name} is required`);
+    }
+    return value;
+}
+
+function printJson(io: CliIo, value: unknown): void {
+    io.stdout(JSON.stringify(value, null, 2) + '\n');
+}
+
+async function readInput(io: CliIo, file: string | undefined): Promise<Buffer> {
+    return !file || file === '-' ? io.stdin() : readFileSync(file);
+}
+
+async function readSignedData(
+    io: CliIo,
+    file: string | undefined
+): Promise<SignDataResult> {
+    const input = (await readInput(io, file)).toString('utf8');
+    let json: unknown;
+    try {
+        json = JSON.parse(input);
+    } catch (e) {
+        throw new Error(`Invalid JSON input: ${(e as Error).message}`);
+    }
+    const parsed = parseSignDataResult(json);
+    if (!parsed.valid) {
+        throw new Error(
+            `Invalid SignDataResult: ${formatSchemaErrors(parsed.errors)}`
+        );
+    }
+    return parsed.value;
+}
+
+function parseHex(value: string, name: string): Buffer {
+    if (!/^([0-9a-fA-F]{2})+$/.test(value)) {
+        throw new UsageError(`--${name} must be hex`);
+    }
+    return Buffer.from(value, 'hex');
+}
+
+async function loadSecretKey(values: Record<string, unknown>): Promise<Buffer> {
+    const mnemonicFile = values['mnemonic-file'] as string | undefined;
+    const secretKey = values['secret-key'] as string | undefined;
+
+    if (mnemonicFile && secretKey) {
+        throw new UsageError(
+            'Use either --mnemonic-file or --secret-key, not both'
+        );
+    }
+    if (mnemonicFile) {
+        const words = readFileSync(mnemonicFile, 'utf8').trim().split(/\s+/);
+        return (await mnemonicToPrivateKey(words)).secretKey;
+    }
+    if (secretKey) {
+        const key = parseHex(secretKey, 'secret-key');
+        if (key.length === nacl.sign.seedLength) {
+            return Buffer.from(nacl.sign.keyPair.fromSeed(key).secretKey);
+        }
+        if (key.length === nacl.sign.secretKeyLength) {
+            return key;
+        }
+        throw new UsageError('--secret-key must be 32 or 64 bytes');
+    }
+    throw new UsageError('--mnemonic-file or --secret-key is required');
+}
+
+async function readPayload(
+    values: Record<string, unknown>,
+    io: CliIo
+): Promise<SignDataPayload> {
+    const type = values.type as string | undefined;
+    const file = values.file as string | undefined;
+    const fromInput = () => readInput(io, file);
+
+    switch (type) {
+        case 'text': {
+            const text =
+                (values.text as string | undefined) ??
+                (await fromInput()).toString('utf8');
+            return { type, text };
+        }
+        case 'binary': {
+            const bytes =
+                (values.bytes as string | undefined) ??
+                (await fromInput()).toString('base64');
+            return { type, bytes };
+        }
+        case 'cell': {
+            const schema = required(values.schema, 'schema');
+            if (values.value !== undefined) {
+                return createCellPayload(
+                    schema,
+                    JSON.parse(values.value as string)
+                );
+            }
+            const cell =
+                (values.cell as string | undefined) ??
+                (await fromInput()).toString('utf8').trim();
+            return { type, schema, cell };
+        }
+        default:
+            throw new UsageError('--type must be one of: text, binary, cell');
+    }
+}
+
+async function signCommand(args: string[], io: CliIo): Promise<number> {
+    const { values } = parse(() =>
+        parseArgs({
+            args,
+            options: {
+                type: { type: 'string' },
+                domain: { type: 'string' },
+                address: { type: 'string' },
+                'mnemonic-file': { type: 'string' },
+                'secret-key': { type: 'string' },
+                text: { type: 'string' },
+                bytes: { type: 'string' },
+                schema: { type: 'string' },
+                cell: { type: 'string' },
+                value: { type: 'string' },
+                file: { type: 'string' },
+                'strict-schema': { type: 'boolean' },
+            },
+        })
+    );
+
+    const domain = required(values.domain, 'domain');
+    const address = required(values.address, 'address');
+    const privateKey = await loadSecretKey(values);
+    const payload = await readPayload(values, io);
+
+    printJson(
+        io,
+        signData({
+            payload,
+            domain,
+            privateKey,
+            address,
+            strictSchema: values['strict-schema'] === true,
+        })
+    );
+    return 0;
+}
+
+async function verifyCommand(args: string[], io: CliIo): Promise<number> {
+    const { values } = parse(() =>
+        parseArgs({
+            args,
+            options: {
+                file: { type: 'string' },
+                'public-key': { type: 'string' },
+                'state-init': { type: 'string' },
+                'allowed-domain': { type: 'string', multiple: true },
+                'max-age': { type: 'string' },
+                now: { type: 'string' },
+                'strict-schema': { type: 'boolean' },
+            },
+        })
+    );
+
+    if (!values['public-key'] && !values['state-init']) {
+        throw new UsageError('--public-key or --state-init is required');
+    }
+    const signedData = await readSignedData(io, values.file as string);
+
+    let publicKey: Buffer | null;
+    if (values['public-key']) {
+        publicKey = parseHex(values['public-key'] as string, 'public-key');
+    } else {
+        publicKey = publicKeyFromStateInit(
+            values['state-init'] as string,
+            Address.parse(signedData.address)
+        );
+    }
+
+    if (!publicKey) {
+        printJson(io, {
+            valid: false,
+            reason: 'public_key_not_found',
+            message:
+                'StateInit does not match the address or has unknown wallet layout',
+        });
+        return 1;
+    }
+
+    const result = verifySignDataDetailed({
+        signedData,
+        publicKey,
+        allowedDomains: values['allowed-domain'] as string[] | undefined,
+        maxAgeSeconds: optionalInt(values['max-age'], 'max-age'),
+        now: optionalInt(values.now, 'now'),
+        strictSchema: values['strict-schema'] === true,
+    });
+
+    printJson(io, result);
+    return result.valid ? 0 : 1;
+}
+
+function optionalInt(value: unknown, name: string): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+        throw new UsageError(`--${name} must be a non-negative integer`);
+    }
+    return Number(value);
+}
+
+async function hashCommand(args: string[], io: CliIo): Promise<number> {
+    const { values } = parse(() =>
+        parseArgs({
+            args,
+            options: { file: { type: 'string' } },
+        })
+    );
+
+    const signedData = await readSignedData(io, values.file as string);
+    const debug = buildSignDataMessage(signedData);
+
+    printJson(io, {
+        type: signedData.payload.type,
+        message:
+            debug.kind === 'cell'
+                ? debug.message.toBoc().toString('base64')
+                : debug.message.toString('hex'),
+        hash: debug.hash.toString('hex'),
+        segments: debug.segments,
+    });
+    return 0;
+}
+
+function encodeDomainCommand(args: string[], io: CliIo): number {
+    const { positionals } = parse(() =>
+        parseArgs({ args, allowPositionals: true })
+    );
+    if (positionals.length !== 1) {
+        throw new UsageError('encode-domain expects exactly one domain');
+    }
+
+    const [domain] = positionals;
+    const encoded = encodeDnsName(domain);
+    printJson(io, {
+        domain,
+        normalized: normalizeDomain(domain),
+        encoded: encoded.toString('utf8'),
+        hex: encoded.toString('hex'),
+    });
+    return 0;
+}
+
+if (
+    process.argv[1] &&
+    import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href
+) {
+    process.exitCode = await runCli(process.argv.slice(2));
+}
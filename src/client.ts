@@ -0,0 +1,176 @@
+import { Address } from '@ton/core';
+import { SignDataPayload, SignDataResult, TonNetwork } from './types';
+import {
+    VerifyFailureReason,
+    VerifyOptions,
+    verifySignDataAsync,
+} from './verify';
+import { parseSignDataResult, formatSchemaErrors } from './validate';
+import { isBase64 } from './utils';
+import { SignDataErrorCode, SignDataRpcRequest } from './wallet';
+
+export interface CreateSignDataRequestOptions {
+    id: string; // JSON-RPC id, unique within the connection
+    network?: TonNetwork; // network the data must be signed on
+    from?: string; // account that must sign
+}
+
+export interface CheckSignDataResponseOptions extends VerifyOptions {
+    appUrl: string; // `url` of our tonconnect-manifest.json
+    address: string; // connected account
+    publicKey: Uint8Array; // of the connected account
+}
+
+export type SignDataResponseFailure =
+    | VerifyFailureReason
+    | 'malformed_response'
+    | 'id_mismatch'
+    | 'wallet_error'
+    | 'payload_mismatch'
+    | 'address_mismatch';
+
+export type SignDataResponseResult =
+    | { valid: true; signedData: SignDataResult }
+    | {
+          valid: false;
+          reason: SignDataResponseFailure;
+          message: string;
+          code?: SignDataErrorCode; // for wallet_error
+      };
+
+/**
+ * Builds the `signData` JSON-RPC request to send to the wallet.
+ *
+ * @throws if `from` is not a valid address
+ */
+export function createSignDataRequest(
+    payload: SignDataPayload,
+    options: CreateSignDataRequestOptions
+): SignDataRpcRequest {
+    const { id, network, from } = options;
+    const params = {
+        ...payload,
+        ...(network === undefined ? {} : { network }),
+        ...(from === undefined
+            ? {}
+            : { from: Address.parse(from).toRawString() }),
+    };
+    return { method: 'signData', params: [JSON.stringify(params)], id };
+}
+
+/**
+ * Checks the wallet's response to a request made by `createSignDataRequest`
+ * and verifies its signature.
+ *
+ * The response must answer the request id, echo the requested payload
+ * byte for byte, be signed for the host name of `appUrl` and by the
+ * connected account. The signature is then checked with
+ * `verifySignDataAsync` and the policies of `options`; `network` defaults
+ * to the requested one.
+ *
+ * @returns the signed data, or the first failed check
+ */
+export async function checkSignDataResponse(
+    request: SignDataRpcRequest,
+    response: unknown,
+    options: CheckSignDataResponseOptions
+): Promise<SignDataResponseResult> {
+    const { appUrl, address, publicKey, ...policy } = options;
+
+    if (typeof response !== 'object' || response === null) {
+        return fail('malformed_response', 'Response must be an object');
+    }
+    const { id, result, error } = response as Record<string, unknown>;
+    if (String(id) !== request.id) {
+        return fail(
+            'id_mismatch',
+            `Response is for request "${String(id)}", not "${request.id}"`
+        );
+    }
+    if (error !== undefined) {
+        const { code, message } = (error ?? {}) as Record<string, unknown>;
+        return {
+            valid: false,
+            reason: 'wallet_error',
+            message: `Wallet returned an error: ${String(message)}`,
+            code: code as SignDataErrorCode,
+        };
+    }
+
+    const parsed = parseSignDataResult(result);
+    if (!parsed.valid) {
+        return fail(
+            'malformed_response',
+            `Invalid result: ${formatSchemaErrors(parsed.errors)}`
+        );
+    }
+    const signedData = parsed.value;
+
+    if (!samePayloadBytes(requestedPayload(request), signedData.payload)) {
+        return fail(
+            'payload_mismatch',
+            'Signed payload is not the requested one'
+        );
+    }
+    const domain = new URL(appUrl).hostname;
+    if (signedData.domain !== domain) {
+        return fail(
+            'domain_mismatch',
+            `Data is signed for "${signedData.domain}", not "${domain}"`
+        );
+    }
+    if (!Address.parse(signedData.address).equals(Address.parse(address))) {
+        return fail(
+            'address_mismatch',
+            'Data is not signed by the connected account'
+        );
+    }
+
+    const verification = await verifySignDataAsync({
+        network: requestedNetwork(request),
+        ...policy,
+        signedData,
+        publicKey,
+    });
+    return verification.valid ? { valid: true, signedData } : verification;
+}
+
+function requestedPayload(request: SignDataRpcRequest): SignDataPayload {
+    const { network, from, ...payload } = JSON.parse(request.params[0]);
+    return payload;
+}
+
+function requestedNetwork(request: SignDataRpcRequest): TonNetwork | undefined {
+    return JSON.parse(request.params[0]).network;
+}
+
+function samePayloadBytes(a: SignDataPayload, b: SignDataPayload): boolean {
+    switch (a.type) {
+        case 'text':
+            return b.type === 'text' && a.text === b.text;
+        case 'binary':
+            return b.type === 'binary' && sameBase64(a.bytes, b.bytes);
+        case 'cell':
+            return (
+                b.type === 'cell' &&
+                a.schema === b.schema &&
+                sameBase64(a.cell, b.cell)
+            );
+    }
+}
+
+// Buffer skips characters outside the alphabet, so both must be base64
+function sameBase64(a: string, b: string): boolean {
+    return (
+        isBase64(a) &&
+        isBase64(b) &&
+        Buffer.from(a, 'base64').equals(Buffer.from(b, 'base64'))
+    );
+}
+
+function fail(
+    reason: SignDataResponseFailure,
+    message: string
+): SignDataResponseResult {
+    return { valid: false, reason, message };
+}
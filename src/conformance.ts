@@ -0,0 +1,249 @@
+import { readFileSync } from 'node:fs';
+import nacl from 'tweetnacl';
+import { SignDataPayload, SignDataResult } from './types';
+import { signData } from './sign';
+import { verifySignData } from './verify';
+import { buildSignDataMessage } from './message';
+
+export const TEST_VECTORS_VERSION = 1;
+
+/**
+ * Default location of the test-vector corpus, relative to this module.
+ */
+export const TEST_VECTORS_URL = new URL(
+    '../test-vectors/sign-data.v1.json',
+    import.meta.url
+);
+
+/**
+ * Valid signature, fully specified: every implementation must produce the
+ * same message, hash and signature from the inputs.
+ */
+export interface TestVector {
+    name: string;
+    description: string;
+    source?: string; // independent implementation that computed `expected`
+    seed: string; // hex, 32-byte Ed25519 seed
+    publicKey: string; // hex
+    address: string;
+    domain: string;
+    timestamp: number;
+    payload: SignDataPayload;
+    expected: {
+        message: string; // hex for text/binary, base64 BOC of envelope for cell
+        hash: string; // hex
+        signature: string; // base64
+    };
+}
+
+/**
+ * Signed data every implementation must reject.
+ */
+export interface InvalidTestVector {
+    name: string;
+    description: string;
+    publicKey: string; // hex
+    signedData: SignDataResult;
+}
+
+export interface TestVectorCorpus {
+    version: number;
+    vectors: TestVector[];
+    invalid: InvalidTestVector[];
+}
+
+export interface SignDataInput {
+    payload: SignDataPayload;
+    address: string;
+    domain: string;
+    timestamp: number;
+}
+
+/**
+ * Implementation under test. Every method is optional, checks for missing
+ * methods are skipped. Results may be returned synchronously or as promises.
+ */
+export interface SignDataImplementation {
+    /** Message before hashing: hex for text/binary, base64 BOC for cell. */
+    message?(input: SignDataInput): string | Promise<string>;
+    /** Hash that is signed. */
+    hash?(input: SignDataInput): Uint8Array | Promise<Uint8Array>;
+    /** Base64 signature made with the 64-byte Ed25519 secret key. */
+    sign?(
+        input: SignDataInput,
+        secretKey: Uint8Array
+    ): string | Promise<string>;
+    verify?(
+        signedData: SignDataResult,
+        publicKey: Uint8Array
+    ): boolean | Promise<boolean>;
+}
+
+export type ConformanceCheckKind = 'message' | 'hash' | 'signature' | 'verify';
+
+export interface ConformanceCheck {
+    vector: string;
+    check: ConformanceCheckKind;
+    passed: boolean;
+    expected: string;
+    actual: string; // "error: ..." if the implementation threw
+}
+
+export interface ConformanceReport {
+    version: number;
+    passed: number;
+    failed: number;
+    checks: ConformanceCheck[];
+}
+
+/**
+ * This library, as a `SignDataImplementation`.
+ */
+export const referenceImplementation: SignDataImplementation = {
+    message(input) {
+        const debug = buildSignDataMessage(input);
+        return debug.kind === 'cell'
+            ? debug.message.toBoc().toString('base64')
+            : debug.message.toString('hex');
+    },
+    hash(input) {
+        return buildSignDataMessage(input).hash;
+    },
+    sign(input, secretKey) {
+        return signData({ ...input, privateKey: Buffer.from(secretKey) })
+            .signature;
+    },
+    verify(signedData, publicKey) {
+        return verifySignData({
+            signedData,
+            publicKey: Buffer.from(publicKey),
+        });
+    },
+};
+
+/**
+ * Reads and checks the version of a test-vector corpus.
+ *
+ * @throws if the file is not a corpus of the supported version
+ */
+export function loadTestVectors(
+    path: string | URL = TEST_VECTORS_URL
+): TestVectorCorpus {
+    const corpus = JSON.parse(readFileSync(path, 'utf8')) as TestVectorCorpus;
+    if (corpus.version !== TEST_VECTORS_VERSION) {
+        throw new Error(
+            `Unsupported test vectors version ${corpus.version}, expected ${TEST_VECTORS_VERSION}`
+        );
+    }
+    if (!Array.isArray(corpus.vectors) || !Array.isArray(corpus.invalid)) {
+        throw new Error('Test vectors must have "vectors" and "invalid" lists');
+    }
+    return corpus;
+}
+
+/**
+ * Runs every available check of `implementation` against the corpus.
+ *
+ * For each valid vector: message, hash, signature and verification of the
+ * expected signature. For each invalid vector: verification must fail.
+ * Exceptions thrown by the implementation count as failed checks, except
+ * for `verify` on invalid vectors where throwing is a rejection.
+ */
+export async function runConformance(
+    implementation: SignDataImplementation,
+    corpus: TestVectorCorpus = loadTestVectors()
+): Promise<ConformanceReport> {
+    const checks: ConformanceCheck[] = [];
+    const record = async (
+        vector: string,
+        check: ConformanceCheckKind,
+        expected: string,
+        run: () => Promise<string>
+    ) => {
+        let actual: string;
+        try {
+            actual = await run();
+        } catch (e) {
+            actual = `error: ${(e as Error).message}`;
+        }
+        checks.push({
+            vector,
+            check,
+            passed: actual === expected,
+            expected,
+            actual,
+        });
+    };
+
+    for (const vector of corpus.vectors) {
+        const input: SignDataInput = {
+            payload: vector.payload,
+            address: vector.address,
+            domain: vector.domain,
+            timestamp: vector.timestamp,
+        };
+        const { message, hash, sign, verify } = implementation;
+
+        if (message) {
+            await record(vector.name, 'message', vector.expected.message, () =>
+                Promise.resolve(message(input))
+            );
+        }
+        if (hash) {
+            await record(vector.name, 'hash', vector.expected.hash, async () =>
+                Buffer.from(await hash(input)).toString('hex')
+            );
+        }
+        if (sign) {
+            const secretKey = nacl.sign.keyPair.fromSeed(
+                Buffer.from(vector.seed, 'hex')
+            ).secretKey;
+            await record(
+                vector.name,
+                'signature',
+                vector.expected.signature,
+                () => Promise.resolve(sign(input, secretKey))
+            );
+        }
+        if (verify) {
+            const signedData: SignDataResult = {
+                ...input,
+                signature: vector.expected.signature,
+            };
+            await record(vector.name, 'verify', 'true', async () =>
+                String(
+                    await verify(
+                        signedData,
+                        Buffer.from(vector.publicKey, 'hex')
+                    )
+                )
+            );
+        }
+    }
+
+    const { verify } = implementation;
+    if (verify) {
+        for (const vector of corpus.invalid) {
+            await record(vector.name, 'verify', 'false', async () => {
+                try {
+                    return String(
+                        await verify(
+                            vector.signedData,
+                            Buffer.from(vector.publicKey, 'hex')
+                        )
+                    );
+                } catch {
+                    return 'false';
+                }
+            });
+        }
+    }
+
+    const failed = checks.filter((c) => !c.passed).length;
+    return {
+        version: corpus.version,
+        passed: checks.length - failed,
+        failed,
+        checks,
+    };
+}
@@ -0,0 +1,80 @@
+import nodeCrypto from 'node:crypto';
+import nacl from 'tweetnacl';
+import {
+    ed25519PrivateKeyDer,
+    naclCryptoProvider,
+    SyncCryptoProvider,
+    syncProvider,
+} from './crypto';
+
+// DER prefix turning a raw Ed25519 public key into an SPKI document
+const SPKI_ED25519_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Node.js native `crypto` (OpenSSL).
+ */
+export const nodeCryptoProvider: SyncCryptoProvider = syncProvider('node', {
+    sha256Sync: (data) => nodeCrypto.createHash('sha256').update(data).digest(),
+    createSha256: () => {
+        const hash = nodeCrypto.createHash('sha256');
+        return {
+            update: (data) => void hash.update(data),
+            digest: () => hash.digest(),
+        };
+    },
+    signSync: (message, secretKey) =>
+        nodeCrypto.sign(
+            null,
+            message,
+            nodeCrypto.createPrivateKey({
+                key: Buffer.from(ed25519PrivateKeyDer(secretKey)),
+                format: 'der',
+                type: 'pkcs8',
+            })
+        ),
+    verifySync: (message, signature, publicKey) => {
+        if (
+            signature.length !== nacl.sign.signatureLength ||
+            publicKey.length !== nacl.sign.publicKeyLength
+        ) {
+            return false;
+        }
+        try {
+            return nodeCrypto.verify(
+                null,
+                message,
+                nodeCrypto.createPublicKey({
+                    key: Buffer.concat([SPKI_ED25519_PREFIX, publicKey]),
+                    format: 'der',
+                    type: 'spki',
+                }),
+                signature
+            );
+        } catch {
+            return false; // not a valid curve point
+        }
+    },
+});
+
+/**
+ * Node.js native provider if this runtime supports Ed25519 keys,
+ * tweetnacl otherwise.
+ */
+export function detectNodeCryptoProvider(): SyncCryptoProvider {
+    try {
+        const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32));
+        const message = new Uint8Array(1);
+        const signature = nodeCryptoProvider.signSync(
+            message,
+            keyPair.secretKey
+        );
+        if (
+            nodeCryptoProvider.verifySync(message, signature, keyPair.publicKey)
+        ) {
+            return nodeCryptoProvider;
+        }
+    } catch {
+        // Ed25519 is not supported by this build of Node.js
+    }
+    return naclCryptoProvider;
+}
@@ -0,0 +1,255 @@
+import { sha256_sync } from '@ton/crypto';
+import nacl from 'tweetnacl';
+import { Sha256, Sha256Hasher } from './sha256';
+
+/**
+ * SHA-256 and Ed25519 implementation.
+ *
+ * Keys use the tweetnacl layout: 64-byte secret key (32-byte seed followed
+ * by the public key) and 32-byte public key.
+ */
+export interface CryptoProvider {
+    readonly name: string;
+    sha256(data: Uint8Array): Promise<Uint8Array>;
+    createSha256?(): Sha256Hasher; // incremental SHA-256, if native
+    sign(message: Uint8Array, secretKey: Uint8Array): Promise<Uint8Array>;
+    verify(
+        message: Uint8Array,
+        signature: Uint8Array,
+        publicKey: Uint8Array
+    ): Promise<boolean>;
+}
+
+/**
+ * Provider that can also work synchronously, as needed by `signData`,
+ * `verifySignData` and the hash builders.
+ */
+export interface SyncCryptoProvider extends CryptoProvider {
+    sha256Sync(data: Uint8Array): Uint8Array;
+    signSync(message: Uint8Array, secretKey: Uint8Array): Uint8Array;
+    verifySync(
+        message: Uint8Array,
+        signature: Uint8Array,
+        publicKey: Uint8Array
+    ): boolean;
+}
+
+/**
+ * Wraps synchronous operations into a full `SyncCryptoProvider`.
+ */
+export function syncProvider(
+    name: string,
+    ops: Pick<
+        SyncCryptoProvider,
+        'sha256Sync' | 'signSync' | 'verifySync' | 'createSha256'
+    >
+): SyncCryptoProvider {
+    return {
+        name,
+        ...ops,
+        sha256: async (data) => ops.sha256Sync(data),
+        sign: async (message, secretKey) => ops.signSync(message, secretKey),
+        verify: async (message, signature, publicKey) =>
+            ops.verifySync(message, signature, publicKey),
+    };
+}
+
+/**
+ * Pure JS: tweetnacl for Ed25519, @ton/crypto for SHA-256. Works in any
+ * runtime and is the default outside Node.js.
+ */
+export const naclCryptoProvider: SyncCryptoProvider = syncProvider('nacl', {
+    sha256Sync: (data) => sha256_sync(Buffer.from(data)),
+    signSync: (message, secretKey) => nacl.sign.detached(message, secretKey),
+    verifySync: (message, signature, publicKey) =>
+        signature.length === nacl.sign.signatureLength &&
+        publicKey.length === nacl.sign.publicKeyLength &&
+        nacl.sign.detached.verify(message, signature, publicKey),
+});
+
+// DER prefix turning a raw Ed25519 seed into a PKCS#8 document
+const PKCS8_ED25519_PREFIX = new Uint8Array([
+    0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70,
+    0x04, 0x22, 0x04, 0x20,
+]);
+
+/**
+ * Wraps the seed of a tweetnacl secret key into PKCS#8 DER.
+ */
+export function ed25519PrivateKeyDer(secretKey: Uint8Array): Uint8Array {
+    if (secretKey.length !== nacl.sign.secretKeyLength) {
+        throw new Error(
+            `Secret key must be ${nacl.sign.secretKeyLength} bytes, got ${secretKey.length}`
+        );
+    }
+    const der = new Uint8Array(PKCS8_ED25519_PREFIX.length + 32);
+    der.set(PKCS8_ED25519_PREFIX);
+    der.set(secretKey.subarray(0, 32), PKCS8_ED25519_PREFIX.length);
+    return der;
+}
+
+/**
+ * WebCrypto (`globalThis.crypto.subtle`), available in browsers, edge
+ * runtimes and Node.js. Asynchronous only.
+ */
+export const webCryptoProvider: CryptoProvider = {
+    name: 'webcrypto',
+    async sha256(data) {
+        return new Uint8Array(await subtle().digest('SHA-256', data));
+    },
+    async sign(message, secretKey) {
+        const key = await subtle().importKey(
+            'pkcs8',
+            ed25519PrivateKeyDer(secretKey),
+            { name: 'Ed25519' },
+            false,
+            ['sign']
+        );
+        return new Uint8Array(
+            await subtle().sign({ name: 'Ed25519' }, key, message)
+        );
+    },
+    async verify(message, signature, publicKey) {
+        if (
+            signature.length !== nacl.sign.signatureLength ||
+            publicKey.length !== nacl.sign.publicKeyLength
+        ) {
+            return false;
+        }
+        try {
+            const key = await subtle().importKey(
+                'raw',
+                publicKey,
+                { name: 'Ed25519' },
+                false,
+                ['verify']
+            );
+            return await subtle().verify(
+                { name: 'Ed25519' },
+                key,
+                signature,
+                message
+            );
+        } catch {
+            return false; // not a valid curve point
+        }
+    },
+};
+
+function subtle(): SubtleCrypto {
+    if (!globalThis.crypto?.subtle) {
+        throw new Error('WebCrypto is not available in this environment');
+    }
+    return globalThis.crypto.subtle;
+}
+
+/**
+ * Incremental SHA-256 of the provider, or the pure JS one if it has none.
+ */
+export function createSha256Hasher(
+    provider: CryptoProvider = getCryptoProvider()
+): Sha256Hasher {
+    return provider.createSha256?.() ?? new Sha256();
+}
+
+const HMAC_BLOCK_SIZE = 64;
+
+// RFC 7518, section 3.2: at least as long as the hash output
+export const MIN_HS256_SECRET_BYTES = 32;
+
+/**
+ * @throws if an HMAC-SHA256 secret (session or challenge tokens) is shorter
+ *         than `MIN_HS256_SECRET_BYTES`
+ */
+export function checkHs256Secret(secret: Uint8Array): void {
+    if (secret.length < MIN_HS256_SECRET_BYTES) {
+        throw new Error(
+            `HS256 secret must be at least ${MIN_HS256_SECRET_BYTES} bytes, got ${secret.length}`
+        );
+    }
+}
+
+/**
+ * HMAC-SHA256 (RFC 2104) on top of the provider's SHA-256, so it works
+ * wherever the provider does.
+ */
+export async function hmacSha256(
+    key: Uint8Array,
+    message: Uint8Array,
+    provider: CryptoProvider = getCryptoProvider()
+): Promise<Uint8Array> {
+    const block = new Uint8Array(HMAC_BLOCK_SIZE);
+    block.set(key.length > HMAC_BLOCK_SIZE ? await provider.sha256(key) : key);
+
+    const pad = (byte: number, data: Uint8Array) => {
+        const padded = new Uint8Array(HMAC_BLOCK_SIZE + data.length);
+        padded.set(block.map((b) => b ^ byte));
+        padded.set(data, HMAC_BLOCK_SIZE);
+        return padded;
+    };
+    const inner = await provider.sha256(pad(0x36, message));
+    return provider.sha256(pad(0x5c, inner));
+}
+
+/**
+ * Compares two byte arrays in time independent of where they differ.
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
+}
+
+export function isSyncCryptoProvider(
+    provider: CryptoProvider
+): provider is SyncCryptoProvider {
+    return 'signSync' in provider;
+}
+
+let defaultProvider: SyncCryptoProvider = naclCryptoProvider;
+let currentProvider: CryptoProvider | undefined;
+
+/**
+ * Replaces the default provider, used when none is selected with
+ * `setCryptoProvider`. The Node.js entry point registers the native one.
+ */
+export function registerDefaultCryptoProvider(
+    provider: SyncCryptoProvider
+): void {
+    defaultProvider = provider;
+}
+
+/**
+ * Selects the provider used by the library; `undefined` restores the
+ * default.
+ *
+ * Synchronous functions (`signData`, `verifySignData`, hash builders) need a
+ * `SyncCryptoProvider`; with an asynchronous-only provider such as
+ * `webCryptoProvider` they keep using the default one, and only the
+ * `...Async` functions use the selected provider.
+ */
+export function setCryptoProvider(provider: CryptoProvider | undefined): void {
+    currentProvider = provider;
+}
+
+/**
+ * Provider used by asynchronous functions.
+ */
+export function getCryptoProvider(): CryptoProvider {
+    return currentProvider ?? getSyncCryptoProvider();
+}
+
+/**
+ * Provider used by synchronous functions.
+ */
+export function getSyncCryptoProvider(): SyncCryptoProvider {
+    if (currentProvider && isSyncCryptoProvider(currentProvider)) {
+        return currentProvider;
+    }
+    return defaultProvider;
+}
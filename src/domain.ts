@@ -0,0 +1,95 @@
+import { encodeDnsName } from './utils';
+
+export interface DomainPolicyOptions {
+    /**
+     * Domains the signature may be issued for:
+     *   • "example.com"   — exactly this domain
+     *   • "*.example.com" — any subdomain of example.com, at any depth,
+     *                       but not example.com itself
+     *
+     * Comparison uses the TEP-81 normalisation of `encodeDnsName`: case,
+     * trailing dot and Unicode vs punycode (IDN) spelling do not matter.
+     */
+    allowedDomains?: string[];
+}
+
+export type DomainFailure = 'malformed_domain' | 'domain_mismatch';
+
+/**
+ * Returns the domain in the form that is actually signed for cell payloads:
+ * lower-case, no trailing dot, IDN labels in punycode ("xn--…").
+ *
+ * @throws if the domain is not valid according to `encodeDnsName`
+ */
+export function normalizeDomain(domain: string): string {
+    const encoded = encodeDnsName(domain);
+    // "com\0example\0" ⇒ ["com", "example"] ⇒ "example.com"
+    return encoded
+        .toString('utf8')
+        .split('\0')
+        .slice(0, -1)
+        .reverse()
+        .join('.');
+}
+
+/**
+ * Checks the signed domain against the allowlist.
+ *
+ * Nothing is checked when `allowedDomains` is not set.
+ *
+ * @returns failure reason, or null if the domain is allowed
+ * @throws if an allowlist entry is not a valid domain pattern
+ */
+export function checkDomain(
+    domain: string,
+    options: DomainPolicyOptions
+): DomainFailure | null {
+    if (!options.allowedDomains) {
+        return null;
+    }
+
+    let encoded: Buffer;
+    try {
+        encoded = encodeDnsName(domain);
+    } catch {
+        return 'malformed_domain';
+    }
+
+    const allowed = options.allowedDomains.some((pattern) =>
+        matchesDomainPattern(encoded, pattern)
+    );
+    return allowed ? null : 'domain_mismatch';
+}
+
+/**
+ * Matches TEP-81 encoded domain against a single allowlist pattern.
+ *
+ * Encoded names are stored in reversed label order ("com\0example\0"), so a
+ * subdomain of example.com is exactly an encoding that extends its prefix.
+ */
+function matchesDomainPattern(encoded: Buffer, pattern: string): boolean {
+    if (!pattern.startsWith('*.')) {
+        return encoded.equals(encodeAllowedDomain(pattern));
+    }
+
+    const parent = encodeAllowedDomain(pattern.slice(2));
+    return (
+        encoded.length > parent.length &&
+        encoded.subarray(0, parent.length).equals(parent)
+    );
+}
+
+function encodeAllowedDomain(domain: string): Buffer {
+    if (domain.includes('*')) {
+        throw new Error(
+            `Invalid allowed domain "${domain}": wildcard is only supported as a leading "*." label`
+        );
+    }
+    try {
+        return encodeDnsName(domain);
+    } catch (e) {
+        throw new Error(
+            `Invalid allowed domain "${domain}": ${(e as Error).message}`
+        );
+    }
+}
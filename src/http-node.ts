@@ -0,0 +1,201 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+    createVerifyHandler,
+    DEFAULT_MAX_BODY_BYTES,
+    handleRawBody,
+    HttpAdapterOptions,
+    internalError,
+    methodNotAllowed,
+    tooLarge,
+    VerifyHandler,
+    VerifyHandlerOptions,
+    VerifyResponse,
+} from './http';
+
+/**
+ * Adapter for the Node.js `http` module, answering every request:
+ *
+ *   http.createServer(toNodeHandler(handler));
+ *
+ * The returned handler never rejects: an unexpected error, e.g. a client
+ * abort while the body is read, answers 500 or closes the connection.
+ */
+export function toNodeHandler(
+    handler: VerifyHandler,
+    options: HttpAdapterOptions = {}
+): (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void> {
+    const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+    return async (req, res) => {
+        try {
+            if (req.method !== 'POST') {
+                return send(res, methodNotAllowed());
+            }
+            const raw = await readBody(req, maxBodyBytes);
+            if (raw === null) {
+                return sendTooLarge(req, res, maxBodyBytes);
+            }
+            send(res, await handleRawBody(handler, raw, maxBodyBytes));
+        } catch {
+            sendInternalError(res);
+        }
+    };
+}
+
+/**
+ * Express request, possibly with a body parsed by `express.json()`.
+ */
+export interface ExpressLikeRequest extends http.IncomingMessage {
+    body?: unknown;
+}
+
+/**
+ * Adapter for an Express route. Uses the body parsed by `express.json()`
+ * if present and reads the request otherwise:
+ *
+ *   app.post('/verify', toExpressMiddleware(handler));
+ */
+export function toExpressMiddleware(
+    handler: VerifyHandler,
+    options: HttpAdapterOptions = {}
+): (
+    req: ExpressLikeRequest,
+    res: http.ServerResponse,
+    next: (error?: unknown) => void
+) => void {
+    const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+    return (req, res, next) => {
+        const respond = async (): Promise<void> => {
+            if (req.body !== undefined) {
+                return send(res, await handler(req.body));
+            }
+            const raw = await readBody(req, maxBodyBytes);
+            if (raw === null) {
+                return sendTooLarge(req, res, maxBodyBytes);
+            }
+            send(res, await handleRawBody(handler, raw, maxBodyBytes));
+        };
+        respond().catch(next);
+    };
+}
+
+export interface VerifyServerOptions
+    extends VerifyHandlerOptions, HttpAdapterOptions {
+    path?: string; // defaults to "/verify"
+}
+
+/**
+ * Reference verification server: `POST /verify` with a
+ * `VerifyRequestBody`, JSON verdict in response. Listens on 127.0.0.1 only.
+ */
+export class VerifyServer {
+    private readonly server: http.Server;
+
+    constructor(options: VerifyServerOptions) {
+        const path = options.path ?? '/verify';
+        const handle = toNodeHandler(createVerifyHandler(options), options);
+
+        this.server = http.createServer((req, res) => {
+            if (new URL(req.url ?? '/', 'http://localhost').pathname !== path) {
+                res.writeHead(404, { 'content-type': 'application/json' });
+                res.end(JSON.stringify({ error: 'Not found' }));
+                return;
+            }
+            void handle(req, res);
+        });
+    }
+
+    /**
+     * Starts listening on the given port, a free one by default.
+     *
+     * @returns base URL of the server
+     */
+    async listen(port = 0): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, '127.0.0.1', () => resolve());
+        });
+        const address = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${address.port}/`;
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve, reject) =>
+            this.server.close((e) => (e ? reject(e) : resolve()))
+        );
+    }
+}
+
+/**
+ * Reads the body, stopping as soon as it exceeds `maxBodyBytes`; the rest
+ * is left unread.
+ *
+ * @returns body as text, or null if it exceeds `maxBodyBytes`
+ * @throws if the request is aborted or fails
+ */
+function readBody(
+    req: http.IncomingMessage,
+    maxBodyBytes: number
+): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const stop = () => {
+            req.off('data', onData);
+            req.off('end', onEnd);
+            req.off('close', onClose);
+        };
+        const onData = (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBodyBytes) {
+                stop();
+                req.pause();
+                resolve(null);
+                return;
+            }
+            chunks.push(chunk);
+        };
+        const onEnd = () => {
+            stop();
+            resolve(Buffer.concat(chunks).toString('utf8'));
+        };
+        const onClose = () => {
+            stop();
+            reject(new Error('Request closed before its end'));
+        };
+        req.on('data', onData);
+        req.on('end', onEnd);
+        req.on('close', onClose);
+        // Kept after stop(): a late error must not go unhandled
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Answers 413 and closes the connection once sent, since the rest of the
+ * body is never read.
+ */
+function sendTooLarge(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    maxBodyBytes: number
+): void {
+    res.setHeader('connection', 'close');
+    res.once('finish', () => req.destroy());
+    send(res, tooLarge(maxBodyBytes));
+}
+
+function sendInternalError(res: http.ServerResponse): void {
+    if (res.headersSent || res.destroyed) {
+        res.destroy();
+        return;
+    }
+    send(res, internalError());
+}
+
+function send(res: http.ServerResponse, response: VerifyResponse): void {
+    res.writeHead(response.status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+}
@@ -0,0 +1,311 @@
+import { Address } from '@ton/core';
+import { SignDataResult } from './types';
+import {
+    VerifyFailureReason,
+    VerifyOptions,
+    verifySignDataAsync,
+} from './verify';
+import { PublicKeyResolver } from './resolver';
+import { normalizeAddress } from './address';
+import {
+    parseSignDataResult,
+    ParseSignDataOptions,
+    SchemaError,
+} from './validate';
+
+/**
+ * Body of a verification request: the sign-data response received from
+ * the wallet through TON Connect, and the account fields that help to
+ * resolve the public key.
+ *
+ *   { "signedData": { "signature": ..., "address": ..., ... },
+ *     "walletStateInit": "<base64>" }
+ */
+export interface VerifyRequestBody {
+    signedData: SignDataResult;
+    walletStateInit?: string; // base64 (not url safe) encoded StateInit BOC
+}
+
+export interface VerifyHandlerOptions
+    extends VerifyOptions, ParseSignDataOptions {
+    resolver: PublicKeyResolver;
+
+    /**
+     * Called once the proof is verified, e.g. to issue a session; the
+     * returned value is sent back as `session`.
+     */
+    onVerified?(
+        signedData: SignDataResult,
+        publicKey: Uint8Array
+    ): unknown | Promise<unknown>;
+}
+
+export type VerifyRejectReason =
+    | VerifyFailureReason
+    | 'malformed_request'
+    | 'payload_too_large'
+    | 'method_not_allowed'
+    | 'internal_error';
+
+export type VerifyVerdict =
+    | {
+          valid: true;
+          address: string;
+          addressRaw: string;
+          addressFriendly: string;
+          domain: string;
+          timestamp: number;
+          session?: unknown;
+      }
+    | {
+          valid: false;
+          reason: VerifyRejectReason;
+          message: string;
+          errors?: SchemaError[]; // for malformed_request
+      };
+
+export interface VerifyResponse {
+    status: number;
+    body: VerifyVerdict;
+}
+
+/**
+ * Turns a parsed JSON request body into a response; never throws.
+ */
+export type VerifyHandler = (body: unknown) => Promise<VerifyResponse>;
+
+/**
+ * Maximum accepted request body, enough for the default payload limits.
+ */
+export const DEFAULT_MAX_BODY_BYTES = 256 * 1024;
+
+/**
+ * Creates the framework-agnostic handler of a "POST a proof" endpoint.
+ *
+ * The body is validated with `parseSignDataResult`, the public key is
+ * resolved through `resolver` (with the request's `walletStateInit` as
+ * context) and the proof is checked with `verifySignDataAsync` and the
+ * domain, freshness, nonce and replay policies of `options`.
+ *
+ * Responds 200 with the verified address (as signed, raw and user-friendly),
+ * domain and timestamp; 400 for
+ * malformed requests; 401 for rejected proofs; 500 if the resolver or
+ * `onVerified` throws.
+ */
+export function createVerifyHandler(
+    options: VerifyHandlerOptions
+): VerifyHandler {
+    const { resolver, onVerified, strict, limits, ...policy } = options;
+
+    return async (body) => {
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+            return reject(
+                400,
+                'malformed_request',
+                'Body must be a JSON object'
+            );
+        }
+        const { signedData, walletStateInit } = body as Record<string, unknown>;
+
+        const parsed = parseSignDataResult(signedData, { strict, limits });
+        if (!parsed.valid) {
+            return {
+                status: 400,
+                body: {
+                    valid: false,
+                    reason: 'malformed_request',
+                    message: 'Invalid signedData',
+                    errors: parsed.errors.map(({ path, message }) => ({
+                        path: path ? `signedData.${path}` : 'signedData',
+                        message,
+                    })),
+                },
+            };
+        }
+        if (
+            walletStateInit !== undefined &&
+            typeof walletStateInit !== 'string'
+        ) {
+            return reject(
+                400,
+                'malformed_request',
+                'walletStateInit must be a string'
+            );
+        }
+
+        try {
+            const publicKey = await resolver.resolvePublicKey(
+                Address.parse(parsed.value.address),
+                { walletStateInit }
+            );
+            if (!publicKey) {
+                return reject(
+                    401,
+                    'public_key_not_found',
+                    'Cannot resolve the public key of the wallet'
+                );
+            }
+
+            const result = await verifySignDataAsync({
+                ...policy,
+                signedData: parsed.value,
+                publicKey,
+            });
+            if (!result.valid) {
+                return reject(401, result.reason, result.message);
+            }
+
+            const { address, domain, timestamp } = parsed.value;
+            const session = await onVerified?.(parsed.value, publicKey);
+            return {
+                status: 200,
+                body: {
+                    valid: true,
+                    address,
+                    ...normalizeAddress(address, policy.network),
+                    domain,
+                    timestamp,
+                    ...(session === undefined ? {} : { session }),
+                },
+            };
+        } catch {
+            return internalError();
+        }
+    };
+}
+
+/**
+ * Runs the handler on a raw request body, checking its size and parsing
+ * it as JSON. Shared by the adapters that read the body themselves.
+ */
+export async function handleRawBody(
+    handler: VerifyHandler,
+    raw: string,
+    maxBodyBytes = DEFAULT_MAX_BODY_BYTES
+): Promise<VerifyResponse> {
+    if (Buffer.byteLength(raw, 'utf8') > maxBodyBytes) {
+        return tooLarge(maxBodyBytes);
+    }
+    let body: unknown;
+    try {
+        body = JSON.parse(raw);
+    } catch {
+        return reject(400, 'malformed_request', 'Body is not valid JSON');
+    }
+    return handler(body);
+}
+
+export function tooLarge(maxBodyBytes: number): VerifyResponse {
+    return reject(
+        413,
+        'payload_too_large',
+        `Body must be at most ${maxBodyBytes} bytes`
+    );
+}
+
+export function methodNotAllowed(): VerifyResponse {
+    return reject(405, 'method_not_allowed', 'Use POST');
+}
+
+export function internalError(): VerifyResponse {
+    return reject(500, 'internal_error', 'Verification failed');
+}
+
+export interface HttpAdapterOptions {
+    maxBodyBytes?: number; // defaults to DEFAULT_MAX_BODY_BYTES
+}
+
+/**
+ * Adapter for Fetch API runtimes: Cloudflare Workers, Deno, Bun, Next.js
+ * route handlers, ...
+ */
+export function toFetchHandler(
+    handler: VerifyHandler,
+    options: HttpAdapterOptions = {}
+): (request: Request) => Promise<Response> {
+    const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+    return async (request) => {
+        let response: VerifyResponse;
+        if (request.method !== 'POST') {
+            response = methodNotAllowed();
+        } else if (
+            Number(request.headers.get('content-length')) > maxBodyBytes
+        ) {
+            response = tooLarge(maxBodyBytes);
+        } else {
+            const raw = await readRequestBody(request, maxBodyBytes);
+            response =
+                raw === null
+                    ? tooLarge(maxBodyBytes)
+                    : await handleRawBody(handler, raw, maxBodyBytes);
+        }
+        return Response.json(response.body, { status: response.status });
+    };
+}
+
+/**
+ * Reads a Fetch API request body, cancelling it as soon as it exceeds
+ * `maxBodyBytes`: a chunked body has no length to check up front.
+ *
+ * @returns body as text, or null if it exceeds `maxBodyBytes`
+ */
+async function readRequestBody(
+    request: Request,
+    maxBodyBytes: number
+): Promise<string | null> {
+    if (!request.body) {
+        return '';
+    }
+    const reader = request.body.getReader();
+    const decoder = new TextDecoder();
+    let raw = '';
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        size += value.length;
+        if (size > maxBodyBytes) {
+            await reader.cancel();
+            return null;
+        }
+        raw += decoder.decode(value, { stream: true });
+    }
+    return raw + decoder.decode();
+}
+
+/**
+ * Parts of Fastify's request and reply used by `toFastifyHandler`.
+ */
+export interface FastifyLikeRequest {
+    body: unknown;
+}
+
+export interface FastifyLikeReply {
+    code(status: number): { send(payload: unknown): unknown };
+}
+
+/**
+ * Adapter for a Fastify route; Fastify parses the JSON body and enforces
+ * its own `bodyLimit`:
+ *
+ *   fastify.post('/verify', toFastifyHandler(handler));
+ */
+export function toFastifyHandler(
+    handler: VerifyHandler
+): (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<void> {
+    return async (request, reply) => {
+        const response = await handler(request.body);
+        await reply.code(response.status).send(response.body);
+    };
+}
+
+function reject(
+    status: number,
+    reason: VerifyRejectReason,
+    message: string
+): VerifyResponse {
+    return { status, body: { valid: false, reason, message } };
+}
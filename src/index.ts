@@ -1,7 +1,8 @@
 import { mnemonicNew, mnemonicToPrivateKey } from '@ton/crypto';
-import { beginCell, Address } from '@ton/core';
+import { Address } from '@ton/core';
 import { signData } from './sign';
 import { verifySignData } from './verify';
+import { createCellPayload } from './tlb-encode';
 
 /**
  * TON Connect data signing demonstration
@@ -57,22 +58,19 @@ console.log(
 // ============= 3. TON Cell Data =============
 console.log('\n3. Signing TON Cell:');
 
-// Create Cell with transaction data
-const cell = beginCell()
-    .storeUint(0x123, 32) // transaction op-code
-    .storeCoins(1_000_000_000n) // amount: 1 TON
-    .storeAddress(Address.parse(address)) // recipient address
-    .storeStringTail('Transfer 1 TON') // transaction comment
-    .endCell();
+// Build Cell from TL-B schema, so the cell always matches the signed schema
+const cellPayload = createCellPayload(
+    'transfer#123 amount:Coins to:MsgAddress comment:string = Transfer',
+    {
+        amount: 1_000_000_000n, // amount: 1 TON
+        to: Address.parse(address), // recipient address
+        comment: 'Transfer 1 TON', // transaction comment
+    }
+);
 
 // Sign the Cell
 const cellSignedData = signData({
-    payload: {
-        type: 'cell',
-        // TL-B schema describes cell structure
-        schema: 'transfer#123 amount:Coins to:MsgAddress comment:string = Transfer',
-        cell: cell.toBoc().toString('base64'),
-    },
+    payload: cellPayload,
     domain,
     privateKey: keyPair.secretKey,
     address,
@@ -0,0 +1,261 @@
+import { Address, Cell } from '@ton/core';
+import {
+    SignDataPayload,
+    SignDataPayloadBinary,
+    SignDataPayloadCell,
+    SignDataPayloadText,
+} from './types';
+import {
+    createCellMessage,
+    createTextBinaryMessageParts,
+    TextBinaryMessagePart,
+} from './utils';
+import { normalizeDomain } from './domain';
+import { getSyncCryptoProvider } from './crypto';
+
+export type CellMessagePart =
+    'prefix' | 'schema_hash' | 'timestamp' | 'address' | 'domain' | 'payload';
+
+/**
+ * Labelled part of a sign-data message.
+ *
+ * Text and binary messages: `offset` and `length` are in bytes from the start
+ * of the message, `hex` is the exact bytes.
+ *
+ * Cell messages: `offset` and `length` are in bits within the envelope cell,
+ * or within the referenced cell when `ref` is set. For `domain` and `payload`
+ * `hex` is the representation hash of the referenced cell, so that a
+ * difference anywhere in the referenced tree shows up.
+ */
+export interface MessageSegment {
+    label: TextBinaryMessagePart | CellMessagePart;
+    offset: number;
+    length: number;
+    hex: string;
+    value: string | number; // decoded for display
+    ref?: number; // index of the envelope reference holding the segment
+}
+
+export interface TextBinaryMessageDebug {
+    kind: 'text_binary';
+    message: Buffer; // exact bytes hashed with SHA-256
+    hash: Buffer;
+    segments: MessageSegment[];
+}
+
+export interface CellMessageDebug {
+    kind: 'cell';
+    message: Cell; // envelope cell whose representation hash is signed
+    hash: Buffer;
+    segments: MessageSegment[];
+}
+
+export type SignDataMessageDebug = TextBinaryMessageDebug | CellMessageDebug;
+
+export interface SegmentDiff {
+    label: MessageSegment['label'];
+    expected: MessageSegment | null; // null if missing in expected message
+    actual: MessageSegment | null; // null if missing in actual message
+}
+
+/**
+ * Builds the message that is hashed and signed, split into labelled segments.
+ *
+ * Produces the same bytes (or envelope cell) as `createTextBinaryHash` and
+ * `createCellHash` use, so `hash` is exactly what the wallet signs.
+ *
+ * @throws if the address, payload or (for cells) domain is malformed
+ */
+export function buildSignDataMessage(params: {
+    payload: SignDataPayload;
+    address: string | Address;
+    domain: string;
+    timestamp: number;
+}): SignDataMessageDebug {
+    const { payload, domain, timestamp } = params;
+    const address =
+        typeof params.address === 'string'
+            ? Address.parse(params.address)
+            : params.address;
+
+    return payload.type === 'cell'
+        ? buildCellMessage(payload, address, domain, timestamp)
+        : buildTextBinaryMessage(payload, address, domain, timestamp);
+}
+
+/**
+ * Builds the text or binary message with labelled byte segments.
+ */
+export function buildTextBinaryMessage(
+    payload: SignDataPayloadText | SignDataPayloadBinary,
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number
+): TextBinaryMessageDebug {
+    const parts = createTextBinaryMessageParts(
+        payload,
+        parsedAddr,
+        domain,
+        timestamp
+    );
+
+    const segments: MessageSegment[] = [];
+    let offset = 0;
+    for (const { label, bytes } of parts) {
+        segments.push({
+            label,
+            offset,
+            length: bytes.length,
+            hex: bytes.toString('hex'),
+            value: describePart(label, bytes, payload),
+        });
+        offset += bytes.length;
+    }
+
+    const message = Buffer.concat(parts.map((part) => part.bytes));
+    return {
+        kind: 'text_binary',
+        message,
+        hash: Buffer.from(getSyncCryptoProvider().sha256Sync(message)),
+        segments,
+    };
+}
+
+function describePart(
+    label: TextBinaryMessagePart,
+    bytes: Buffer,
+    payload: SignDataPayloadText | SignDataPayloadBinary
+): string | number {
+    switch (label) {
+        case 'prefix':
+            return bytes.subarray(2).toString('utf8');
+        case 'workchain':
+            return bytes.readInt32BE();
+        case 'domain_length':
+        case 'payload_length':
+            return bytes.readUInt32BE();
+        case 'timestamp':
+            return bytes.readBigUInt64BE().toString();
+        case 'domain':
+        case 'type':
+            return bytes.toString('utf8');
+        case 'payload':
+            return payload.type === 'text'
+                ? bytes.toString('utf8')
+                : bytes.toString('base64');
+        case 'address_hash':
+            return bytes.toString('hex');
+    }
+}
+
+/**
+ * Builds the cell envelope and describes its fields and references.
+ */
+export function buildCellMessage(
+    payload: SignDataPayloadCell,
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number
+): CellMessageDebug {
+    const message = createCellMessage(payload, parsedAddr, domain, timestamp);
+    const slice = message.beginParse();
+
+    const bitsSegment = (
+        label: CellMessagePart,
+        length: number,
+        value: string | number
+    ): MessageSegment => {
+        const offset = slice.offsetBits;
+        const bits = slice.loadBits(length);
+        return {
+            label,
+            offset,
+            length,
+            // Fift hex, with trailing "_" if not a multiple of 4 bits
+            hex: bits.toString().toLowerCase(),
+            value,
+        };
+    };
+
+    const schemaHash = message.beginParse().skip(32).loadUint(32);
+    const segments = [
+        bitsSegment('prefix', 32, '0x75569022'),
+        bitsSegment('schema_hash', 32, schemaHash),
+        bitsSegment('timestamp', 64, timestamp.toString()),
+        bitsSegment(
+            'address',
+            message.bits.length - slice.offsetBits,
+            parsedAddr.toRawString()
+        ),
+        refSegment('domain', 0, message.refs[0], normalizeDomain(domain)),
+        refSegment(
+            'payload',
+            1,
+            message.refs[1],
+            message.refs[1].hash().toString('hex')
+        ),
+    ];
+
+    return {
+        kind: 'cell',
+        message,
+        hash: Buffer.from(message.hash()),
+        segments,
+    };
+}
+
+function refSegment(
+    label: CellMessagePart,
+    ref: number,
+    cell: Cell,
+    value: string
+): MessageSegment {
+    return {
+        label,
+        offset: 0,
+        length: cell.bits.length,
+        hex: cell.hash().toString('hex'),
+        value,
+        ref,
+    };
+}
+
+/**
+ * Compares two messages segment by segment, e.g. the one built locally with
+ * the one reconstructed from a wallet's response.
+ *
+ * A segment differs when its bytes or its position differ; a shifted
+ * position usually points at a length mismatch in an earlier segment.
+ *
+ * @returns differing segments in message order, empty if the messages match
+ */
+export function diffSignDataMessages(
+    expected: SignDataMessageDebug,
+    actual: SignDataMessageDebug
+): SegmentDiff[] {
+    const labels = [
+        ...new Set([
+            ...expected.segments.map((s) => s.label),
+            ...actual.segments.map((s) => s.label),
+        ]),
+    ];
+
+    const diffs: SegmentDiff[] = [];
+    for (const label of labels) {
+        const a = expected.segments.find((s) => s.label === label) ?? null;
+        const b = actual.segments.find((s) => s.label === label) ?? null;
+        if (!a || !b || !sameSegment(a, b)) {
+            diffs.push({ label, expected: a, actual: b });
+        }
+    }
+    return diffs;
+}
+
+function sameSegment(a: MessageSegment, b: MessageSegment): boolean {
+    return (
+        a.hex === b.hex &&
+        a.offset === b.offset &&
+        a.length === b.length &&
+        a.ref === b.ref
+    );
+}
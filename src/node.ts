@@ -0,0 +1,15 @@
+/**
+ * Entry point for Node.js: everything from the browser entry, the native
+ * crypto provider (selected by default) and Node.js-only helpers.
+ */
+import { registerDefaultCryptoProvider } from './crypto';
+import { detectNodeCryptoProvider } from './crypto-node';
+
+registerDefaultCryptoProvider(detectNodeCryptoProvider());
+
+export * from './browser';
+export * from './crypto-node';
+export * from './signing-server';
+export * from './http-node';
+export * from './batch';
+export * from './conformance';
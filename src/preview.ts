@@ -0,0 +1,281 @@
+import { Address, Cell } from '@ton/core';
+import punycode from 'punycode/punycode.js';
+import { SignDataPayload } from './types';
+import { normalizeDomain } from './domain';
+import { TlbValue, validateTlbCell } from './tlb-decode';
+import { getSyncCryptoProvider } from './crypto';
+import { isBase64 } from './utils';
+
+export type PreviewWarning =
+    | { kind: 'control_character'; index: number; codePoint: string }
+    | { kind: 'bidi_override'; index: number; codePoint: string }
+    | { kind: 'invisible_character'; index: number; codePoint: string }
+    | { kind: 'invalid_domain'; message: string }
+    | {
+          kind: 'schema_mismatch';
+          message: string;
+          field: string;
+          bitOffset: number;
+      }
+    | { kind: 'malformed_payload'; message: string };
+
+export interface PreviewDomain {
+    original: string;
+    normalized: string | null; // lower-case, punycode; null if invalid
+    unicode: string | null; // IDN labels decoded for display
+}
+
+export interface PreviewAddress {
+    friendly: string; // non-bounceable user-friendly form
+    raw: string; // "<workchain>:<hex>"
+    workchain: number;
+    testOnly: boolean;
+}
+
+export type PayloadPreview =
+    | {
+          type: 'text';
+          text: string; // suspicious characters replaced with "[U+XXXX]"
+          length: number;
+      }
+    | {
+          type: 'binary';
+          size: number;
+          sha256: string; // hex
+          hexDump: string;
+          truncated: boolean;
+      }
+    | {
+          type: 'cell';
+          schema: string;
+          cellHash: string | null; // hex representation hash
+          fields: TlbValue | null; // null if cell does not match schema
+      }
+    | {
+          type: 'unsupported'; // unknown type or fields of the wrong form
+          payloadType: string;
+      };
+
+export interface SignPreview {
+    domain: PreviewDomain;
+    address: PreviewAddress;
+    payload: PayloadPreview;
+    warnings: PreviewWarning[];
+}
+
+export interface SignPreviewOptions {
+    maxDumpBytes?: number; // bytes shown in binary hex dump, default 256
+    maxCells?: number; // cells decoded for a cell payload, see `validateTlbCell`
+}
+
+/**
+ * Describes what the user is about to sign, for wallet confirmation screens.
+ *
+ * - text:   sanitized text; control characters, bidi overrides and
+ *           invisible characters are replaced by "[U+XXXX]" and flagged
+ * - binary: size, SHA-256 and a hex dump
+ * - cell:   fields decoded with the TL-B schema
+ *
+ * Never throws on a malformed payload or domain, problems are reported in
+ * `warnings`. A payload of unknown type, or whose fields have the wrong
+ * form (e.g. binary data that is not base64), is shown as `unsupported`.
+ *
+ * @throws if `address` is not a valid TON address
+ */
+export function renderSignPreview(
+    payload: SignDataPayload,
+    domain: string,
+    address: string,
+    options: SignPreviewOptions = {}
+): SignPreview {
+    const warnings: PreviewWarning[] = [];
+
+    return {
+        domain: previewDomain(domain, warnings),
+        address: previewAddress(address),
+        payload: previewPayload(payload, options, warnings),
+        warnings,
+    };
+}
+
+function previewDomain(
+    domain: string,
+    warnings: PreviewWarning[]
+): PreviewDomain {
+    try {
+        const normalized = normalizeDomain(domain);
+        return {
+            original: domain,
+            normalized,
+            unicode: punycode.toUnicode(normalized),
+        };
+    } catch (e) {
+        warnings.push({
+            kind: 'invalid_domain',
+            message: (e as Error).message,
+        });
+        return { original: domain, normalized: null, unicode: null };
+    }
+}
+
+function previewAddress(address: string): PreviewAddress {
+    const testOnly = Address.isFriendly(address)
+        ? Address.parseFriendly(address).isTestOnly
+        : false;
+    const parsed = Address.parse(address);
+
+    return {
+        friendly: parsed.toString({ bounceable: false, testOnly }),
+        raw: parsed.toRawString(),
+        workchain: parsed.workChain,
+        testOnly,
+    };
+}
+
+function previewPayload(
+    payload: SignDataPayload,
+    options: SignPreviewOptions,
+    warnings: PreviewWarning[]
+): PayloadPreview {
+    const unsupported = (message: string): PayloadPreview => {
+        warnings.push({ kind: 'malformed_payload', message });
+        return { type: 'unsupported', payloadType: String(payload.type) };
+    };
+
+    switch (payload.type) {
+        case 'text':
+            if (typeof payload.text !== 'string') {
+                return unsupported('Text payload must be a string');
+            }
+            return {
+                type: 'text',
+                text: sanitizeText(payload.text, warnings),
+                length: payload.text.length,
+            };
+        case 'binary': {
+            if (typeof payload.bytes !== 'string' || !isBase64(payload.bytes)) {
+                return unsupported('Binary payload must be base64');
+            }
+            const bytes = Buffer.from(payload.bytes, 'base64');
+            const maxDumpBytes = options.maxDumpBytes ?? 256;
+            return {
+                type: 'binary',
+                size: bytes.length,
+                sha256: Buffer.from(
+                    getSyncCryptoProvider().sha256Sync(bytes)
+                ).toString('hex'),
+                hexDump: hexDump(bytes.subarray(0, maxDumpBytes)),
+                truncated: bytes.length > maxDumpBytes,
+            };
+        }
+        case 'cell':
+            if (
+                typeof payload.schema !== 'string' ||
+                typeof payload.cell !== 'string'
+            ) {
+                return unsupported(
+                    'Cell payload schema and cell must be strings'
+                );
+            }
+            return previewCell(payload.schema, payload.cell, options, warnings);
+        default:
+            return unsupported(
+                `Unsupported payload type "${String((payload as { type: unknown }).type)}"`
+            );
+    }
+}
+
+function previewCell(
+    schema: string,
+    boc: string,
+    options: SignPreviewOptions,
+    warnings: PreviewWarning[]
+): PayloadPreview {
+    let cellHash: string | null = null;
+    try {
+        cellHash = Cell.fromBase64(boc).hash().toString('hex');
+    } catch (e) {
+        warnings.push({
+            kind: 'malformed_payload',
+            message: `Invalid cell BOC: ${(e as Error).message}`,
+        });
+        return { type: 'cell', schema, cellHash, fields: null };
+    }
+
+    const validation = validateTlbCell(schema, boc, {
+        maxCells: options.maxCells,
+    });
+    if (!validation.valid) {
+        warnings.push({
+            kind: 'schema_mismatch',
+            message: validation.message,
+            field: validation.field,
+            bitOffset: validation.bitOffset,
+        });
+        return { type: 'cell', schema, cellHash, fields: null };
+    }
+    return { type: 'cell', schema, cellHash, fields: validation.value };
+}
+
+// C0 controls except tab and line feed, DEL and C1 controls
+const CONTROL_RE = /[\u0000-\u0008\u000b-\u001f\u007f-\u009f]/;
+// Arabic letter mark, embeddings, overrides and isolates that reorder
+// displayed text
+const BIDI_RE = /[\u061c\u202a-\u202e\u2066-\u2069]/;
+// Zero-width and other characters that render as nothing
+const INVISIBLE_RE = /[\u200b-\u200f\u2060-\u2064\ufeff]/;
+
+/**
+ * Replaces characters that can hide or disguise the signed text with a
+ * visible "[U+XXXX]" marker, and records a warning for each of them.
+ */
+function sanitizeText(text: string, warnings: PreviewWarning[]): string {
+    let result = '';
+    let index = 0;
+    for (const char of text) {
+        const kind = CONTROL_RE.test(char)
+            ? 'control_character'
+            : BIDI_RE.test(char)
+              ? 'bidi_override'
+              : INVISIBLE_RE.test(char)
+                ? 'invisible_character'
+                : null;
+
+        if (kind) {
+            const codePoint =
+                'U+' +
+                char
+                    .codePointAt(0)!
+                    .toString(16)
+                    .toUpperCase()
+                    .padStart(4, '0');
+            warnings.push({ kind, index, codePoint });
+            result += `[${codePoint}]`;
+        } else {
+            result += char;
+        }
+        index += char.length;
+    }
+    return result;
+}
+
+/**
+ * Classic hex dump: offset, 16 bytes in hex, printable ASCII.
+ */
+function hexDump(bytes: Buffer): string {
+    const lines: string[] = [];
+    for (let offset = 0; offset < bytes.length; offset += 16) {
+        const chunk = bytes.subarray(offset, offset + 16);
+        const hex = [...chunk]
+            .map((b) => b.toString(16).padStart(2, '0'))
+            .join(' ')
+            .padEnd(47);
+        const ascii = [...chunk]
+            .map((b) => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'))
+            .join('');
+        lines.push(
+            `${offset.toString(16).padStart(8, '0')}  ${hex}  |${ascii}|`
+        );
+    }
+    return lines.join('\n');
+}
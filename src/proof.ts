@@ -0,0 +1,106 @@
+import { Address } from '@ton/core';
+import { SignDataResult, TonProof } from './types';
+import {
+    VerifyOptions,
+    VerifyResult,
+    verifySignDataAsync,
+    verifySignDataDetailed,
+} from './verify';
+import { verifyTonProofAsync, verifyTonProofDetailed } from './ton-proof';
+import { PublicKeyResolver, ResolveContext } from './resolver';
+
+/**
+ * Either proof a TON Connect wallet can produce: a sign-data response, or
+ * a `ton_proof` connect item reply with the account address.
+ */
+export type Proof =
+    | { type: 'sign_data'; signedData: SignDataResult }
+    | { type: 'ton_proof'; address: string; proof: TonProof };
+
+export interface VerifyProofParams extends VerifyOptions {
+    proof: Proof;
+    publicKey: Uint8Array;
+}
+
+/**
+ * Verifies a proof of either type, with the same options and failure
+ * reasons.
+ *
+ * @param params Verification parameters
+ * @returns true if signature is valid
+ */
+export function verifyProof(params: VerifyProofParams): boolean {
+    return verifyProofDetailed(params).valid;
+}
+
+/**
+ * Verifies a proof of either type and explains why it was rejected.
+ *
+ * @param params Verification parameters
+ * @returns `{ valid: true }` or the first failed check
+ */
+export function verifyProofDetailed(params: VerifyProofParams): VerifyResult {
+    const { proof, ...rest } = params;
+    return proof.type === 'sign_data'
+        ? verifySignDataDetailed({ ...rest, signedData: proof.signedData })
+        : verifyTonProofDetailed({
+              ...rest,
+              address: proof.address,
+              proof: proof.proof,
+          });
+}
+
+/**
+ * Same as `verifyProofDetailed`, hashing and checking the signature with
+ * the selected crypto provider even if it is asynchronous-only (e.g.
+ * WebCrypto).
+ */
+export async function verifyProofAsync(
+    params: VerifyProofParams
+): Promise<VerifyResult> {
+    const { proof, ...rest } = params;
+    return proof.type === 'sign_data'
+        ? verifySignDataAsync({ ...rest, signedData: proof.signedData })
+        : verifyTonProofAsync({
+              ...rest,
+              address: proof.address,
+              proof: proof.proof,
+          });
+}
+
+export interface VerifyProofWithResolverParams extends VerifyOptions {
+    proof: Proof;
+    resolver: PublicKeyResolver;
+    context?: ResolveContext;
+}
+
+/**
+ * Verifies a proof of either type, resolving the public key of the signer
+ * through a `PublicKeyResolver`.
+ *
+ * @param params Verification parameters
+ * @returns true if public key was resolved and signature is valid
+ */
+export async function verifyProofWithResolver(
+    params: VerifyProofWithResolverParams
+): Promise<boolean> {
+    const { proof, resolver, context, ...options } = params;
+    const publicKey = await resolver.resolvePublicKey(
+        Address.parse(proofAddress(proof)),
+        context
+    );
+    if (!publicKey) {
+        return false;
+    }
+
+    return verifyProof({ ...options, proof, publicKey });
+}
+
+/**
+ * @returns address of the account that signed the proof
+ */
+export function proofAddress(proof: Proof): string {
+    return proof.type === 'sign_data'
+        ? proof.signedData.address
+        : proof.address;
+}
@@ -0,0 +1,9 @@
+// Userland punycode package, bundled instead of the deprecated Node.js
+// built-in so that the library also runs in browsers and edge runtimes.
+declare module 'punycode/punycode.js' {
+    const punycode: {
+        toASCII(domain: string): string;
+        toUnicode(domain: string): string;
+    };
+    export default punycode;
+}
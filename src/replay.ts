@@ -0,0 +1,195 @@
+import { Cell } from '@ton/core';
+import { SignDataPayload } from './types';
+
+export interface FreshnessOptions {
+    maxAgeSeconds?: number; // reject signatures older than this
+    maxFutureSkewSeconds?: number; // allowed clock skew into the future, default 60
+    now?: number; // current unix time in seconds, defaults to Date.now()
+}
+
+export type FreshnessFailure = 'expired' | 'timestamp_in_future';
+
+export const DEFAULT_MAX_FUTURE_SKEW_SECONDS = 60;
+
+export function unixNow(): number {
+    return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Checks signature timestamp against the freshness window.
+ *
+ * Nothing is checked unless `maxAgeSeconds` or `maxFutureSkewSeconds` is set,
+ * which keeps plain `verifySignData` calls backward compatible.
+ *
+ * @returns failure reason, or null if the timestamp is acceptable
+ */
+export function checkFreshness(
+    timestamp: number,
+    options: FreshnessOptions
+): FreshnessFailure | null {
+    const { maxAgeSeconds, maxFutureSkewSeconds } = options;
+    if (maxAgeSeconds === undefined && maxFutureSkewSeconds === undefined) {
+        return null;
+    }
+
+    const now = options.now ?? unixNow();
+    const skew = maxFutureSkewSeconds ?? DEFAULT_MAX_FUTURE_SKEW_SECONDS;
+    if (timestamp > now + skew) {
+        return 'timestamp_in_future';
+    }
+    if (maxAgeSeconds !== undefined && timestamp < now - maxAgeSeconds) {
+        return 'expired';
+    }
+    return null;
+}
+
+/**
+ * Checks that the nonce issued by the server is embedded in the payload.
+ *
+ * - text:   the text contains the nonce
+ * - binary: the bytes contain the UTF-8 encoded nonce
+ * - cell:   some cell of the tree contains the UTF-8 encoded nonce bits,
+ *           at any bit offset
+ */
+export function payloadContainsNonce(
+    payload: SignDataPayload,
+    nonce: string
+): boolean {
+    switch (payload.type) {
+        case 'text':
+            return payload.text.includes(nonce);
+        case 'binary':
+            return Buffer.from(payload.bytes, 'base64').includes(
+                Buffer.from(nonce, 'utf8')
+            );
+        case 'cell':
+            return cellContainsBits(
+                Cell.fromBase64(payload.cell),
+                bufferToBits(Buffer.from(nonce, 'utf8')),
+                new Set()
+            );
+    }
+}
+
+function bufferToBits(buf: Buffer): string {
+    return [...buf].map((b) => b.toString(2).padStart(8, '0')).join('');
+}
+
+function cellToBits(cell: Cell): string {
+    let bits = '';
+    for (let i = 0; i < cell.bits.length; i++) {
+        bits += cell.bits.at(i) ? '1' : '0';
+    }
+    return bits;
+}
+
+function cellContainsBits(
+    cell: Cell,
+    bits: string,
+    seen: Set<string>
+): boolean {
+    const hash = cell.hash().toString('hex');
+    if (seen.has(hash)) {
+        return false;
+    }
+    seen.add(hash);
+
+    if (cellToBits(cell).includes(bits)) {
+        return true;
+    }
+    return cell.refs.some((ref) => cellContainsBits(ref, bits, seen));
+}
+
+/**
+ * Remembers signatures that were already accepted, so each one can be used
+ * only once within its validity window.
+ *
+ * Implement on top of Redis, a database, etc. to share state between
+ * backend instances. Such stores answer with a promise and need the
+ * `...Async` verification functions; the synchronous ones throw on them.
+ */
+export interface SeenSignatureStore {
+    /**
+     * Marks the key as seen until `expiresAt` (unix seconds).
+     *
+     * @returns true if the key was not seen before (or its entry expired),
+     *          false if this is a replay
+     * @throws (or rejects) if the key cannot be recorded, which fails the
+     *         verification rather than risking a replay: with a
+     *         `replay_store_full` failure for `SeenSignatureStoreFullError`,
+     *         by throwing through the verification call otherwise
+     */
+    markSeen(key: string, expiresAt: number): Promise<boolean> | boolean;
+}
+
+/**
+ * Thrown by a `SeenSignatureStore` that has no room left for a new key.
+ * Verification reports it as a `replay_store_full` failure.
+ */
+export class SeenSignatureStoreFullError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SeenSignatureStoreFullError';
+    }
+}
+
+export interface InMemorySeenSignatureStoreOptions {
+    maxEntries?: number; // default 10000
+    now?: () => number; // current unix time in seconds
+}
+
+/**
+ * In-memory `SeenSignatureStore` for a single backend instance.
+ *
+ * Expired entries are dropped when the store is full. Entries that are
+ * still valid are never dropped: when `maxEntries` of them are live, new
+ * keys are refused and verification fails with `replay_store_full`, so size
+ * `maxEntries` to cover the number of signatures expected within
+ * `maxAgeSeconds`.
+ */
+export class InMemorySeenSignatureStore implements SeenSignatureStore {
+    private readonly entries = new Map<string, number>();
+    private readonly maxEntries: number;
+    private readonly now: () => number;
+
+    constructor(options: InMemorySeenSignatureStoreOptions = {}) {
+        this.maxEntries = options.maxEntries ?? 10_000;
+        this.now = options.now ?? unixNow;
+    }
+
+    /**
+     * @throws SeenSignatureStoreFullError if the store is full of entries
+     *         that have not expired
+     */
+    markSeen(key: string, expiresAt: number): boolean {
+        const now = this.now();
+        const existing = this.entries.get(key);
+        if (existing !== undefined && existing >= now) {
+            return false;
+        }
+        this.entries.delete(key);
+
+        if (this.entries.size >= this.maxEntries) {
+            this.dropExpired(now);
+        }
+        if (this.entries.size >= this.maxEntries) {
+            throw new SeenSignatureStoreFullError(
+                `Seen signature store is full: ${this.maxEntries} entries have not expired`
+            );
+        }
+        this.entries.set(key, expiresAt);
+        return true;
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    private dropExpired(now: number): void {
+        for (const [key, expiresAt] of this.entries) {
+            if (expiresAt < now) {
+                this.entries.delete(key);
+            }
+        }
+    }
+}
@@ -0,0 +1,191 @@
+import { Address, TupleItem, TupleReader } from '@ton/core';
+import { publicKeyFromStateInit } from './state-init';
+
+/**
+ * Extra data that may help to resolve the public key, e.g. the account
+ * fields received from TON Connect.
+ */
+export interface ResolveContext {
+    walletStateInit?: string; // base64 (not url safe) encoded StateInit BOC
+}
+
+/**
+ * Resolves the Ed25519 public key that controls a wallet address.
+ */
+export interface PublicKeyResolver {
+    /**
+     * @returns public key, or null if it cannot be resolved
+     */
+    resolvePublicKey(
+        address: Address,
+        context?: ResolveContext
+    ): Promise<Buffer | null>;
+}
+
+/**
+ * Minimal chain access needed by `ChainPublicKeyResolver`.
+ *
+ * The library never talks to the network itself; implement this interface
+ * on top of toncenter, tonapi, a lite-client, etc.
+ */
+export interface ChainProvider {
+    /**
+     * Runs a get-method of a deployed contract.
+     *
+     * @returns result stack, or null if the contract is not active
+     *          or the method failed with a non-zero exit code
+     */
+    runGetMethod(address: Address, method: string): Promise<TupleItem[] | null>;
+}
+
+/**
+ * Resolves the public key from the wallet StateInit passed in the context.
+ */
+export class StateInitPublicKeyResolver implements PublicKeyResolver {
+    async resolvePublicKey(
+        address: Address,
+        context?: ResolveContext
+    ): Promise<Buffer | null> {
+        if (!context?.walletStateInit) {
+            return null;
+        }
+        return publicKeyFromStateInit(context.walletStateInit, address);
+    }
+}
+
+/**
+ * Resolves the public key of a deployed wallet by calling its
+ * `get_public_key` get-method.
+ */
+export class ChainPublicKeyResolver implements PublicKeyResolver {
+    constructor(private readonly provider: ChainProvider) {}
+
+    async resolvePublicKey(address: Address): Promise<Buffer | null> {
+        const stack = await this.provider.runGetMethod(
+            address,
+            'get_public_key'
+        );
+        if (!stack || stack.length === 0 || stack[0].type !== 'int') {
+            return null;
+        }
+
+        const value = new TupleReader(stack).readBigNumber();
+        if (value < 0n || value >= 1n << 256n) {
+            return null;
+        }
+        return Buffer.from(value.toString(16).padStart(64, '0'), 'hex');
+    }
+}
+
+/**
+ * Tries resolvers in order and returns the first resolved key.
+ *
+ * A typical setup checks the StateInit first (no network round-trip) and
+ * falls back to the chain for wallets that are already deployed.
+ */
+export class FallbackPublicKeyResolver implements PublicKeyResolver {
+    private readonly resolvers: PublicKeyResolver[];
+
+    constructor(...resolvers: PublicKeyResolver[]) {
+        this.resolvers = resolvers;
+    }
+
+    async resolvePublicKey(
+        address: Address,
+        context?: ResolveContext
+    ): Promise<Buffer | null> {
+        for (const resolver of this.resolvers) {
+            const publicKey = await resolver.resolvePublicKey(address, context);
+            if (publicKey) {
+                return publicKey;
+            }
+        }
+        return null;
+    }
+}
+
+export interface CachingResolverOptions {
+    ttlMs: number;
+    now?: () => number; // defaults to Date.now
+}
+
+/**
+ * Caches resolved public keys per address for `ttlMs`.
+ *
+ * Only successful lookups are cached, so a wallet deployed after the first
+ * attempt is picked up on the next call.
+ */
+export class CachingPublicKeyResolver implements PublicKeyResolver {
+    private readonly cache = new Map<
+        string,
+        { publicKey: Buffer; expiresAt: number }
+    >();
+    private readonly now: () => number;
+
+    constructor(
+        private readonly inner: PublicKeyResolver,
+        private readonly options: CachingResolverOptions
+    ) {
+        this.now = options.now ?? Date.now;
+    }
+
+    async resolvePublicKey(
+        address: Address,
+        context?: ResolveContext
+    ): Promise<Buffer | null> {
+        const key = address.toRawString();
+        const cached = this.cache.get(key);
+        if (cached && cached.expiresAt > this.now()) {
+            return cached.publicKey;
+        }
+        this.cache.delete(key);
+
+        const publicKey = await this.inner.resolvePublicKey(address, context);
+        if (publicKey) {
+            this.cache.set(key, {
+                publicKey,
+                expiresAt: this.now() + this.options.ttlMs,
+            });
+        }
+        return publicKey;
+    }
+
+    clear(): void {
+        this.cache.clear();
+    }
+}
+
+/**
+ * In-memory `ChainProvider` for tests and local development.
+ */
+export class InMemoryChainProvider implements ChainProvider {
+    private readonly contracts = new Map<string, Map<string, TupleItem[]>>();
+
+    /** Number of `runGetMethod` calls made so far. */
+    calls = 0;
+
+    /**
+     * Registers a deployed wallet answering `get_public_key`.
+     */
+    setPublicKey(address: Address, publicKey: Buffer): this {
+        return this.setGetMethod(address, 'get_public_key', [
+            { type: 'int', value: BigInt('0x' + publicKey.toString('hex')) },
+        ]);
+    }
+
+    setGetMethod(address: Address, method: string, stack: TupleItem[]): this {
+        const key = address.toRawString();
+        const methods = this.contracts.get(key) ?? new Map();
+        methods.set(method, stack);
+        this.contracts.set(key, methods);
+        return this;
+    }
+
+    async runGetMethod(
+        address: Address,
+        method: string
+    ): Promise<TupleItem[] | null> {
+        this.calls++;
+        return this.contracts.get(address.toRawString())?.get(method) ?? null;
+    }
+}
@@ -0,0 +1,305 @@
+import { Address, Cell } from '@ton/core';
+import nacl from 'tweetnacl';
+import { SignDataPayload, SignDataResult } from './types';
+import { VerifyParams, VerifyFailure, verifySignDataAsync } from './verify';
+import { unixNow } from './replay';
+import {
+    checkHs256Secret,
+    getCryptoProvider,
+    hmacSha256,
+    timingSafeEqual,
+} from './crypto';
+
+export type SessionAlgorithm = 'HS256' | 'EdDSA';
+
+/**
+ * Key that signs session tokens: a shared secret of at least
+ * `MIN_HS256_SECRET_BYTES` for HS256, or a 64-byte Ed25519 secret key
+ * (seed || public key) for EdDSA.
+ */
+export type SessionSigningKey =
+    | { alg: 'HS256'; secret: Uint8Array }
+    | { alg: 'EdDSA'; secretKey: Uint8Array };
+
+/**
+ * Key that checks session tokens; also fixes the accepted algorithm.
+ */
+export type SessionVerificationKey =
+    | { alg: 'HS256'; secret: Uint8Array }
+    | { alg: 'EdDSA'; publicKey: Uint8Array };
+
+/**
+ * JWT claims of a session token.
+ */
+export interface SessionClaims {
+    iss?: string;
+    sub: string; // wallet address, raw form "0:<hex>"
+    aud: string; // domain the data was signed for
+    iat: number;
+    exp: number;
+    ton_wc: number; // workchain of the address
+    ton_ts: number; // timestamp of the signed data
+    ton_payload_type: SignDataPayload['type'];
+    ton_payload_hash: string; // hex, see payloadDigest
+}
+
+export interface IssueSessionOptions {
+    key: SessionSigningKey;
+    ttlSeconds?: number; // defaults to DEFAULT_SESSION_TTL_SECONDS
+    issuer?: string;
+    now?: number; // current unix time in seconds, defaults to Date.now()
+}
+
+export interface VerifySessionOptions {
+    key: SessionVerificationKey;
+    issuer?: string; // required `iss`, if set
+    audience?: string | string[]; // allowed domains, if set
+    clockSkewSeconds?: number; // defaults to 60
+    now?: number; // current unix time in seconds, defaults to Date.now()
+}
+
+export type SessionFailureReason =
+    | 'malformed_token'
+    | 'unsupported_algorithm'
+    | 'invalid_signature'
+    | 'malformed_claims'
+    | 'expired'
+    | 'not_yet_valid'
+    | 'issuer_mismatch'
+    | 'audience_mismatch';
+
+export type SessionResult =
+    | { valid: true; claims: SessionClaims }
+    | { valid: false; reason: SessionFailureReason; message: string };
+
+export const DEFAULT_SESSION_TTL_SECONDS = 3600;
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Digest of the signed payload, bound into the `ton_payload_hash` claim:
+ * SHA-256 of the text (UTF-8) or bytes, or the representation hash of
+ * the cell.
+ *
+ * @returns hex digest
+ */
+export async function payloadDigest(payload: SignDataPayload): Promise<string> {
+    switch (payload.type) {
+        case 'text':
+            return hex(
+                await getCryptoProvider().sha256(Buffer.from(payload.text))
+            );
+        case 'binary':
+            return hex(
+                await getCryptoProvider().sha256(
+                    Buffer.from(payload.bytes, 'base64')
+                )
+            );
+        case 'cell':
+            return hex(Cell.fromBase64(payload.cell).hash());
+    }
+}
+
+/**
+ * Issues a JWT session token for signed data.
+ *
+ * The data is not checked: call only after verification succeeded, or use
+ * `verifyAndIssueSession`.
+ *
+ * @returns compact JWT
+ * @throws if the signing key has an invalid length
+ */
+export async function issueSessionToken(
+    signedData: SignDataResult,
+    options: IssueSessionOptions
+): Promise<string> {
+    return signSession(await sessionClaims(signedData, options), options.key);
+}
+
+async function sessionClaims(
+    signedData: SignDataResult,
+    options: IssueSessionOptions
+): Promise<SessionClaims> {
+    const address = Address.parse(signedData.address);
+    const iat = options.now ?? unixNow();
+    return {
+        ...(options.issuer === undefined ? {} : { iss: options.issuer }),
+        sub: address.toRawString(),
+        aud: signedData.domain,
+        iat,
+        exp: iat + (options.ttlSeconds ?? DEFAULT_SESSION_TTL_SECONDS),
+        ton_wc: address.workChain,
+        ton_ts: signedData.timestamp,
+        ton_payload_type: signedData.payload.type,
+        ton_payload_hash: await payloadDigest(signedData.payload),
+    };
+}
+
+async function signSession(
+    claims: SessionClaims,
+    key: SessionSigningKey
+): Promise<string> {
+    const signingInput = `${encodeJson({ alg: key.alg, typ: 'JWT' })}.${encodeJson(claims)}`;
+    const signature = await signJwt(key, Buffer.from(signingInput));
+    return `${signingInput}.${Buffer.from(signature).toString('base64url')}`;
+}
+
+/**
+ * Checks the signature and claims of a session token.
+ *
+ * Only the algorithm of `key` is accepted, whatever the token header says.
+ *
+ * @returns claims, or the first failed check
+ * @throws if `key` is an HS256 secret shorter than `MIN_HS256_SECRET_BYTES`
+ */
+export async function verifySessionToken(
+    token: string,
+    options: VerifySessionOptions
+): Promise<SessionResult> {
+    if (options.key.alg === 'HS256') {
+        checkHs256Secret(options.key.secret);
+    }
+    const parts = token.split('.');
+    if (parts.length !== 3 || !parts.every((p) => /^[\w-]+$/.test(p))) {
+        return fail('malformed_token', 'Token must be a compact JWT');
+    }
+
+    const header = decodeJson(parts[0]);
+    if (header?.alg !== options.key.alg) {
+        return fail(
+            'unsupported_algorithm',
+            `Token algorithm must be ${options.key.alg}`
+        );
+    }
+    const valid = await verifyJwt(
+        options.key,
+        Buffer.from(`${parts[0]}.${parts[1]}`),
+        Buffer.from(parts[2], 'base64url')
+    );
+    if (!valid) {
+        return fail('invalid_signature', 'Token signature does not match');
+    }
+
+    const claims = decodeJson(parts[1]);
+    if (!isSessionClaims(claims)) {
+        return fail('malformed_claims', 'Token is not a sign-data session');
+    }
+
+    const now = options.now ?? unixNow();
+    const skew = options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS;
+    if (now >= claims.exp + skew) {
+        return fail('expired', 'Token has expired');
+    }
+    if (claims.iat > now + skew) {
+        return fail('not_yet_valid', 'Token is issued in the future');
+    }
+    if (options.issuer !== undefined && claims.iss !== options.issuer) {
+        return fail(
+            'issuer_mismatch',
+            `Token issuer must be "${options.issuer}"`
+        );
+    }
+    if (options.audience !== undefined) {
+        const audience = [options.audience].flat();
+        if (!audience.includes(claims.aud)) {
+            return fail(
+                'audience_mismatch',
+                `Token domain "${claims.aud}" is not allowed`
+            );
+        }
+    }
+    return { valid: true, claims };
+}
+
+/**
+ * Verifies signed data with `verifySignDataAsync` and issues a session
+ * token for it: a whole sign-data login in one call.
+ *
+ * @returns token and its claims, or the failed verification check
+ * @throws if the signing key has an invalid length
+ */
+export async function verifyAndIssueSession(
+    params: VerifyParams,
+    options: IssueSessionOptions
+): Promise<
+    { valid: true; token: string; claims: SessionClaims } | VerifyFailure
+> {
+    const result = await verifySignDataAsync(params);
+    if (!result.valid) {
+        return result;
+    }
+    const claims = await sessionClaims(params.signedData, options);
+    return {
+        valid: true,
+        token: await signSession(claims, options.key),
+        claims,
+    };
+}
+
+async function signJwt(
+    key: SessionSigningKey,
+    signingInput: Uint8Array
+): Promise<Uint8Array> {
+    if (key.alg === 'HS256') {
+        checkHs256Secret(key.secret);
+        return hmacSha256(key.secret, signingInput);
+    }
+    if (key.secretKey.length !== nacl.sign.secretKeyLength) {
+        throw new Error(
+            `Secret key must be ${nacl.sign.secretKeyLength} bytes, got ${key.secretKey.length}`
+        );
+    }
+    return getCryptoProvider().sign(signingInput, key.secretKey);
+}
+
+async function verifyJwt(
+    key: SessionVerificationKey,
+    signingInput: Uint8Array,
+    signature: Uint8Array
+): Promise<boolean> {
+    if (key.alg === 'HS256') {
+        return timingSafeEqual(
+            await hmacSha256(key.secret, signingInput),
+            signature
+        );
+    }
+    return getCryptoProvider().verify(signingInput, signature, key.publicKey);
+}
+
+function isSessionClaims(claims: unknown): claims is SessionClaims {
+    const c = claims as Record<string, unknown> | null;
+    return (
+        typeof c?.sub === 'string' &&
+        typeof c.aud === 'string' &&
+        typeof c.iat === 'number' &&
+        typeof c.exp === 'number' &&
+        typeof c.ton_wc === 'number' &&
+        typeof c.ton_ts === 'number' &&
+        ['text', 'binary', 'cell'].includes(c.ton_payload_type as string) &&
+        typeof c.ton_payload_hash === 'string' &&
+        (c.iss === undefined || typeof c.iss === 'string')
+    );
+}
+
+function encodeJson(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeJson(part: string): Record<string, unknown> | null {
+    try {
+        const value = JSON.parse(Buffer.from(part, 'base64url').toString());
+        return typeof value === 'object' && !Array.isArray(value)
+            ? value
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+function hex(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString('hex');
+}
+
+function fail(reason: SessionFailureReason, message: string): SessionResult {
+    return { valid: false, reason, message };
+}
@@ -1,7 +1,15 @@
 import { Address } from '@ton/core';
 import nacl from 'tweetnacl';
 import { SignDataParams, SignDataResult } from './types';
-import { createTextBinaryHash, createCellHash } from './utils';
+import {
+    createSignDataHash,
+    createSignDataHashAsync,
+    signDataPayloadSize,
+} from './utils';
+import { validateTlbCell } from './tlb-decode';
+import { Signer } from './signer';
+import { getCryptoProvider, getSyncCryptoProvider } from './crypto';
+import { checkAddress, normalizeAddress } from './address';
 
 /**
  * Signs data according to TON Connect sign-data protocol.
@@ -11,31 +19,143 @@ import { createTextBinaryHash, createCellHash } from './utils';
  * 2. binary - for arbitrary binary data
  * 3. cell - for TON Cell with TL-B schema
  *
+ * With `strictSchema` a cell payload is signed only if it parses fully
+ * against the root type of its schema, so the user sees the same data
+ * the contract reads.
+ *
  * @param params Signing parameters
  * @returns Signed data with base64 signature
+ * The result also carries the address in raw and non-bounceable
+ * user-friendly form (`addressRaw`, `addressFriendly`); only `address`, as
+ * given, is signed.
+ *
+ * @throws if `strictSchema` is set and the cell does not match the schema,
+ *         if `network` is set and the address is flagged for the other
+ *         network, or if the payload is larger than `maxPayloadBytes`
  */
 export function signData(params: SignDataParams): SignDataResult {
-    const { payload, domain, privateKey, address } = params;
-    const timestamp = Math.floor(Date.now() / 1000);
-    const parsedAddr = Address.parse(address);
-
-    // Create hash based on payload type
-    const finalHash =
-        payload.type === 'cell'
-            ? createCellHash(payload, parsedAddr, domain, timestamp)
-            : createTextBinaryHash(payload, parsedAddr, domain, timestamp);
+    const { result, parsedAddr } = prepareSignData(params);
+    const { payload, domain, timestamp } = result;
+    const finalHash = createSignDataHash(
+        payload,
+        parsedAddr,
+        domain,
+        timestamp
+    );
 
     // Sign with Ed25519
-    const signature = nacl.sign.detached(
+    const signature = getSyncCryptoProvider().signSync(
         new Uint8Array(finalHash),
-        new Uint8Array(privateKey)
+        new Uint8Array(params.privateKey)
     );
 
-    return {
-        signature: Buffer.from(signature).toString('base64'),
-        address,
-        timestamp,
-        domain,
+    return { signature: Buffer.from(signature).toString('base64'), ...result };
+}
+
+/**
+ * Same as `signData`, hashing and signing with the selected crypto provider
+ * even if it is asynchronous-only (e.g. WebCrypto).
+ */
+export async function signDataAsync(
+    params: SignDataParams
+): Promise<SignDataResult> {
+    return signDataWithKey(params, (finalHash) =>
+        getCryptoProvider().sign(finalHash, new Uint8Array(params.privateKey))
+    );
+}
+
+/**
+ * Signs data like `signData`, with a key held by a `Signer` (HSM, KMS,
+ * remote signing service) instead of a raw private key.
+ *
+ * @throws if the signer fails or returns a signature that does not match
+ *         its public key
+ */
+export async function signDataWith(
+    signer: Signer,
+    params: Omit<SignDataParams, 'privateKey'>
+): Promise<SignDataResult> {
+    return signDataWithKey(params, async (finalHash) => {
+        const signature = await signer.sign(finalHash);
+        const isValid =
+            signature.length === nacl.sign.signatureLength &&
+            (await getCryptoProvider().verify(
+                finalHash,
+                new Uint8Array(signature),
+                new Uint8Array(signer.publicKey)
+            ));
+        if (!isValid) {
+            throw new Error(
+                'Signer returned a signature that does not match its public key'
+            );
+        }
+        return signature;
+    });
+}
+
+async function signDataWithKey(
+    params: Omit<SignDataParams, 'privateKey'>,
+    sign: (finalHash: Buffer) => Promise<Uint8Array>
+): Promise<SignDataResult> {
+    const { result, parsedAddr } = prepareSignData(params);
+    const { payload, domain, timestamp } = result;
+    const finalHash = await createSignDataHashAsync(
         payload,
+        parsedAddr,
+        domain,
+        timestamp
+    );
+
+    const signature = await sign(finalHash);
+    return { signature: Buffer.from(signature).toString('base64'), ...result };
+}
+
+/**
+ * Validates the payload and address, fixes the timestamp and adds the
+ * normalized address forms.
+ */
+function prepareSignData(params: Omit<SignDataParams, 'privateKey'>): {
+    result: Omit<SignDataResult, 'signature'>;
+    parsedAddr: Address;
+} {
+    const { payload, domain, address } = params;
+
+    if (params.strictSchema && payload.type === 'cell') {
+        const validation = validateTlbCell(payload.schema, payload.cell);
+        if (!validation.valid) {
+            throw new Error(
+                `Cell does not match schema: ${validation.message}`
+            );
+        }
+    }
+
+    if (
+        params.maxPayloadBytes !== undefined &&
+        signDataPayloadSize(payload) > params.maxPayloadBytes
+    ) {
+        throw new Error(
+            `Payload must be at most ${params.maxPayloadBytes} bytes`
+        );
+    }
+
+    if (
+        params.network !== undefined &&
+        checkAddress(address, { network: params.network })
+    ) {
+        throw new Error(`Address is not flagged for network ${params.network}`);
+    }
+
+    const timestamp = params.timestamp ?? Math.floor(Date.now() / 1000);
+    const parsedAddr = Address.parse(address);
+
+    return {
+        result: {
+            address,
+            timestamp,
+            domain,
+            payload,
+            ...normalizeAddress(address, params.network),
+        },
+        parsedAddr,
     };
 }
@@ -0,0 +1,137 @@
+import { mnemonicToPrivateKey } from '@ton/crypto';
+import nacl from 'tweetnacl';
+import { getCryptoProvider } from './crypto';
+
+/**
+ * Holder of an Ed25519 key that can sign sign-data hashes without exposing
+ * the private key: in-memory key, HSM, KMS, remote signing service, ...
+ */
+export interface Signer {
+    readonly publicKey: Uint8Array;
+
+    /**
+     * Signs the 32-byte hash built by `createTextBinaryHash` or
+     * `createCellHash`.
+     *
+     * @returns 64-byte Ed25519 signature
+     */
+    sign(hash: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Signs with an Ed25519 key held in memory.
+ */
+export class KeyPairSigner implements Signer {
+    readonly publicKey: Buffer;
+    private readonly secretKey: Uint8Array;
+
+    /**
+     * @param secretKey 64-byte Ed25519 secret key (seed || public key)
+     */
+    constructor(secretKey: Uint8Array) {
+        if (secretKey.length !== nacl.sign.secretKeyLength) {
+            throw new Error(
+                `Secret key must be ${nacl.sign.secretKeyLength} bytes, got ${secretKey.length}`
+            );
+        }
+        this.secretKey = new Uint8Array(secretKey);
+        this.publicKey = Buffer.from(
+            nacl.sign.keyPair.fromSecretKey(this.secretKey).publicKey
+        );
+    }
+
+    static fromSeed(seed: Uint8Array): KeyPairSigner {
+        if (seed.length !== nacl.sign.seedLength) {
+            throw new Error(
+                `Seed must be ${nacl.sign.seedLength} bytes, got ${seed.length}`
+            );
+        }
+        return new KeyPairSigner(
+            Buffer.from(
+                nacl.sign.keyPair.fromSeed(new Uint8Array(seed)).secretKey
+            )
+        );
+    }
+
+    /**
+     * Derives the key from a TON wallet mnemonic.
+     */
+    static async fromMnemonic(
+        mnemonic: string[],
+        password?: string
+    ): Promise<KeyPairSigner> {
+        const keyPair = await mnemonicToPrivateKey(mnemonic, password);
+        return new KeyPairSigner(keyPair.secretKey);
+    }
+
+    async sign(hash: Uint8Array): Promise<Uint8Array> {
+        return Buffer.from(
+            await getCryptoProvider().sign(hash, this.secretKey)
+        );
+    }
+}
+
+/**
+ * Client of a remote signing service speaking a minimal JSON-over-HTTP
+ * protocol:
+ *
+ *   GET  /public-key                     ⇒ { "publicKey": "<hex>" }
+ *   POST /sign  { "hash": "<hex>" }      ⇒ { "signature": "<hex>" }
+ *
+ * `MockSigningServer` (signing-server.ts) implements the service side for
+ * tests and local development.
+ */
+export class RemoteSigner implements Signer {
+    constructor(
+        private readonly url: string,
+        readonly publicKey: Buffer
+    ) {}
+
+    /**
+     * Fetches the public key from the service.
+     */
+    static async connect(url: string): Promise<RemoteSigner> {
+        const body = await requestJson(new URL('public-key', withSlash(url)));
+        const publicKey = parseHexField(body, 'publicKey');
+        if (publicKey.length !== nacl.sign.publicKeyLength) {
+            throw new Error(
+                `Remote signer returned ${publicKey.length}-byte public key`
+            );
+        }
+        return new RemoteSigner(url, publicKey);
+    }
+
+    async sign(hash: Uint8Array): Promise<Uint8Array> {
+        const body = await requestJson(new URL('sign', withSlash(this.url)), {
+            hash: Buffer.from(hash).toString('hex'),
+        });
+        return parseHexField(body, 'signature');
+    }
+}
+
+function withSlash(url: string): string {
+    return url.endsWith('/') ? url : `${url}/`;
+}
+
+async function requestJson(url: URL, body?: unknown): Promise<unknown> {
+    const response = await fetch(url, {
+        method: body === undefined ? 'GET' : 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    if (!response.ok) {
+        throw new Error(
+            `Remote signer responded with ${response.status}: ${text}`
+        );
+    }
+    return JSON.parse(text);
+}
+
+function parseHexField(body: unknown, field: string): Buffer {
+    const value = (body as Record<string, unknown> | null)?.[field];
+    if (typeof value !== 'string' || !/^([0-9a-fA-F]{2})*$/.test(value)) {
+        throw new Error(`Remote signer response has no hex "${field}"`);
+    }
+    return Buffer.from(value, 'hex');
+}
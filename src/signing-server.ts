@@ -0,0 +1,82 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Signer } from './signer';
+
+/**
+ * Local HTTP stand-in for a remote signing service, backed by any `Signer`.
+ * Listens on 127.0.0.1 only.
+ */
+export class MockSigningServer {
+    private readonly server: http.Server;
+    /** Number of handled sign requests. */
+    signCount = 0;
+
+    constructor(private readonly signer: Signer) {
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch((e: Error) =>
+                reply(res, 500, { error: e.message })
+            );
+        });
+    }
+
+    /**
+     * Starts listening on the given port, a free one by default.
+     *
+     * @returns base URL of the service
+     */
+    async listen(port = 0): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, '127.0.0.1', () => resolve());
+        });
+        const address = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${address.port}/`;
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve, reject) =>
+            this.server.close((e) => (e ? reject(e) : resolve()))
+        );
+    }
+
+    private async handle(
+        req: http.IncomingMessage,
+        res: http.ServerResponse
+    ): Promise<void> {
+        if (req.method === 'GET' && req.url === '/public-key') {
+            return reply(res, 200, {
+                publicKey: Buffer.from(this.signer.publicKey).toString('hex'),
+            });
+        }
+        if (req.method !== 'POST' || req.url !== '/sign') {
+            return reply(res, 404, { error: 'Not found' });
+        }
+
+        let hash: unknown;
+        try {
+            hash = JSON.parse(await readBody(req))?.hash;
+        } catch {
+            return reply(res, 400, { error: 'Invalid JSON' });
+        }
+        if (typeof hash !== 'string' || !/^[0-9a-fA-F]{64}$/.test(hash)) {
+            return reply(res, 400, { error: 'Hash must be 32 bytes hex' });
+        }
+
+        this.signCount++;
+        const signature = await this.signer.sign(Buffer.from(hash, 'hex'));
+        reply(res, 200, { signature: Buffer.from(signature).toString('hex') });
+    }
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+function reply(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
@@ -0,0 +1,116 @@
+import {
+    Address,
+    Cell,
+    contractAddress,
+    loadStateInit,
+    StateInit,
+} from '@ton/core';
+
+/**
+ * Wallet contract families whose persistent data layout we know how to read.
+ */
+export type WalletLayout = 'v3' | 'v4' | 'v5r1' | 'highload-v2' | 'highload-v3';
+
+/**
+ * Known wallet data layouts, with the exact size of the data cell.
+ *
+ * v3R1/v3R2:    seqno:uint32 subwallet_id:uint32 public_key:bits256
+ * v4R1/v4R2:    seqno:uint32 subwallet_id:uint32 public_key:bits256 plugins:(HashmapE 256 int1)
+ * v5R1:         is_signature_allowed:Bool seqno:uint32 wallet_id:int32 public_key:bits256 extensions:(HashmapE 256 int1)
+ * highload v2:  subwallet_id:uint32 last_cleaned:uint64 public_key:bits256 old_queries:(HashmapE 64 Cell)
+ * highload v3:  public_key:bits256 subwallet_id:uint32 old_queries:(HashmapE ..) queries:(HashmapE ..) last_clean_time:uint64 timeout:uint22
+ */
+const WALLET_LAYOUTS: Record<
+    WalletLayout,
+    { bits: number; keyOffset: number }
+> = {
+    v3: { bits: 320, keyOffset: 64 },
+    v4: { bits: 321, keyOffset: 64 },
+    v5r1: { bits: 322, keyOffset: 65 },
+    'highload-v2': { bits: 353, keyOffset: 96 },
+    'highload-v3': { bits: 376, keyOffset: 0 },
+};
+
+/**
+ * Hashes of the known wallet code cells, as deployed by wallet apps.
+ */
+const WALLET_CODE_HASHES: Record<string, WalletLayout> = {
+    // wallet v3R1, v3R2
+    b61041a58a7980b946e8fb9e198e3c904d24799ffa36574ea4251c41a566f581: 'v3',
+    '84dafa449f98a6987789ba232358072bc0f76dc4524002a5d0918b9a75d2d599': 'v3',
+    // wallet v4R1, v4R2
+    '64dd54805522c5be8a9db59cea0105ccf0d08786ca79beb8cb79e880a8d7322d': 'v4',
+    feb5ff6820e2ff0d9483e7e0d62c817d846789fb4ae580c878866d959dabd5c0: 'v4',
+    // wallet v5R1
+    '20834b7b72b112147e1b2fb457b84e74d1a30f04f737d4f62a668e9552d2b72f': 'v5r1',
+    // highload wallet v2R1, v2R2
+    '8ceb45b3cd4b5cc60eaae1c13b9c092392677fe536b2e9b2d801b62eff931fe1':
+        'highload-v2',
+    '203dd4f358adb49993129aa925cac39916b68a0e4f78d26e8f2c2b69eafa5679':
+        'highload-v2',
+    // highload wallet v3
+    '11acad7955844090f283bf238bc1449871f783e7cc0979408d3f4859483e8525':
+        'highload-v3',
+};
+
+/**
+ * Parses a base64 (not url safe) encoded StateInit BOC, as sent by TON Connect
+ * in `walletStateInit`.
+ */
+export function parseStateInit(walletStateInit: string): StateInit {
+    return loadStateInit(Cell.fromBase64(walletStateInit).beginParse());
+}
+
+/**
+ * Checks that the StateInit deploys exactly the contract at `address`.
+ */
+export function stateInitMatchesAddress(
+    stateInit: StateInit,
+    address: Address
+): boolean {
+    return contractAddress(address.workChain, stateInit).equals(address);
+}
+
+/**
+ * Reads the Ed25519 public key from a wallet data cell.
+ *
+ * The layout is picked by the hash of the wallet code, see
+ * `WALLET_CODE_HASHES`; the data cell must have the size of that layout.
+ *
+ * @returns public key and detected layout, or null for unknown code or data
+ *          that does not fit its layout
+ */
+export function extractWalletPublicKey(
+    code: Cell,
+    data: Cell
+): { publicKey: Buffer; layout: WalletLayout } | null {
+    const layout = WALLET_CODE_HASHES[code.hash().toString('hex')];
+    if (!layout || data.bits.length !== WALLET_LAYOUTS[layout].bits) {
+        return null;
+    }
+
+    const slice = data.beginParse();
+    slice.skip(WALLET_LAYOUTS[layout].keyOffset);
+
+    return { publicKey: slice.loadBuffer(32), layout };
+}
+
+/**
+ * Resolves the wallet public key from its StateInit, making sure that the
+ * StateInit really belongs to `address`.
+ *
+ * @returns public key, or null if the StateInit does not match the address
+ *          or the wallet code is unknown
+ */
+export function publicKeyFromStateInit(
+    walletStateInit: string,
+    address: Address
+): Buffer | null {
+    const stateInit = parseStateInit(walletStateInit);
+    const { code, data } = stateInit;
+    if (!code || !data || !stateInitMatchesAddress(stateInit, address)) {
+        return null;
+    }
+
+    return extractWalletPublicKey(code, data)?.publicKey ?? null;
+}
@@ -0,0 +1,268 @@
+import { Address } from '@ton/core';
+import { SignDataParams, SignDataResult } from './types';
+import { createTextBinaryHeaderParts } from './utils';
+import {
+    checkPolicies,
+    checkSignedFields,
+    markSignatureSeen,
+    VerifyFailure,
+    VerifyOptions,
+    VerifyResult,
+} from './verify';
+import { checkAddress, normalizeAddress } from './address';
+import {
+    CryptoProvider,
+    createSha256Hasher,
+    getCryptoProvider,
+} from './crypto';
+
+/**
+ * Source of binary payload bytes: a WHATWG `ReadableStream`, a Node.js
+ * `Readable` or any async iterable of chunks.
+ */
+export type ByteStream = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+/**
+ * Binary payload read from a stream. The length is part of the signed
+ * message, so it must be known before the first byte is hashed.
+ */
+export interface BinaryStreamPayload {
+    stream: ByteStream;
+    length: number; // declared length in bytes
+}
+
+export interface StreamHashOptions {
+    maxPayloadBytes?: number; // rejects larger declared lengths
+    provider?: CryptoProvider; // defaults to the selected provider
+}
+
+export interface SignBinaryStreamParams extends Omit<
+    SignDataParams,
+    'payload' | 'strictSchema'
+> {
+    payload: BinaryStreamPayload;
+}
+
+/**
+ * Signed binary stream: a `SignDataResult` without the payload, which is
+ * sent alongside.
+ */
+export type BinaryStreamSignature = Omit<SignDataResult, 'payload'>;
+
+export interface VerifyBinaryStreamParams extends Omit<
+    VerifyOptions,
+    'expectedNonce' | 'challenge' | 'strictSchema'
+> {
+    signedData: BinaryStreamSignature;
+    payload: BinaryStreamPayload;
+    publicKey: Uint8Array;
+}
+
+const UINT32_LIMIT = 2 ** 32; // exclusive, payload length is a uint32
+
+/**
+ * Same as `createTextBinaryHash` for a binary payload, reading the payload
+ * from a stream and hashing it as it arrives instead of buffering it.
+ *
+ * @throws if the stream is shorter or longer than the declared length, or
+ *         the declared length exceeds `maxPayloadBytes`
+ */
+export async function createBinaryStreamHash(
+    payload: BinaryStreamPayload,
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number,
+    options: StreamHashOptions = {}
+): Promise<Buffer> {
+    const hash = await hashBinaryStream(
+        payload,
+        parsedAddr,
+        domain,
+        timestamp,
+        options
+    );
+    if ('valid' in hash) {
+        throw new Error(hash.message);
+    }
+    return hash;
+}
+
+/**
+ * Signs a binary payload read from a stream; the signature is the same as
+ * `signData` would produce for the whole payload.
+ *
+ * @returns the signed data without the payload
+ * @throws if the stream does not match its declared length or is larger
+ *         than `maxPayloadBytes`, or if `network` is set and the address is
+ *         flagged for the other network
+ */
+export async function signBinaryStream(
+    params: SignBinaryStreamParams
+): Promise<BinaryStreamSignature> {
+    const { payload, domain, address, network, maxPayloadBytes } = params;
+
+    if (network !== undefined && checkAddress(address, { network })) {
+        throw new Error(`Address is not flagged for network ${network}`);
+    }
+    const timestamp = params.timestamp ?? Math.floor(Date.now() / 1000);
+    const finalHash = await createBinaryStreamHash(
+        payload,
+        Address.parse(address),
+        domain,
+        timestamp,
+        { maxPayloadBytes }
+    );
+
+    const signature = await getCryptoProvider().sign(
+        new Uint8Array(finalHash),
+        new Uint8Array(params.privateKey)
+    );
+
+    return {
+        signature: Buffer.from(signature).toString('base64'),
+        address,
+        timestamp,
+        domain,
+        ...normalizeAddress(address, network),
+    };
+}
+
+/**
+ * Verifies the signature of a binary payload read from a stream, with the
+ * checks and failure reasons of `verifySignDataDetailed`. A stream that
+ * does not match its declared length is `malformed_payload`, a declared
+ * length over `maxPayloadBytes` is `payload_too_large`.
+ *
+ * The nonce and challenge options are not supported: they would need the
+ * whole payload.
+ *
+ * @returns `{ valid: true }` or the first failed check
+ */
+export async function verifyBinaryStream(
+    params: VerifyBinaryStreamParams
+): Promise<VerifyResult> {
+    const { signedData, payload, publicKey } = params;
+    const { address, domain, timestamp } = signedData;
+
+    const common = checkSignedFields({ ...signedData, publicKey });
+    if ('valid' in common) {
+        return common;
+    }
+    if (typeof domain !== 'string') {
+        return fail('malformed_domain', 'Domain must be a string');
+    }
+    const policyFailure = checkPolicies(address, domain, timestamp, params);
+    if (policyFailure) {
+        return policyFailure;
+    }
+
+    const finalHash = await hashBinaryStream(
+        payload,
+        common.parsedAddr,
+        domain,
+        timestamp,
+        { maxPayloadBytes: params.maxPayloadBytes }
+    );
+    if ('valid' in finalHash) {
+        return finalHash;
+    }
+
+    const isValid = await getCryptoProvider().verify(
+        new Uint8Array(finalHash),
+        new Uint8Array(common.signature),
+        new Uint8Array(publicKey)
+    );
+    if (!isValid) {
+        return fail('invalid_signature', 'Signature does not match');
+    }
+
+    return markSignatureSeen(params, timestamp, finalHash);
+}
+
+/**
+ * @returns message hash, or the failed length check
+ */
+async function hashBinaryStream(
+    payload: BinaryStreamPayload,
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number,
+    options: StreamHashOptions
+): Promise<Buffer | VerifyFailure> {
+    const { length, stream } = payload;
+    if (!Number.isInteger(length) || length < 0 || length >= UINT32_LIMIT) {
+        return fail(
+            'malformed_payload',
+            `Declared length must be an integer between 0 and 2^32 - 1, got ${length}`
+        );
+    }
+    if (
+        options.maxPayloadBytes !== undefined &&
+        length > options.maxPayloadBytes
+    ) {
+        return fail(
+            'payload_too_large',
+            `Payload must be at most ${options.maxPayloadBytes} bytes`
+        );
+    }
+
+    const hasher = createSha256Hasher(options.provider);
+    for (const part of createTextBinaryHeaderParts(
+        'binary',
+        length,
+        parsedAddr,
+        domain,
+        timestamp
+    )) {
+        hasher.update(part.bytes);
+    }
+
+    let received = 0;
+    for await (const chunk of readChunks(stream)) {
+        received += chunk.length;
+        if (received > length) {
+            return fail(
+                'malformed_payload',
+                `Stream is longer than the declared ${length} bytes`
+            );
+        }
+        hasher.update(chunk);
+    }
+    if (received < length) {
+        return fail(
+            'malformed_payload',
+            `Stream ended after ${received} of the declared ${length} bytes`
+        );
+    }
+
+    return Buffer.from(hasher.digest());
+}
+
+// ReadableStream is not async iterable in every browser
+async function* readChunks(stream: ByteStream): AsyncIterable<Uint8Array> {
+    if (!('getReader' in stream)) {
+        yield* stream;
+        return;
+    }
+    const reader = stream.getReader();
+    let done = false;
+    try {
+        while (!done) {
+            const next = await reader.read();
+            done = next.done;
+            if (next.value) {
+                yield next.value;
+            }
+        }
+    } finally {
+        // Stops the source if the consumer gave up early
+        if (!done) {
+            await reader.cancel();
+        }
+        reader.releaseLock();
+    }
+}
+
+function fail(reason: VerifyFailure['reason'], message: string): VerifyFailure {
+    return { valid: false, reason, message };
+}
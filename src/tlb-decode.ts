@@ -0,0 +1,396 @@
+import { Address, Cell, ExternalAddress, Slice } from '@ton/core';
+import { parseTlbSchema, TlbConstructor, TlbSchema, TlbType } from './tlb';
+
+/**
+ * JSON representation of a decoded TL-B value.
+ *
+ *   • uintN/intN up to 32 bits — number; wider integers and Coins — decimal string
+ *   • Bool — boolean; bitsN — hex string (Fift notation for partial bytes)
+ *   • MsgAddress — user-friendly address string, or null for addr_none
+ *   • Cell — base64 BOC; string — UTF-8 text
+ *   • Maybe X — null or X; Either X Y — `{ left: X }` or `{ right: Y }`
+ *   • declared types — object with constructor name in "@type" and fields
+ */
+export type TlbValue =
+    null | boolean | number | string | { [key: string]: TlbValue };
+
+// Nesting limit for declared types, deeper data fails instead of
+// exhausting the stack
+const MAX_DECODE_DEPTH = 1024;
+
+// Longer field paths keep only their end
+const MAX_PATH_LENGTH = 200;
+
+/**
+ * Default limit on cells read while decoding, see `TlbDecodeOptions`.
+ */
+export const DEFAULT_MAX_DECODE_CELLS = 4096;
+
+/**
+ * Cell does not match the schema.
+ *
+ * `field` is the path of the field being read (e.g. "Transfer.amount"),
+ * shortened to its last segments when deeply nested, and `bitOffset` is the
+ * position inside the cell holding that field.
+ */
+export class TlbDecodeError extends Error {
+    readonly field: string;
+
+    constructor(
+        message: string,
+        field: string,
+        readonly bitOffset: number
+    ) {
+        const shortField =
+            field.length > MAX_PATH_LENGTH
+                ? '...' + field.slice(-MAX_PATH_LENGTH)
+                : field;
+        super(`TL-B: ${message} at "${shortField}", bit offset ${bitOffset}`);
+        this.name = 'TlbDecodeError';
+        this.field = shortField;
+    }
+}
+
+export interface TlbDecodeOptions {
+    /**
+     * Require the root cell and every referenced cell to be read completely,
+     * with no leftover bits or refs.
+     */
+    strict?: boolean;
+    /**
+     * Limit on cells read, counting a cell again each time it is reached
+     * through another path, so that cells shared by many parents cannot
+     * make decoding exponential. Defaults to `DEFAULT_MAX_DECODE_CELLS`.
+     */
+    maxCells?: number;
+}
+
+/**
+ * Decodes a cell according to the root type of a TL-B schema.
+ *
+ * @param schema TL-B schema string or parsed schema
+ * @param cell cell or base64 (not url safe) encoded BOC
+ * @throws TlbDecodeError if the cell does not match the schema or reading
+ *         it exceeds `maxCells`
+ */
+export function decodeTlbCell(
+    schema: string | TlbSchema,
+    cell: Cell | string,
+    options: TlbDecodeOptions = {}
+): TlbValue {
+    const parsed = typeof schema === 'string' ? parseTlbSchema(schema) : schema;
+    const root = typeof cell === 'string' ? Cell.fromBase64(cell) : cell;
+    const ctx: DecodeContext = {
+        schema: parsed,
+        strict: options.strict ?? false,
+        entered: [],
+        cellsLeft: options.maxCells ?? DEFAULT_MAX_DECODE_CELLS,
+        bocs: new Map(),
+    };
+
+    spendCells(ctx, 1, parsed.root, 0);
+    const slice = root.beginParse();
+    const value = decodeNamed(slice, ctx, parsed.root, parsed.root);
+    checkFullyRead(slice, ctx, parsed.root);
+    return value;
+}
+
+export type TlbValidationResult =
+    | { valid: true; value: TlbValue }
+    | { valid: false; message: string; field: string; bitOffset: number };
+
+/**
+ * Checks that a cell parses fully against the root type of the schema.
+ *
+ * Never throws on untrusted input: a schema that cannot be parsed is
+ * reported against the "schema" field, a malformed BOC or one declaring more
+ * than `maxCells` cells against "cell". Decoding reads at most `maxCells`
+ * cells, see `TlbDecodeOptions`.
+ */
+export function validateTlbCell(
+    schema: string | TlbSchema,
+    cell: Cell | string,
+    options: Pick<TlbDecodeOptions, 'maxCells'> = {}
+): TlbValidationResult {
+    const maxCells = options.maxCells ?? DEFAULT_MAX_DECODE_CELLS;
+    let parsed: TlbSchema;
+    let root: Cell;
+    try {
+        parsed = typeof schema === 'string' ? parseTlbSchema(schema) : schema;
+    } catch (e) {
+        return invalid((e as Error).message, 'schema', 0);
+    }
+    const cellCount = typeof cell === 'string' ? bocCellCount(cell) : 0;
+    if (cellCount > maxCells) {
+        return invalid(
+            `BOC has ${cellCount} cells, at most ${maxCells} are allowed`,
+            'cell',
+            0
+        );
+    }
+    try {
+        root = typeof cell === 'string' ? Cell.fromBase64(cell) : cell;
+    } catch (e) {
+        return invalid(`invalid BOC: ${(e as Error).message}`, 'cell', 0);
+    }
+
+    try {
+        return {
+            valid: true,
+            value: decodeTlbCell(parsed, root, { strict: true, maxCells }),
+        };
+    } catch (e) {
+        if (e instanceof TlbDecodeError) {
+            return invalid(e.message, e.field, e.bitOffset);
+        }
+        throw e;
+    }
+}
+
+/**
+ * @returns number of cells declared in the BOC header, or 0 if the header
+ *          cannot be read (parsing the BOC reports it)
+ */
+function bocCellCount(boc: string): number {
+    // magic:uint32 flags_and_size:uint8 offset_bytes:uint8 cells:(size * 8)
+    const header = Buffer.from(boc.slice(0, 16), 'base64');
+    const size = header.length > 4 ? header[4] & 0x7 : 0;
+    if (size === 0 || header.length < 6 + size) {
+        return 0;
+    }
+    return header.readUIntBE(6, size);
+}
+
+function invalid(
+    message: string,
+    field: string,
+    bitOffset: number
+): TlbValidationResult {
+    return { valid: false, message, field, bitOffset };
+}
+
+interface DecodeContext {
+    schema: TlbSchema;
+    strict: boolean;
+    // declared types being decoded, outermost first
+    entered: { typeName: string; slice: Slice; offset: number }[];
+    cellsLeft: number;
+    bocs: Map<string, string>; // base64 BOC of `Cell` values by cell hash
+}
+
+function spendCells(
+    ctx: DecodeContext,
+    count: number,
+    path: string,
+    bitOffset: number
+): void {
+    ctx.cellsLeft -= count;
+    if (ctx.cellsLeft < 0) {
+        throw new TlbDecodeError(
+            'cell reads more cells than allowed',
+            path,
+            bitOffset
+        );
+    }
+}
+
+// Shared subtrees are serialized once
+function cellToBase64(cell: Cell, ctx: DecodeContext): string {
+    const hash = cell.hash().toString('hex');
+    let boc = ctx.bocs.get(hash);
+    if (boc === undefined) {
+        boc = cell.toBoc().toString('base64');
+        ctx.bocs.set(hash, boc);
+    }
+    return boc;
+}
+
+// Cells of a snake string after the current one
+function snakeLength(slice: Slice): number {
+    let length = 0;
+    let next = slice.remainingRefs > 0 ? slice.preloadRef() : null;
+    while (next) {
+        length++;
+        next = next.refs.length > 0 ? next.refs[0] : null;
+    }
+    return length;
+}
+
+function checkFullyRead(slice: Slice, ctx: DecodeContext, path: string): void {
+    if (ctx.strict && (slice.remainingBits > 0 || slice.remainingRefs > 0)) {
+        throw new TlbDecodeError(
+            `${slice.remainingBits} unread bits and ${slice.remainingRefs} unread refs`,
+            path,
+            slice.offsetBits
+        );
+    }
+}
+
+function decodeNamed(
+    slice: Slice,
+    ctx: DecodeContext,
+    typeName: string,
+    path: string
+): TlbValue {
+    enterType(slice, ctx, typeName, path);
+    try {
+        const ctor = matchConstructor(
+            slice,
+            ctx.schema.types.get(typeName)!,
+            path
+        );
+        slice.skip(ctor.tag.bits);
+
+        const result: { [key: string]: TlbValue } = { '@type': ctor.name };
+        for (const field of ctor.fields) {
+            result[field.name] = decodeType(
+                slice,
+                ctx,
+                field.type,
+                `${path}.${field.name}`
+            );
+        }
+        return result;
+    } finally {
+        ctx.entered.pop();
+    }
+}
+
+/**
+ * Records that `typeName` is being decoded from the current position.
+ *
+ * @throws TlbDecodeError if the schema nests too deep, or if the same type
+ *         is entered again without reading anything (left recursion)
+ */
+function enterType(
+    slice: Slice,
+    ctx: DecodeContext,
+    typeName: string,
+    path: string
+): void {
+    const offset = slice.offsetBits + slice.offsetRefs;
+    // Entries of the current cell are on top, referenced cells get a new slice
+    for (let i = ctx.entered.length - 1; i >= 0; i--) {
+        const entry = ctx.entered[i];
+        if (entry.slice !== slice) {
+            break;
+        }
+        if (entry.typeName === typeName && entry.offset === offset) {
+            throw new TlbDecodeError(
+                `type "${typeName}" recurses without reading any data`,
+                path,
+                slice.offsetBits
+            );
+        }
+    }
+    if (ctx.entered.length >= MAX_DECODE_DEPTH) {
+        throw new TlbDecodeError(
+            `data nests more than ${MAX_DECODE_DEPTH} types deep`,
+            path,
+            slice.offsetBits
+        );
+    }
+    ctx.entered.push({ typeName, slice, offset });
+}
+
+function matchConstructor(
+    slice: Slice,
+    constructors: TlbConstructor[],
+    path: string
+): TlbConstructor {
+    for (const ctor of constructors) {
+        const { bits, value } = ctor.tag;
+        if (
+            bits === 0 ||
+            (slice.remainingBits >= bits &&
+                slice.preloadUintBig(bits) === value)
+        ) {
+            return ctor;
+        }
+    }
+    throw new TlbDecodeError(
+        'no constructor tag matches',
+        path,
+        slice.offsetBits
+    );
+}
+
+function decodeType(
+    slice: Slice,
+    ctx: DecodeContext,
+    type: TlbType,
+    path: string
+): TlbValue {
+    const offset = slice.offsetBits;
+    try {
+        switch (type.kind) {
+            case 'uint':
+                return type.bits <= 32
+                    ? slice.loadUint(type.bits)
+                    : slice.loadUintBig(type.bits).toString();
+            case 'int':
+                return type.bits <= 32
+                    ? slice.loadInt(type.bits)
+                    : slice.loadIntBig(type.bits).toString();
+            case 'bits':
+                return slice.loadBits(type.bits).toString();
+            case 'bool':
+                return slice.loadBit();
+            case 'coins':
+                return slice.loadCoins().toString();
+            case 'address':
+                return addressToJson(slice.loadAddressAny());
+            case 'cell': {
+                const rest = slice.asCell();
+                slice.skip(slice.remainingBits);
+                while (slice.remainingRefs > 0) slice.loadRef();
+                return cellToBase64(rest, ctx);
+            }
+            case 'string':
+                spendCells(ctx, snakeLength(slice), path, offset);
+                return slice.loadStringTail();
+            case 'maybe':
+                return slice.loadBit()
+                    ? decodeType(slice, ctx, type.inner, path)
+                    : null;
+            case 'either':
+                return slice.loadBit()
+                    ? { right: decodeType(slice, ctx, type.right, path) }
+                    : { left: decodeType(slice, ctx, type.left, path) };
+            case 'ref':
+                return decodeRef(slice.loadRef(), ctx, type.inner, path);
+            case 'named':
+                return decodeNamed(slice, ctx, type.name, path);
+        }
+    } catch (e) {
+        if (e instanceof TlbDecodeError) {
+            throw e;
+        }
+        throw new TlbDecodeError(
+            `cannot read field (${(e as Error).message})`,
+            path,
+            offset
+        );
+    }
+}
+
+function decodeRef(
+    cell: Cell,
+    ctx: DecodeContext,
+    type: TlbType,
+    path: string
+): TlbValue {
+    spendCells(ctx, 1, path, 0);
+    // ^Cell is the referenced cell itself
+    if (type.kind === 'cell') {
+        return cellToBase64(cell, ctx);
+    }
+    const slice = cell.beginParse();
+    const value = decodeType(slice, ctx, type, path);
+    checkFullyRead(slice, ctx, path);
+    return value;
+}
+
+function addressToJson(address: Address | ExternalAddress | null): TlbValue {
+    return address ? address.toString() : null;
+}
@@ -0,0 +1,308 @@
+import {
+    Address,
+    beginCell,
+    BitBuilder,
+    BitString,
+    Builder,
+    Cell,
+    ExternalAddress,
+} from '@ton/core';
+import { SignDataPayloadCell } from './types';
+import { parseTlbSchema, TlbConstructor, TlbSchema, TlbType } from './tlb';
+
+/**
+ * Plain JS value accepted by `buildTlbCell`.
+ *
+ * Same shape as `TlbValue` returned by `decodeTlbCell`, with more lenient
+ * inputs: integers may also be bigint, addresses may be `Address` objects,
+ * cells may be `Cell` objects, and `undefined` is accepted for `Maybe`.
+ * "@type" selects the constructor and may be omitted when the type has a
+ * single constructor.
+ */
+export type TlbInput =
+    | null
+    | undefined
+    | boolean
+    | number
+    | bigint
+    | string
+    | Address
+    | ExternalAddress
+    | Cell
+    | { [key: string]: TlbInput };
+
+type TlbObject = { [key: string]: TlbInput };
+
+/**
+ * Builds a cell from a plain JS value according to the root type of a TL-B
+ * schema. Inverse of `decodeTlbCell`.
+ *
+ * @throws if the value does not match the schema
+ */
+export function buildTlbCell(
+    schema: string | TlbSchema,
+    value: TlbInput
+): Cell {
+    const parsed = typeof schema === 'string' ? parseTlbSchema(schema) : schema;
+    const builder = beginCell();
+    storeNamed(builder, parsed, parsed.root, value, parsed.root);
+    return builder.endCell();
+}
+
+/**
+ * Builds a `cell` sign-data payload, keeping `schema` and `cell` in sync.
+ *
+ * @example
+ * createCellPayload(
+ *     'transfer#123 amount:Coins to:MsgAddress comment:string = Transfer',
+ *     { amount: 1_000_000_000n, to: address, comment: 'Transfer 1 TON' }
+ * );
+ */
+export function createCellPayload(
+    schema: string,
+    value: TlbInput
+): SignDataPayloadCell {
+    return {
+        type: 'cell',
+        schema,
+        cell: buildTlbCell(schema, value).toBoc().toString('base64'),
+    };
+}
+
+function storeNamed(
+    builder: Builder,
+    schema: TlbSchema,
+    typeName: string,
+    value: TlbInput,
+    path: string
+): void {
+    if (!isObject(value)) {
+        throw new Error(`TL-B: expected object for "${path}"`);
+    }
+
+    const ctor = pickConstructor(schema.types.get(typeName)!, value, path);
+    if (ctor.tag.bits > 0) {
+        builder.storeUint(ctor.tag.value, ctor.tag.bits);
+    }
+
+    for (const field of ctor.fields) {
+        storeType(
+            builder,
+            schema,
+            field.type,
+            value[field.name],
+            `${path}.${field.name}`
+        );
+    }
+}
+
+function pickConstructor(
+    constructors: TlbConstructor[],
+    value: TlbObject,
+    path: string
+): TlbConstructor {
+    const name = value['@type'];
+    if (name === undefined) {
+        if (constructors.length > 1) {
+            throw new Error(
+                `TL-B: "@type" is required for "${path}", one of: ${constructors.map((c) => c.name).join(', ')}`
+            );
+        }
+        return constructors[0];
+    }
+
+    const ctor = constructors.find((c) => c.name === name);
+    if (!ctor) {
+        throw new Error(`TL-B: unknown constructor "${name}" for "${path}"`);
+    }
+    return ctor;
+}
+
+function storeType(
+    builder: Builder,
+    schema: TlbSchema,
+    type: TlbType,
+    value: TlbInput,
+    path: string
+): void {
+    try {
+        switch (type.kind) {
+            case 'uint':
+                builder.storeUint(toBigInt(value, path), type.bits);
+                return;
+            case 'int':
+                builder.storeInt(toBigInt(value, path), type.bits);
+                return;
+            case 'bits':
+                builder.storeBits(toBits(value, type.bits, path));
+                return;
+            case 'bool':
+                if (typeof value !== 'boolean') {
+                    throw new Error(`TL-B: expected boolean for "${path}"`);
+                }
+                builder.storeBit(value);
+                return;
+            case 'coins':
+                builder.storeCoins(toBigInt(value, path));
+                return;
+            case 'address':
+                builder.storeAddress(toAddress(value, path));
+                return;
+            case 'cell':
+                builder.storeSlice(toCell(value, path).beginParse());
+                return;
+            case 'string':
+                if (typeof value !== 'string') {
+                    throw new Error(`TL-B: expected string for "${path}"`);
+                }
+                builder.storeStringTail(value);
+                return;
+            case 'maybe':
+                if (value === null || value === undefined) {
+                    builder.storeBit(0);
+                } else {
+                    builder.storeBit(1);
+                    storeType(builder, schema, type.inner, value, path);
+                }
+                return;
+            case 'either':
+                storeEither(builder, schema, type, value, path);
+                return;
+            case 'ref':
+                builder.storeRef(buildRef(schema, type.inner, value, path));
+                return;
+            case 'named':
+                storeNamed(builder, schema, type.name, value, path);
+                return;
+        }
+    } catch (e) {
+        const message = (e as Error).message;
+        throw new Error(
+            message.startsWith('TL-B:')
+                ? message
+                : `TL-B: cannot store "${path}": ${message}`
+        );
+    }
+}
+
+function storeEither(
+    builder: Builder,
+    schema: TlbSchema,
+    type: TlbType & { kind: 'either' },
+    value: TlbInput,
+    path: string
+): void {
+    if (isObject(value) && 'left' in value && !('right' in value)) {
+        builder.storeBit(0);
+        storeType(builder, schema, type.left, value.left, path);
+        return;
+    }
+    if (isObject(value) && 'right' in value && !('left' in value)) {
+        builder.storeBit(1);
+        storeType(builder, schema, type.right, value.right, path);
+        return;
+    }
+    throw new Error(
+        `TL-B: expected { left } or { right } for Either "${path}"`
+    );
+}
+
+function buildRef(
+    schema: TlbSchema,
+    type: TlbType,
+    value: TlbInput,
+    path: string
+): Cell {
+    // ^Cell is the referenced cell itself
+    if (type.kind === 'cell') {
+        return toCell(value, path);
+    }
+    const builder = beginCell();
+    storeType(builder, schema, type, value, path);
+    return builder.endCell();
+}
+
+function isObject(value: TlbInput): value is TlbObject {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        !(value instanceof Address) &&
+        !(value instanceof ExternalAddress) &&
+        !(value instanceof Cell)
+    );
+}
+
+function toBigInt(value: TlbInput, path: string): bigint {
+    if (typeof value === 'bigint') {
+        return value;
+    }
+    if (typeof value === 'number' && Number.isSafeInteger(value)) {
+        return BigInt(value);
+    }
+    if (typeof value === 'string' && /^-?\d+$/.test(value)) {
+        return BigInt(value);
+    }
+    throw new Error(`TL-B: expected integer for "${path}"`);
+}
+
+function toBits(value: TlbInput, bits: number, path: string): BitString {
+    if (typeof value !== 'string' || !/^[0-9a-fA-F]*_?$/.test(value)) {
+        throw new Error(`TL-B: expected hex string for "${path}"`);
+    }
+    const parsed = parseFiftHex(value);
+    if (parsed.length !== bits) {
+        throw new Error(
+            `TL-B: expected ${bits} bits for "${path}", got ${parsed.length}`
+        );
+    }
+    return parsed;
+}
+
+/**
+ * Parses Fift hex notation produced by `BitString.toString()`: a trailing
+ * "_" means the last nibble is completed with a "1" bit followed by zeros.
+ */
+function parseFiftHex(value: string): BitString {
+    const padded = value.endsWith('_');
+    const hex = padded ? value.slice(0, -1) : value;
+
+    const builder = new BitBuilder(hex.length * 4);
+    for (const digit of hex) {
+        builder.writeUint(parseInt(digit, 16), 4);
+    }
+    const bits = builder.build();
+    if (!padded) {
+        return bits;
+    }
+
+    let length = bits.length;
+    while (length > 0 && !bits.at(length - 1)) length--;
+    return bits.substring(0, Math.max(length - 1, 0));
+}
+
+function toAddress(
+    value: TlbInput,
+    path: string
+): Address | ExternalAddress | null {
+    if (
+        value === null ||
+        value instanceof Address ||
+        value instanceof ExternalAddress
+    ) {
+        return value;
+    }
+    if (typeof value === 'string') {
+        return Address.parse(value);
+    }
+    throw new Error(`TL-B: expected address for "${path}"`);
+}
+
+function toCell(value: TlbInput, path: string): Cell {
+    if (value instanceof Cell) {
+        return value;
+    }
+    if (typeof value === 'string') {
+        return Cell.fromBase64(value);
+    }
+    throw new Error(`TL-B: expected cell for "${path}"`);
+}
@@ -0,0 +1,322 @@
+/**
+ * Minimal TL-B schema parser for sign-data cell payloads.
+ *
+ * Supported syntax:
+ *   • declarations `ctor#tag field:Type ... = Result;` separated by ";"
+ *   • tags: `#hex`, `$binary`, `#_`/`$_` or no tag (empty tag)
+ *   • `uintN`, `intN`, `bitsN`, `(## N)`, `Bit`, `Bool`, `Coins`/`Grams`,
+ *     `MsgAddress`/`MsgAddressInt`/`MsgAddressExt`, `Cell`, `string`
+ *   • `(Maybe X)`, `(Either X Y)`, `^X`, and references to types declared
+ *     in the same schema
+ *   • `//` and `/* *\/` comments
+ *
+ * `string` follows the convention used by `storeStringTail`: UTF-8 bytes
+ * stored as a snake (the rest of the cell, continued in the first ref).
+ *
+ * Implicit fields (`{n:#}`), constraints, parametrized user types and
+ * anonymous cells (`^[ ... ]`) are not supported. A constructor without an
+ * explicit tag is treated as having an empty tag, not a CRC32-derived one.
+ *
+ * The root type of the payload is the result type of the last declaration.
+ */
+
+export type TlbType =
+    | { kind: 'uint'; bits: number }
+    | { kind: 'int'; bits: number }
+    | { kind: 'bits'; bits: number }
+    | { kind: 'bool' }
+    | { kind: 'coins' }
+    | { kind: 'address' }
+    | { kind: 'cell' }
+    | { kind: 'string' }
+    | { kind: 'maybe'; inner: TlbType }
+    | { kind: 'either'; left: TlbType; right: TlbType }
+    | { kind: 'ref'; inner: TlbType }
+    | { kind: 'named'; name: string };
+
+export interface TlbField {
+    name: string;
+    type: TlbType;
+}
+
+export interface TlbConstructor {
+    name: string;
+    tag: { bits: number; value: bigint };
+    fields: TlbField[];
+    resultType: string;
+}
+
+export interface TlbSchema {
+    constructors: TlbConstructor[];
+    types: Map<string, TlbConstructor[]>;
+    root: string;
+}
+
+const TOKEN_RE =
+    /\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/|##|[()^:=;{}[\]#]|[A-Za-z_][A-Za-z0-9_]*(?:#[0-9a-fA-F_]*|\$[01_]*)?|\d+/y;
+
+function tokenize(schema: string): string[] {
+    const tokens: string[] = [];
+    TOKEN_RE.lastIndex = 0;
+    while (TOKEN_RE.lastIndex < schema.length) {
+        const start = TOKEN_RE.lastIndex;
+        const match = TOKEN_RE.exec(schema);
+        if (!match) {
+            throw new Error(
+                `TL-B: unexpected character "${schema[start]}" at position ${start}`
+            );
+        }
+        const token = match[0];
+        if (/^\s/.test(token) || token.startsWith('/')) {
+            continue;
+        }
+        tokens.push(token);
+    }
+    return tokens;
+}
+
+/**
+ * Parses a TL-B schema into constructors grouped by result type.
+ *
+ * @throws on syntax errors and unsupported TL-B features
+ */
+export function parseTlbSchema(schema: string): TlbSchema {
+    const tokens = tokenize(schema);
+    const constructors: TlbConstructor[] = [];
+
+    let start = 0;
+    for (let i = 0; i <= tokens.length; i++) {
+        if (i === tokens.length || tokens[i] === ';') {
+            if (i > start) {
+                constructors.push(parseDeclaration(tokens.slice(start, i)));
+            }
+            start = i + 1;
+        }
+    }
+
+    if (constructors.length === 0) {
+        throw new Error('TL-B: schema has no declarations');
+    }
+
+    const types = new Map<string, TlbConstructor[]>();
+    for (const ctor of constructors) {
+        const list = types.get(ctor.resultType) ?? [];
+        list.push(ctor);
+        types.set(ctor.resultType, list);
+    }
+
+    const parsed = {
+        constructors,
+        types,
+        root: constructors[constructors.length - 1].resultType,
+    };
+    for (const ctor of constructors) {
+        for (const field of ctor.fields) {
+            checkTypeRefs(field.type, parsed, `${ctor.name}.${field.name}`);
+        }
+    }
+    return parsed;
+}
+
+function parseDeclaration(tokens: string[]): TlbConstructor {
+    const eq = tokens.indexOf('=');
+    if (eq < 1) {
+        throw new Error(`TL-B: expected "=" in "${tokens.join(' ')}"`);
+    }
+    if (tokens.length !== eq + 2 || !/^[A-Za-z_]\w*$/.test(tokens[eq + 1])) {
+        throw new Error(
+            `TL-B: expected single result type after "=" in "${tokens.join(' ')}"`
+        );
+    }
+
+    const { name, tag } = parseConstructorName(tokens[0]);
+    const fields: TlbField[] = [];
+
+    let pos = 1;
+    while (pos < eq) {
+        const fieldName = tokens[pos];
+        if (fieldName === '{' || fieldName === '[') {
+            throw new Error(
+                `TL-B: implicit fields and anonymous cells are not supported (in "${name}")`
+            );
+        }
+        if (!/^[A-Za-z_]\w*$/.test(fieldName) || tokens[pos + 1] !== ':') {
+            throw new Error(
+                `TL-B: expected "name:Type" field, got "${fieldName}" (in "${name}")`
+            );
+        }
+        const [type, next] = parseTerm(tokens, pos + 2, eq);
+        fields.push({ name: fieldName, type });
+        pos = next;
+    }
+
+    return { name, tag, fields, resultType: tokens[eq + 1] };
+}
+
+function parseConstructorName(token: string): {
+    name: string;
+    tag: { bits: number; value: bigint };
+} {
+    const match = /^([A-Za-z_]\w*)(?:([#$])([0-9a-fA-F_]*))?$/.exec(token);
+    if (!match) {
+        throw new Error(`TL-B: invalid constructor name "${token}"`);
+    }
+    const [, name, kind, digits] = match;
+
+    if (!kind || digits === '_' || digits === '') {
+        return { name, tag: { bits: 0, value: 0n } };
+    }
+    if (kind === '#') {
+        if (!/^[0-9a-fA-F]+$/.test(digits)) {
+            throw new Error(`TL-B: invalid hex tag in "${token}"`);
+        }
+        return {
+            name,
+            tag: { bits: digits.length * 4, value: BigInt('0x' + digits) },
+        };
+    }
+    if (!/^[01]+$/.test(digits)) {
+        throw new Error(`TL-B: invalid binary tag in "${token}"`);
+    }
+    return { name, tag: { bits: digits.length, value: BigInt('0b' + digits) } };
+}
+
+/**
+ * Parses a single type term starting at `pos`.
+ *
+ * @returns parsed type and position after the term
+ */
+function parseTerm(
+    tokens: string[],
+    pos: number,
+    end: number
+): [TlbType, number] {
+    const token = tokens[pos];
+    if (pos >= end) {
+        throw new Error('TL-B: unexpected end of field type');
+    }
+
+    if (token === '^') {
+        const [inner, next] = parseTerm(tokens, pos + 1, end);
+        return [{ kind: 'ref', inner }, next];
+    }
+
+    if (token === '(') {
+        const close = findClosingParen(tokens, pos, end);
+        const args: TlbType[] = [];
+        const head = tokens[pos + 1];
+
+        if (head === '##') {
+            const bits = parseBitSize(tokens[pos + 2]);
+            if (pos + 3 !== close) {
+                throw new Error('TL-B: expected "(## N)"');
+            }
+            return [{ kind: 'uint', bits }, close + 1];
+        }
+
+        if (head === '^' || head === '(') {
+            const [inner, next] = parseTerm(tokens, pos + 1, close);
+            if (next !== close) {
+                throw new Error('TL-B: unexpected tokens after type in "( )"');
+            }
+            return [inner, close + 1];
+        }
+
+        let argPos = pos + 2;
+        while (argPos < close) {
+            const [arg, next] = parseTerm(tokens, argPos, close);
+            args.push(arg);
+            argPos = next;
+        }
+
+        if (head === 'Maybe' && args.length === 1) {
+            return [{ kind: 'maybe', inner: args[0] }, close + 1];
+        }
+        if (head === 'Either' && args.length === 2) {
+            return [
+                { kind: 'either', left: args[0], right: args[1] },
+                close + 1,
+            ];
+        }
+        if (args.length === 0) {
+            return [parseAtom(head), close + 1];
+        }
+        throw new Error(`TL-B: unsupported type expression "(${head} ...)"`);
+    }
+
+    return [parseAtom(token), pos + 1];
+}
+
+function findClosingParen(tokens: string[], pos: number, end: number): number {
+    let depth = 0;
+    for (let i = pos; i < end; i++) {
+        if (tokens[i] === '(') depth++;
+        if (tokens[i] === ')' && --depth === 0) return i;
+    }
+    throw new Error('TL-B: unbalanced parentheses');
+}
+
+function parseBitSize(token: string): number {
+    const bits = Number(token);
+    if (!/^\d+$/.test(token) || bits > 1023) {
+        throw new Error(`TL-B: invalid bit size "${token}"`);
+    }
+    return bits;
+}
+
+function parseAtom(token: string): TlbType {
+    const sized = /^(uint|int|bits)(\d+)$/.exec(token);
+    if (sized) {
+        const bits = parseBitSize(sized[2]);
+        if (sized[1] !== 'bits' && (bits === 0 || bits > 257)) {
+            throw new Error(`TL-B: invalid integer size in "${token}"`);
+        }
+        return { kind: sized[1] as 'uint' | 'int' | 'bits', bits };
+    }
+
+    switch (token) {
+        case 'Bit':
+            return { kind: 'uint', bits: 1 };
+        case 'Bool':
+            return { kind: 'bool' };
+        case 'Coins':
+        case 'Grams':
+            return { kind: 'coins' };
+        case 'MsgAddress':
+        case 'MsgAddressInt':
+        case 'MsgAddressExt':
+            return { kind: 'address' };
+        case 'Cell':
+        case 'Any':
+            return { kind: 'cell' };
+        case 'string':
+            return { kind: 'string' };
+        case 'Maybe':
+        case 'Either':
+            throw new Error(`TL-B: "${token}" requires parentheses`);
+    }
+
+    if (!/^[A-Za-z_]\w*$/.test(token)) {
+        throw new Error(`TL-B: unexpected token "${token}"`);
+    }
+    return { kind: 'named', name: token };
+}
+
+function checkTypeRefs(type: TlbType, schema: TlbSchema, path: string): void {
+    switch (type.kind) {
+        case 'named':
+            if (!schema.types.has(type.name)) {
+                throw new Error(
+                    `TL-B: unknown type "${type.name}" in field "${path}"`
+                );
+            }
+            return;
+        case 'maybe':
+        case 'ref':
+            return checkTypeRefs(type.inner, schema, path);
+        case 'either':
+            checkTypeRefs(type.left, schema, path);
+            checkTypeRefs(type.right, schema, path);
+            return;
+    }
+}
@@ -0,0 +1,364 @@
+import { Address } from '@ton/core';
+import { TonProof, TonProofParams } from './types';
+import { encodeDomain, encodeWorkchain } from './utils';
+import {
+    checkChallengeAnswer,
+    checkPolicies,
+    checkSignedFields,
+    markSignatureSeen,
+    markSignatureSeenSync,
+    PreparedVerification,
+    VerifyFailure,
+    VerifyOptions,
+    VerifyResult,
+} from './verify';
+import { getCryptoProvider, getSyncCryptoProvider } from './crypto';
+
+// The payload is a string, not a cell: there is no schema to check
+export interface VerifyTonProofParams extends Omit<
+    VerifyOptions,
+    'strictSchema'
+> {
+    address: string; // account address sent with the proof
+    proof: TonProof;
+    publicKey: Uint8Array;
+}
+
+export type TonProofMessagePart =
+    | 'prefix'
+    | 'workchain'
+    | 'address_hash'
+    | 'domain_length'
+    | 'domain'
+    | 'timestamp'
+    | 'payload';
+
+/**
+ * Creates hash for ton_proof, which is what the wallet signs.
+ * Message format:
+ * message = "ton-proof-item-v2/" || workchain || address_hash || domain_len || domain || timestamp || payload
+ * hash = sha256(0xffff || "ton-connect" || sha256(message))
+ */
+export function createTonProofHash(
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number,
+    payload: string
+): Buffer {
+    const crypto = getSyncCryptoProvider();
+    const message = createTonProofMessage(
+        parsedAddr,
+        domain,
+        timestamp,
+        payload
+    );
+    return Buffer.from(
+        crypto.sha256Sync(
+            Buffer.concat([TON_PROOF_HASH_PREFIX, crypto.sha256Sync(message)])
+        )
+    );
+}
+
+/**
+ * Same as `createTonProofHash`, hashing with the selected crypto provider
+ * even if it is asynchronous-only (e.g. WebCrypto).
+ */
+export async function createTonProofHashAsync(
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number,
+    payload: string
+): Promise<Buffer> {
+    const crypto = getCryptoProvider();
+    const message = createTonProofMessage(
+        parsedAddr,
+        domain,
+        timestamp,
+        payload
+    );
+    return Buffer.from(
+        await crypto.sha256(
+            Buffer.concat([TON_PROOF_HASH_PREFIX, await crypto.sha256(message)])
+        )
+    );
+}
+
+/**
+ * Creates the ton_proof message, before hashing.
+ */
+export function createTonProofMessage(
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number,
+    payload: string
+): Buffer {
+    return Buffer.concat(
+        createTonProofMessageParts(parsedAddr, domain, timestamp, payload).map(
+            (part) => part.bytes
+        )
+    );
+}
+
+/**
+ * Creates the labelled parts of the ton_proof message, in order.
+ * Unlike sign-data, the domain length and timestamp are little-endian.
+ */
+export function createTonProofMessageParts(
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number,
+    payload: string
+): { label: TonProofMessagePart; bytes: Buffer }[] {
+    const { length: domainLenBuffer, bytes: domainBuffer } = encodeDomain(
+        domain,
+        'LE'
+    );
+
+    const tsBuffer = Buffer.alloc(8);
+    tsBuffer.writeBigUInt64LE(BigInt(timestamp));
+
+    return [
+        { label: 'prefix', bytes: Buffer.from('ton-proof-item-v2/') },
+        { label: 'workchain', bytes: encodeWorkchain(parsedAddr) },
+        { label: 'address_hash', bytes: parsedAddr.hash },
+        { label: 'domain_length', bytes: domainLenBuffer },
+        { label: 'domain', bytes: domainBuffer },
+        { label: 'timestamp', bytes: tsBuffer },
+        { label: 'payload', bytes: Buffer.from(payload, 'utf8') },
+    ];
+}
+
+/**
+ * Signs a ton_proof the way a wallet answers a TON Connect `ton_proof`
+ * connect item.
+ *
+ * @returns proof with base64 signature, as sent in `TonProofItemReply`
+ */
+export function signTonProof(params: TonProofParams): TonProof {
+    const { proof, parsedAddr } = prepareTonProof(params);
+    const finalHash = createTonProofHash(
+        parsedAddr,
+        proof.domain.value,
+        proof.timestamp,
+        proof.payload
+    );
+
+    const signature = getSyncCryptoProvider().signSync(
+        new Uint8Array(finalHash),
+        new Uint8Array(params.privateKey)
+    );
+
+    return { ...proof, signature: Buffer.from(signature).toString('base64') };
+}
+
+/**
+ * Same as `signTonProof`, hashing and signing with the selected crypto
+ * provider even if it is asynchronous-only (e.g. WebCrypto).
+ */
+export async function signTonProofAsync(
+    params: TonProofParams
+): Promise<TonProof> {
+    const { proof, parsedAddr } = prepareTonProof(params);
+    const finalHash = await createTonProofHashAsync(
+        parsedAddr,
+        proof.domain.value,
+        proof.timestamp,
+        proof.payload
+    );
+
+    const signature = await getCryptoProvider().sign(
+        new Uint8Array(finalHash),
+        new Uint8Array(params.privateKey)
+    );
+
+    return { ...proof, signature: Buffer.from(signature).toString('base64') };
+}
+
+/**
+ * Verifies ton_proof signature.
+ *
+ * Takes the same `VerifyOptions` as sign-data verification but
+ * `strictSchema`: the expected nonce must be part of the payload string, a
+ * `text` challenge is answered by a proof whose payload is the challenge
+ * text, and `maxPayloadBytes` limits the payload in UTF-8 bytes.
+ *
+ * @param params Verification parameters
+ * @returns true if signature is valid
+ */
+export function verifyTonProof(params: VerifyTonProofParams): boolean {
+    return verifyTonProofDetailed(params).valid;
+}
+
+/**
+ * Verifies ton_proof signature and explains why it was rejected, with the
+ * failure reasons of `verifySignDataDetailed`.
+ *
+ * @param params Verification parameters
+ * @returns `{ valid: true }` or the first failed check
+ */
+export function verifyTonProofDetailed(
+    params: VerifyTonProofParams
+): VerifyResult {
+    const prepared = prepareTonProofVerification(params);
+    if ('valid' in prepared) {
+        return prepared;
+    }
+
+    const { domain, timestamp, payload } = params.proof;
+    const finalHash = createTonProofHash(
+        prepared.parsedAddr,
+        domain.value,
+        timestamp,
+        payload
+    );
+
+    const isValid = getSyncCryptoProvider().verifySync(
+        new Uint8Array(finalHash),
+        new Uint8Array(prepared.signature),
+        new Uint8Array(params.publicKey)
+    );
+    if (!isValid) {
+        return fail('invalid_signature', 'Signature does not match');
+    }
+
+    return markSignatureSeenSync(params, timestamp, finalHash);
+}
+
+/**
+ * Same as `verifyTonProofDetailed`, hashing and checking the signature
+ * with the selected crypto provider even if it is asynchronous-only (e.g.
+ * WebCrypto).
+ */
+export async function verifyTonProofAsync(
+    params: VerifyTonProofParams
+): Promise<VerifyResult> {
+    const prepared = prepareTonProofVerification(params);
+    if ('valid' in prepared) {
+        return prepared;
+    }
+
+    const { domain, timestamp, payload } = params.proof;
+    const finalHash = await createTonProofHashAsync(
+        prepared.parsedAddr,
+        domain.value,
+        timestamp,
+        payload
+    );
+
+    const isValid = await getCryptoProvider().verify(
+        new Uint8Array(finalHash),
+        new Uint8Array(prepared.signature),
+        new Uint8Array(params.publicKey)
+    );
+    if (!isValid) {
+        return fail('invalid_signature', 'Signature does not match');
+    }
+
+    return markSignatureSeen(params, timestamp, finalHash);
+}
+
+const TON_PROOF_HASH_PREFIX = Buffer.concat([
+    Buffer.from([0xff, 0xff]),
+    Buffer.from('ton-connect'),
+]);
+
+/**
+ * Fixes the timestamp and the domain length.
+ */
+function prepareTonProof(params: TonProofParams): {
+    proof: Omit<TonProof, 'signature'>;
+    parsedAddr: Address;
+} {
+    const { address, domain, payload } = params;
+    const timestamp = params.timestamp ?? Math.floor(Date.now() / 1000);
+    const parsedAddr = Address.parse(address);
+
+    return {
+        proof: {
+            timestamp,
+            domain: {
+                lengthBytes: Buffer.byteLength(domain, 'utf8'),
+                value: domain,
+            },
+            payload,
+        },
+        parsedAddr,
+    };
+}
+
+/**
+ * Runs the checks of `verifyTonProofDetailed` that come before hashing and
+ * the signature check.
+ */
+function prepareTonProofVerification(
+    params: VerifyTonProofParams
+): PreparedVerification | VerifyFailure {
+    const { address, proof, publicKey } = params;
+    const { signature, timestamp, domain, payload } = proof;
+
+    const common = checkSignedFields({
+        address,
+        signature,
+        timestamp,
+        publicKey,
+    });
+    if ('valid' in common) {
+        return common;
+    }
+
+    if (typeof payload !== 'string') {
+        return fail('malformed_payload', 'Payload must be a string');
+    }
+    if (
+        params.maxPayloadBytes !== undefined &&
+        Buffer.byteLength(payload, 'utf8') > params.maxPayloadBytes
+    ) {
+        return fail(
+            'payload_too_large',
+            `Payload must be at most ${params.maxPayloadBytes} bytes`
+        );
+    }
+    if (typeof domain?.value !== 'string') {
+        return fail('malformed_domain', 'Domain must be a string');
+    }
+    if (domain.lengthBytes !== Buffer.byteLength(domain.value, 'utf8')) {
+        return fail(
+            'malformed_domain',
+            `Domain length ${domain.lengthBytes} does not match "${domain.value}"`
+        );
+    }
+
+    const policyFailure = checkPolicies(
+        address,
+        domain.value,
+        timestamp,
+        params
+    );
+    if (policyFailure) {
+        return policyFailure;
+    }
+
+    if (
+        params.expectedNonce !== undefined &&
+        !payload.includes(params.expectedNonce)
+    ) {
+        return fail(
+            'nonce_mismatch',
+            'Payload does not contain expected nonce'
+        );
+    }
+
+    const challengeFailure = checkChallengeAnswer(
+        { payload: { type: 'text', text: payload }, domain: domain.value },
+        params
+    );
+    if (challengeFailure) {
+        return challengeFailure;
+    }
+
+    return common;
+}
+
+function fail(reason: VerifyFailure['reason'], message: string): VerifyFailure {
+    return { valid: false, reason, message };
+}
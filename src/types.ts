@@ -19,8 +19,12 @@ export type SignDataPayload = SignDataPayloadText | SignDataPayloadBinary | Sign
 export interface SignDataParams {
   payload: SignDataPayload;
   domain: string;
-  privateKey: Buffer;
+  privateKey: Uint8Array; // 64-byte Ed25519 secret key
   address: string;
+  strictSchema?: boolean; // reject cell payload that does not fully match its TL-B schema
+  timestamp?: number; // unix seconds, defaults to now
+  network?: TonNetwork; // reject a user-friendly address flagged for the other network
+  maxPayloadBytes?: number; // reject larger text (UTF-8), binary or cell BOC payload
 }
 
 export interface SignDataResult {
@@ -29,4 +33,26 @@ export interface SignDataResult {
   timestamp: number;
   domain: string;
   payload: SignDataPayload;
-} 
\ No newline at end of file
+  addressRaw?: string; // "<workchain>:<hex>", not signed
+  addressFriendly?: string; // non-bounceable user-friendly form, not signed
+} 
+
+export interface TonProof {
+  timestamp: number; // unix seconds
+  domain: {
+    lengthBytes: number; // UTF-8 length of value
+    value: string;
+  };
+  payload: string;
+  signature: string; // base64
+}
+
+export interface TonProofParams {
+  address: string;
+  domain: string;
+  payload: string;
+  privateKey: Uint8Array; // 64-byte Ed25519 secret key
+  timestamp?: number; // unix seconds, defaults to now
+}
+
+export type TonNetwork = "-239" | "-3"; // mainnet, testnet (TON Connect CHAIN)
@@ -1,4 +1,3 @@
-import crypto from 'crypto';
 import { Address, beginCell, Cell } from '@ton/core';
 import {
     SignDataPayloadText,
@@ -6,7 +5,8 @@ import {
     SignDataPayload,
 } from './types';
 import crc32 from 'crc-32';
-import { toASCII } from 'node:punycode';
+import punycode from 'punycode/punycode.js';
+import { getCryptoProvider, getSyncCryptoProvider } from './crypto';
 
 /**
  * Creates hash for text or binary payload.
@@ -19,45 +19,181 @@ export function createTextBinaryHash(
     domain: string,
     timestamp: number
 ): Buffer {
-    // Create workchain buffer
-    const wcBuffer = Buffer.alloc(4);
-    wcBuffer.writeInt32BE(parsedAddr.workChain);
+    const message = createTextBinaryMessage(
+        payload,
+        parsedAddr,
+        domain,
+        timestamp
+    );
+
+    // Hash message with sha256
+    return Buffer.from(getSyncCryptoProvider().sha256Sync(message));
+}
+
+/**
+ * Creates the hash that is signed, for any payload type.
+ */
+export function createSignDataHash(
+    payload: SignDataPayload,
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number
+): Buffer {
+    return payload.type === 'cell'
+        ? createCellHash(payload, parsedAddr, domain, timestamp)
+        : createTextBinaryHash(payload, parsedAddr, domain, timestamp);
+}
 
-    // Create domain buffer
-    const domainBuffer = Buffer.from(domain, 'utf8');
-    const domainLenBuffer = Buffer.alloc(4);
-    domainLenBuffer.writeUInt32BE(domainBuffer.length);
+/**
+ * Same as `createSignDataHash`, hashing text and binary messages with the
+ * selected crypto provider even if it is asynchronous-only (e.g. WebCrypto).
+ */
+export async function createSignDataHashAsync(
+    payload: SignDataPayload,
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number
+): Promise<Buffer> {
+    if (payload.type === 'cell') {
+        return createCellHash(payload, parsedAddr, domain, timestamp);
+    }
+    const message = createTextBinaryMessage(
+        payload,
+        parsedAddr,
+        domain,
+        timestamp
+    );
+    return Buffer.from(await getCryptoProvider().sha256(message));
+}
+
+/**
+ * Creates the message hashed by `createTextBinaryHash`, before hashing.
+ */
+export function createTextBinaryMessage(
+    payload: SignDataPayloadText | SignDataPayloadBinary,
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number
+): Buffer {
+    return Buffer.concat(
+        createTextBinaryMessageParts(
+            payload,
+            parsedAddr,
+            domain,
+            timestamp
+        ).map((part) => part.bytes)
+    );
+}
+
+export type TextBinaryMessagePart =
+    | 'prefix'
+    | 'workchain'
+    | 'address_hash'
+    | 'domain_length'
+    | 'domain'
+    | 'timestamp'
+    | 'type'
+    | 'payload_length'
+    | 'payload';
+
+/**
+ * Creates the labelled parts of the text or binary message, in order.
+ * Concatenated, they form the message returned by `createTextBinaryMessage`.
+ */
+export function createTextBinaryMessageParts(
+    payload: SignDataPayloadText | SignDataPayloadBinary,
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number
+): { label: TextBinaryMessagePart; bytes: Buffer }[] {
+    const payloadBuffer =
+        payload.type === 'text'
+            ? Buffer.from(payload.text, 'utf8')
+            : Buffer.from(payload.bytes, 'base64');
+
+    return [
+        ...createTextBinaryHeaderParts(
+            payload.type,
+            payloadBuffer.length,
+            parsedAddr,
+            domain,
+            timestamp
+        ),
+        { label: 'payload', bytes: payloadBuffer },
+    ];
+}
+
+/**
+ * Creates the parts of the text or binary message that come before the
+ * payload itself, for a payload of `payloadLength` bytes.
+ */
+export function createTextBinaryHeaderParts(
+    type: 'text' | 'binary',
+    payloadLength: number,
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number
+): { label: Exclude<TextBinaryMessagePart, 'payload'>; bytes: Buffer }[] {
+    const wcBuffer = encodeWorkchain(parsedAddr);
+    const { length: domainLenBuffer, bytes: domainBuffer } = encodeDomain(
+        domain,
+        'BE'
+    );
 
     // Create timestamp buffer
     const tsBuffer = Buffer.alloc(8);
     tsBuffer.writeBigUInt64BE(BigInt(timestamp));
 
-    // Create payload buffer
-    const typePrefix = payload.type === 'text' ? 'txt' : 'bin';
-    const content = payload.type === 'text' ? payload.text : payload.bytes;
-    const encoding = payload.type === 'text' ? 'utf8' : 'base64';
-
-    const payloadPrefix = Buffer.from(typePrefix);
-    const payloadBuffer = Buffer.from(content, encoding);
+    // Create payload prefix
+    const payloadPrefix = Buffer.from(type === 'text' ? 'txt' : 'bin');
     const payloadLenBuffer = Buffer.alloc(4);
-    payloadLenBuffer.writeUInt32BE(payloadBuffer.length);
+    payloadLenBuffer.writeUInt32BE(payloadLength);
 
     // Build message
-    const message = Buffer.concat([
-        Buffer.from([0xff, 0xff]),
-        Buffer.from('ton-connect/sign-data/'),
-        wcBuffer,
-        parsedAddr.hash,
-        domainLenBuffer,
-        domainBuffer,
-        tsBuffer,
-        payloadPrefix,
-        payloadLenBuffer,
-        payloadBuffer,
-    ]);
+    return [
+        {
+            label: 'prefix',
+            bytes: Buffer.concat([
+                Buffer.from([0xff, 0xff]),
+                Buffer.from('ton-connect/sign-data/'),
+            ]),
+        },
+        { label: 'workchain', bytes: wcBuffer },
+        { label: 'address_hash', bytes: parsedAddr.hash },
+        { label: 'domain_length', bytes: domainLenBuffer },
+        { label: 'domain', bytes: domainBuffer },
+        { label: 'timestamp', bytes: tsBuffer },
+        { label: 'type', bytes: payloadPrefix },
+        { label: 'payload_length', bytes: payloadLenBuffer },
+    ];
+}
 
-    // Hash message with sha256
-    return crypto.createHash('sha256').update(message).digest();
+/**
+ * Encodes the workchain of an address as int32 big-endian, as both the
+ * sign-data and ton_proof messages do.
+ */
+export function encodeWorkchain(parsedAddr: Address): Buffer {
+    const wcBuffer = Buffer.alloc(4);
+    wcBuffer.writeInt32BE(parsedAddr.workChain);
+    return wcBuffer;
+}
+
+/**
+ * Encodes a domain as UTF-8 with its uint32 byte length. Sign-data writes
+ * the length big-endian, ton_proof little-endian.
+ */
+export function encodeDomain(
+    domain: string,
+    endianness: 'BE' | 'LE'
+): { length: Buffer; bytes: Buffer } {
+    const bytes = Buffer.from(domain, 'utf8');
+    const length = Buffer.alloc(4);
+    if (endianness === 'BE') {
+        length.writeUInt32BE(bytes.length);
+    } else {
+        length.writeUInt32LE(bytes.length);
+    }
+    return { length, bytes };
 }
 
 /**
@@ -69,11 +205,26 @@ export function createCellHash(
     domain: string,
     timestamp: number
 ): Buffer {
+    const message = createCellMessage(payload, parsedAddr, domain, timestamp);
+
+    return Buffer.from(message.hash());
+}
+
+/**
+ * Creates the envelope cell whose representation hash is signed for Cell
+ * payload.
+ */
+export function createCellMessage(
+    payload: SignDataPayload & { type: 'cell' },
+    parsedAddr: Address,
+    domain: string,
+    timestamp: number
+): Cell {
     const cell = Cell.fromBase64(payload.cell);
     const schemaHash = crc32.buf(Buffer.from(payload.schema, 'utf8')) >>> 0; // unsigned crc32 hash
     const encodedDomain = encodeDnsName(domain).toString('utf8');
 
-    const message = beginCell()
+    return beginCell()
         .storeUint(0x75569022, 32) // prefix
         .storeUint(schemaHash, 32) // schema hash
         .storeUint(timestamp, 64) // timestamp
@@ -81,8 +232,29 @@ export function createCellHash(
         .storeStringRefTail(encodedDomain) // app domain
         .storeRef(cell) // payload cell
         .endCell();
+}
 
-    return Buffer.from(message.hash());
+/**
+ * Size of a payload in bytes: UTF-8 text, decoded binary data or decoded
+ * cell BOC.
+ */
+export function signDataPayloadSize(payload: SignDataPayload): number {
+    switch (payload.type) {
+        case 'text':
+            return Buffer.byteLength(payload.text, 'utf8');
+        case 'binary':
+            return Buffer.byteLength(payload.bytes, 'base64');
+        case 'cell':
+            return Buffer.byteLength(payload.cell, 'base64');
+    }
+}
+
+/**
+ * Checks for standard (not url safe) padded base64, as used by TON Connect
+ * for `bytes`, `cell` and `signature`.
+ */
+export function isBase64(value: string): boolean {
+    return value.length % 4 === 0 && /^[A-Za-z0-9+/]*={0,2}$/.test(value);
 }
 
 /**
@@ -120,7 +292,7 @@ export function encodeDnsName(domain: string): Buffer {
             throw new Error('Empty label ("..") not allowed');
         }
         // IDN: convert Unicode → punycode ASCII (xn--…)
-        const ascii = toASCII(lbl);
+        const ascii = punycode.toASCII(lbl);
         // Disallow bytes 0x00–0x20 and label > 63 chars (classic DNS rule)
         if (ascii.length > 63 || /[\x00-\x20]/.test(ascii)) {
             throw new Error(`Invalid label "${lbl}"`);
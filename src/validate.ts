@@ -0,0 +1,292 @@
+import { Address } from '@ton/core';
+import nacl from 'tweetnacl';
+import { SignDataPayload, SignDataResult } from './types';
+import { isBase64 } from './utils';
+
+/**
+ * Size limits for untrusted sign-data JSON. Lengths of base64 fields are
+ * measured after decoding.
+ */
+export interface SignDataLimits {
+    maxTextBytes: number; // UTF-8 encoded text payload
+    maxBinaryBytes: number; // binary payload
+    maxCellBytes: number; // cell payload BOC
+    maxSchemaLength: number; // TL-B schema, characters
+    maxDomainLength: number; // characters
+}
+
+export const DEFAULT_SIGN_DATA_LIMITS: SignDataLimits = {
+    maxTextBytes: 64 * 1024,
+    maxBinaryBytes: 64 * 1024,
+    maxCellBytes: 64 * 1024,
+    maxSchemaLength: 8 * 1024,
+    maxDomainLength: 253,
+};
+
+export interface ParseSignDataOptions {
+    strict?: boolean; // reject fields that are not part of the type
+    limits?: Partial<SignDataLimits>;
+}
+
+/**
+ * Problem found in the input; `path` is the dotted path of the field
+ * (`payload.bytes`), empty for the input itself.
+ */
+export interface SchemaError {
+    path: string;
+    message: string;
+}
+
+export type ParseResult<T> =
+    { valid: true; value: T } | { valid: false; errors: SchemaError[] };
+
+const RESULT_FIELDS = [
+    'signature',
+    'address',
+    'timestamp',
+    'domain',
+    'payload',
+    'addressRaw',
+    'addressFriendly',
+];
+const PAYLOAD_FIELDS: Record<SignDataPayload['type'], string[]> = {
+    text: ['type', 'text'],
+    binary: ['type', 'bytes'],
+    cell: ['type', 'schema', 'cell'],
+};
+
+/**
+ * Checks that untrusted input, typically JSON received from a wallet, is a
+ * well-formed `SignDataResult`.
+ *
+ * Checks types and encodings only: strict (not url-safe) base64 for the
+ * signature and binary/cell payloads, a 64-byte signature, a parseable
+ * address (checksum included), a non-negative safe integer timestamp, a
+ * known payload type and size limits. Whether the signature is valid is left to
+ * `verifySignData`, which should only be called when this succeeds.
+ *
+ * @returns the input typed as `SignDataResult`, or every problem found
+ */
+export function parseSignDataResult(
+    input: unknown,
+    options: ParseSignDataOptions = {}
+): ParseResult<SignDataResult> {
+    const errors: SchemaError[] = [];
+    const limits = { ...DEFAULT_SIGN_DATA_LIMITS, ...options.limits };
+
+    if (!isRecord(input)) {
+        return invalid('', 'Must be an object');
+    }
+    if (options.strict) {
+        checkExtraFields(input, RESULT_FIELDS, '', errors);
+    }
+
+    const { signature, address, timestamp, domain, payload } = input;
+    const { addressRaw, addressFriendly } = input;
+
+    if (typeof signature !== 'string') {
+        errors.push({ path: 'signature', message: 'Must be a string' });
+    } else if (!isBase64(signature)) {
+        errors.push({ path: 'signature', message: 'Must be base64' });
+    } else if (base64Length(signature) !== nacl.sign.signatureLength) {
+        errors.push({
+            path: 'signature',
+            message: `Must be ${nacl.sign.signatureLength} bytes, got ${base64Length(signature)}`,
+        });
+    }
+
+    if (typeof address !== 'string') {
+        errors.push({ path: 'address', message: 'Must be a string' });
+    } else if (!isAddress(address)) {
+        errors.push({ path: 'address', message: 'Must be a TON address' });
+    }
+
+    for (const [path, value] of Object.entries({
+        addressRaw,
+        addressFriendly,
+    })) {
+        if (value !== undefined && typeof value !== 'string') {
+            errors.push({ path, message: 'Must be a string' });
+        }
+    }
+
+    if (
+        typeof timestamp !== 'number' ||
+        // Same bound as verification: larger values lose precision
+        !Number.isSafeInteger(timestamp) ||
+        timestamp < 0
+    ) {
+        errors.push({
+            path: 'timestamp',
+            message: 'Must be an integer between 0 and 2^53 - 1',
+        });
+    }
+
+    if (typeof domain !== 'string') {
+        errors.push({ path: 'domain', message: 'Must be a string' });
+    } else if (domain.length === 0) {
+        errors.push({ path: 'domain', message: 'Must not be empty' });
+    } else if (domain.length > limits.maxDomainLength) {
+        errors.push({
+            path: 'domain',
+            message: `Must be at most ${limits.maxDomainLength} characters`,
+        });
+    }
+
+    errors.push(...checkPayload(payload, 'payload', limits, options.strict));
+
+    return errors.length === 0
+        ? { valid: true, value: input as unknown as SignDataResult }
+        : { valid: false, errors };
+}
+
+/**
+ * Checks that untrusted input is a well-formed `SignDataPayload`, with the
+ * same rules as the payload of `parseSignDataResult`.
+ */
+export function parseSignDataPayload(
+    input: unknown,
+    options: ParseSignDataOptions = {}
+): ParseResult<SignDataPayload> {
+    const limits = { ...DEFAULT_SIGN_DATA_LIMITS, ...options.limits };
+    const errors = checkPayload(input, '', limits, options.strict);
+    return errors.length === 0
+        ? { valid: true, value: input as SignDataPayload }
+        : { valid: false, errors };
+}
+
+/**
+ * Formats schema errors as a single line, e.g. for an exception message.
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+    return errors
+        .map(({ path, message }) => (path ? `${path}: ${message}` : message))
+        .join('; ');
+}
+
+function checkPayload(
+    payload: unknown,
+    path: string,
+    limits: SignDataLimits,
+    strict = false
+): SchemaError[] {
+    const errors: SchemaError[] = [];
+    const field = (name: string) => (path ? `${path}.${name}` : name);
+
+    if (!isRecord(payload)) {
+        return [{ path, message: 'Must be an object' }];
+    }
+    const { type } = payload;
+    if (type !== 'text' && type !== 'binary' && type !== 'cell') {
+        return [
+            {
+                path: field('type'),
+                message: 'Must be one of: text, binary, cell',
+            },
+        ];
+    }
+    if (strict) {
+        checkExtraFields(payload, PAYLOAD_FIELDS[type], path, errors);
+    }
+
+    switch (type) {
+        case 'text':
+            if (typeof payload.text !== 'string') {
+                errors.push({
+                    path: field('text'),
+                    message: 'Must be a string',
+                });
+            } else if (
+                Buffer.byteLength(payload.text, 'utf8') > limits.maxTextBytes
+            ) {
+                errors.push({
+                    path: field('text'),
+                    message: `Must be at most ${limits.maxTextBytes} bytes`,
+                });
+            }
+            break;
+        case 'binary':
+            checkBase64(
+                payload.bytes,
+                field('bytes'),
+                limits.maxBinaryBytes,
+                errors
+            );
+            break;
+        case 'cell':
+            if (typeof payload.schema !== 'string') {
+                errors.push({
+                    path: field('schema'),
+                    message: 'Must be a string',
+                });
+            } else if (payload.schema.length > limits.maxSchemaLength) {
+                errors.push({
+                    path: field('schema'),
+                    message: `Must be at most ${limits.maxSchemaLength} characters`,
+                });
+            }
+            checkBase64(
+                payload.cell,
+                field('cell'),
+                limits.maxCellBytes,
+                errors
+            );
+            break;
+    }
+    return errors;
+}
+
+function checkBase64(
+    value: unknown,
+    path: string,
+    maxBytes: number,
+    errors: SchemaError[]
+): void {
+    if (typeof value !== 'string') {
+        errors.push({ path, message: 'Must be a string' });
+    } else if (!isBase64(value)) {
+        errors.push({ path, message: 'Must be base64' });
+    } else if (base64Length(value) > maxBytes) {
+        errors.push({ path, message: `Must be at most ${maxBytes} bytes` });
+    }
+}
+
+function checkExtraFields(
+    value: Record<string, unknown>,
+    allowed: string[],
+    path: string,
+    errors: SchemaError[]
+): void {
+    for (const key of Object.keys(value)) {
+        if (!allowed.includes(key)) {
+            errors.push({
+                path: path ? `${path}.${key}` : key,
+                message: 'Unknown field',
+            });
+        }
+    }
+}
+
+// Decoded length of a valid base64 string, without decoding it
+function base64Length(value: string): number {
+    const padding = value.endsWith('==') ? 2 : value.endsWith('=') ? 1 : 0;
+    return (value.length / 4) * 3 - padding;
+}
+
+// Address.isFriendly/isRaw check the format only, not the checksum
+function isAddress(value: string): boolean {
+    try {
+        Address.parse(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(path: string, message: string): ParseResult<never> {
+    return { valid: false, errors: [{ path, message }] };
+}
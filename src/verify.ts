@@ -1,13 +1,74 @@
-import { Address } from '@ton/core';
+import { Address, Cell } from '@ton/core';
 import nacl from 'tweetnacl';
-import { SignDataResult } from './types';
-import { createTextBinaryHash, createCellHash } from './utils';
+import { SignDataPayload, SignDataResult } from './types';
+import {
+    createSignDataHash,
+    createSignDataHashAsync,
+    encodeDnsName,
+    isBase64,
+    signDataPayloadSize,
+} from './utils';
+import { parseStateInit, publicKeyFromStateInit } from './state-init';
+import { PublicKeyResolver, ResolveContext } from './resolver';
+import {
+    checkFreshness,
+    FreshnessOptions,
+    payloadContainsNonce,
+    SeenSignatureStore,
+    SeenSignatureStoreFullError,
+} from './replay';
+import { checkDomain, DomainPolicyOptions } from './domain';
+import { AddressFailure, AddressPolicyOptions, checkAddress } from './address';
+import { validateTlbCell } from './tlb-decode';
+import { getCryptoProvider, getSyncCryptoProvider } from './crypto';
+import { Challenge, checkChallenge, ChallengeFailure } from './challenge';
 
-export interface VerifyParams {
+/**
+ * Optional policy checks applied on top of the signature check.
+ */
+export interface VerifyOptions
+    extends FreshnessOptions, DomainPolicyOptions, AddressPolicyOptions {
+    expectedNonce?: string; // nonce that must be embedded in the payload
+    seenSignatures?: SeenSignatureStore; // rejects already used signatures
+    strictSchema?: boolean; // cell must fully match its TL-B schema
+    challenge?: Challenge; // issued challenge the signed data must answer
+    maxPayloadBytes?: number; // text (UTF-8), binary or cell BOC size limit
+}
+
+export interface VerifyParams extends VerifyOptions {
     signedData: SignDataResult;
-    publicKey: Buffer;
+    publicKey: Uint8Array;
 }
 
+export type VerifyFailureReason =
+    | 'malformed_address'
+    | 'malformed_signature'
+    | 'bad_signature_length'
+    | 'bad_public_key_length'
+    | 'malformed_timestamp'
+    | 'malformed_payload'
+    | 'payload_too_large'
+    | 'malformed_cell'
+    | 'schema_mismatch'
+    | AddressFailure
+    | 'malformed_domain'
+    | 'domain_mismatch'
+    | 'expired'
+    | 'timestamp_in_future'
+    | 'nonce_mismatch'
+    | ChallengeFailure
+    | 'invalid_signature'
+    | 'replayed'
+    | 'replay_store_full'
+    | 'malformed_state_init'
+    | 'public_key_not_found';
+
+export type VerifyResult =
+    | { valid: true }
+    | { valid: false; reason: VerifyFailureReason; message: string };
+
+export type VerifyFailure = Extract<VerifyResult, { valid: false }>;
+
 /**
  * Verifies sign-data signature.
  *
@@ -16,24 +77,583 @@ export interface VerifyParams {
  * 2. binary - for arbitrary binary data
  * 3. cell - for TON Cell with TL-B schema
  *
+ * Domain allowlist and replay protection (freshness window, expected nonce
+ * and a store of already seen signatures) are opt-in through `VerifyOptions`.
+ * The store is updated only after every other check has passed, and is keyed
+ * by the signed message hash, so a re-encoded signature of the same message
+ * is still a replay.
+ *
  * @param params Verification parameters
  * @returns true if signature is valid
  */
 export function verifySignData(params: VerifyParams): boolean {
-    const { signedData, publicKey } = params;
-    const { signature, address, timestamp, domain, payload } = signedData;
-    const parsedAddr = Address.parse(address);
+    return verifySignDataDetailed(params).valid;
+}
 
-    // Create hash based on payload type
-    const finalHash =
-        payload.type === 'cell'
-            ? createCellHash(payload, parsedAddr, domain, timestamp)
-            : createTextBinaryHash(payload, parsedAddr, domain, timestamp);
+/**
+ * Verifies sign-data signature and explains why it was rejected.
+ *
+ * Same checks as `verifySignData`, but malformed input (address, base64,
+ * cell BOC, domain, ...) is reported as a failure reason instead of being
+ * thrown, so the result can be returned to the client as is.
+ *
+ * @param params Verification parameters
+ * @returns `{ valid: true }` or the first failed check
+ */
+export function verifySignDataDetailed(params: VerifyParams): VerifyResult {
+    const prepared = prepareVerification(params);
+    if ('valid' in prepared) {
+        return prepared;
+    }
+
+    const { payload, domain, timestamp } = params.signedData;
+    const finalHash = createSignDataHash(
+        payload,
+        prepared.parsedAddr,
+        domain,
+        timestamp
+    );
 
     // Verify Ed25519 signature
-    return nacl.sign.detached.verify(
+    const isValid = getSyncCryptoProvider().verifySync(
         new Uint8Array(finalHash),
-        new Uint8Array(Buffer.from(signature, 'base64')),
-        new Uint8Array(publicKey)
+        new Uint8Array(prepared.signature),
+        new Uint8Array(params.publicKey)
+    );
+    if (!isValid) {
+        return fail('invalid_signature', 'Signature does not match');
+    }
+
+    return markSignatureSeenSync(params, timestamp, finalHash);
+}
+
+/**
+ * Same as `verifySignDataDetailed`, hashing and checking the signature with
+ * the selected crypto provider even if it is asynchronous-only (e.g.
+ * WebCrypto).
+ */
+export async function verifySignDataAsync(
+    params: VerifyParams
+): Promise<VerifyResult> {
+    const prepared = prepareVerification(params);
+    if ('valid' in prepared) {
+        return prepared;
+    }
+
+    const { payload, domain, timestamp } = params.signedData;
+    const finalHash = await createSignDataHashAsync(
+        payload,
+        prepared.parsedAddr,
+        domain,
+        timestamp
+    );
+
+    const isValid = await getCryptoProvider().verify(
+        new Uint8Array(finalHash),
+        new Uint8Array(prepared.signature),
+        new Uint8Array(params.publicKey)
+    );
+    if (!isValid) {
+        return fail('invalid_signature', 'Signature does not match');
+    }
+
+    return checkReplay(params, finalHash);
+}
+
+/**
+ * Parsed address and decoded signature of input that passed every check
+ * before the signature check.
+ */
+export interface PreparedVerification {
+    parsedAddr: Address;
+    signature: Buffer;
+}
+
+/**
+ * Runs the checks of `verifySignDataDetailed` that come before hashing
+ * and the signature check.
+ *
+ * Lets batch verification check signatures elsewhere (e.g. in worker
+ * threads) and reuse parsed addresses.
+ *
+ * @returns failed check, or the parsed input to hash and check
+ */
+export function prepareVerification(
+    params: VerifyParams,
+    parseAddress = (address: string) => Address.parse(address)
+): PreparedVerification | VerifyFailure {
+    const { signedData, publicKey } = params;
+    const { signature, address, timestamp, domain, payload } = signedData;
+
+    const common = checkSignedFields(
+        { ...signedData, publicKey },
+        parseAddress
     );
+    if ('valid' in common) {
+        return common;
+    }
+
+    const payloadFailure = checkPayload(payload);
+    if (payloadFailure) {
+        return payloadFailure;
+    }
+    if (
+        params.maxPayloadBytes !== undefined &&
+        signDataPayloadSize(payload) > params.maxPayloadBytes
+    ) {
+        return fail(
+            'payload_too_large',
+            `Payload must be at most ${params.maxPayloadBytes} bytes`
+        );
+    }
+    if (params.strictSchema && payload.type === 'cell') {
+        const validation = validateTlbCell(payload.schema, payload.cell);
+        if (!validation.valid) {
+            return fail('schema_mismatch', validation.message);
+        }
+    }
+
+    if (typeof domain !== 'string') {
+        return fail('malformed_domain', 'Domain must be a string');
+    }
+    if (payload.type === 'cell') {
+        // Cell payload embeds TEP-81 encoded domain
+        try {
+            encodeDnsName(domain);
+        } catch (e) {
+            return fail('malformed_domain', (e as Error).message);
+        }
+    }
+
+    const policyFailure = checkPolicies(address, domain, timestamp, params);
+    if (policyFailure) {
+        return policyFailure;
+    }
+
+    if (
+        params.expectedNonce !== undefined &&
+        !payloadContainsNonce(payload, params.expectedNonce)
+    ) {
+        return fail(
+            'nonce_mismatch',
+            'Payload does not contain expected nonce'
+        );
+    }
+
+    const challengeFailure = checkChallengeAnswer(signedData, params);
+    if (challengeFailure) {
+        return challengeFailure;
+    }
+
+    return common;
+}
+
+/**
+ * Fields every proof type carries: who signed, when, and the signature.
+ */
+export interface SignedFields {
+    address: string;
+    signature: string; // base64
+    timestamp: number;
+    publicKey: Uint8Array;
+    addressRaw?: string; // must match `address` if set
+    addressFriendly?: string; // must match `address` if set
+}
+
+/**
+ * Checks the address, signature, public key and timestamp of a proof of
+ * any type (sign-data, ton_proof).
+ *
+ * @returns failed check, or the parsed address and decoded signature
+ */
+export function checkSignedFields(
+    fields: SignedFields,
+    parseAddress = (address: string) => Address.parse(address)
+): PreparedVerification | VerifyFailure {
+    const { address, signature, timestamp, publicKey } = fields;
+
+    let parsedAddr: Address;
+    try {
+        parsedAddr = parseAddress(address);
+    } catch {
+        return fail('malformed_address', `Invalid address "${address}"`);
+    }
+    for (const form of [fields.addressRaw, fields.addressFriendly]) {
+        if (form !== undefined && !sameAddress(form, parsedAddr)) {
+            return fail(
+                'malformed_address',
+                `Address form "${form}" does not match "${address}"`
+            );
+        }
+    }
+
+    if (typeof signature !== 'string' || !isBase64(signature)) {
+        return fail('malformed_signature', 'Signature is not valid base64');
+    }
+    const signatureBuffer = Buffer.from(signature, 'base64');
+    if (signatureBuffer.length !== nacl.sign.signatureLength) {
+        return fail(
+            'bad_signature_length',
+            `Signature must be ${nacl.sign.signatureLength} bytes, got ${signatureBuffer.length}`
+        );
+    }
+    if (publicKey.length !== nacl.sign.publicKeyLength) {
+        return fail(
+            'bad_public_key_length',
+            `Public key must be ${nacl.sign.publicKeyLength} bytes, got ${publicKey.length}`
+        );
+    }
+
+    if (!Number.isSafeInteger(timestamp) || timestamp < 0) {
+        return fail(
+            'malformed_timestamp',
+            `Timestamp must be a non-negative integer, got ${timestamp}`
+        );
+    }
+
+    return { parsedAddr, signature: signatureBuffer };
+}
+
+/**
+ * Applies the network, workchain allowlist, freshness window and domain
+ * allowlist to a proof of any type, whose address is already parsed.
+ *
+ * @returns failed check, or null
+ */
+export function checkPolicies(
+    address: string,
+    domain: string,
+    timestamp: number,
+    options: VerifyOptions
+): VerifyFailure | null {
+    const addressFailure = checkAddress(address, options);
+    if (addressFailure) {
+        return fail(addressFailure, ADDRESS_MESSAGES[addressFailure]);
+    }
+
+    const freshnessFailure = checkFreshness(timestamp, options);
+    if (freshnessFailure === 'expired') {
+        return fail(
+            'expired',
+            `Signature is older than ${options.maxAgeSeconds} seconds`
+        );
+    }
+    if (freshnessFailure === 'timestamp_in_future') {
+        return fail(
+            'timestamp_in_future',
+            'Signature timestamp is in the future'
+        );
+    }
+
+    const domainFailure = checkDomain(domain, options);
+    if (domainFailure) {
+        return fail(
+            domainFailure,
+            domainFailure === 'domain_mismatch'
+                ? `Domain "${domain}" is not allowed`
+                : `Invalid domain "${domain}"`
+        );
+    }
+    return null;
+}
+
+/**
+ * Checks that the signed payload and domain answer `options.challenge`, if
+ * set.
+ *
+ * @returns failed check, or null
+ */
+export function checkChallengeAnswer(
+    signed: { payload: SignDataPayload; domain: string },
+    options: VerifyOptions
+): VerifyFailure | null {
+    if (!options.challenge) {
+        return null;
+    }
+    const challengeFailure = checkChallenge(
+        signed,
+        options.challenge,
+        options.now
+    );
+    return challengeFailure
+        ? fail(challengeFailure, CHALLENGE_MESSAGES[challengeFailure])
+        : null;
+}
+
+/**
+ * Records a verified signature in `seenSignatures`, if set.
+ *
+ * @returns `replayed` failure if the signature was already used,
+ *          `replay_store_full` if the store has no room to record it
+ * @throws if `seenSignatures` is set without `maxAgeSeconds`, or if the
+ *         store fails to record the signature for another reason
+ */
+export function checkReplay(
+    params: VerifyParams,
+    finalHash: Buffer
+): Promise<VerifyResult> {
+    return markSignatureSeen(params, params.signedData.timestamp, finalHash);
+}
+
+/**
+ * Same as `checkReplay`, for a proof of any type signed at `timestamp`.
+ */
+export async function markSignatureSeen(
+    options: VerifyOptions,
+    timestamp: number,
+    finalHash: Buffer
+): Promise<VerifyResult> {
+    if (!options.seenSignatures) {
+        return { valid: true };
+    }
+    const expiresAt = signatureExpiry(options, timestamp);
+    try {
+        const isFirstUse = await options.seenSignatures.markSeen(
+            finalHash.toString('hex'),
+            expiresAt
+        );
+        return replayResult(isFirstUse);
+    } catch (e) {
+        return storeFullResult(e);
+    }
+}
+
+/**
+ * Same as `markSignatureSeen`, for the synchronous verification functions.
+ *
+ * @throws also if `seenSignatures` answers with a promise
+ */
+export function markSignatureSeenSync(
+    options: VerifyOptions,
+    timestamp: number,
+    finalHash: Buffer
+): VerifyResult {
+    if (!options.seenSignatures) {
+        return { valid: true };
+    }
+    const expiresAt = signatureExpiry(options, timestamp);
+    let isFirstUse: Promise<boolean> | boolean;
+    try {
+        isFirstUse = options.seenSignatures.markSeen(
+            finalHash.toString('hex'),
+            expiresAt
+        );
+    } catch (e) {
+        return storeFullResult(e);
+    }
+    if (typeof isFirstUse !== 'boolean') {
+        // Not awaited, its failure must not go unhandled
+        isFirstUse.catch(() => undefined);
+        throw new Error(
+            'seenSignatures is asynchronous, use the ...Async verification functions'
+        );
+    }
+    return replayResult(isFirstUse);
+}
+
+// Entries of a store must expire, or it would fill up for good
+function signatureExpiry(options: VerifyOptions, timestamp: number): number {
+    if (options.maxAgeSeconds === undefined) {
+        throw new Error('seenSignatures requires maxAgeSeconds');
+    }
+    return timestamp + options.maxAgeSeconds;
+}
+
+function replayResult(isFirstUse: boolean): VerifyResult {
+    return isFirstUse
+        ? { valid: true }
+        : fail('replayed', 'Signature was already used');
+}
+
+// A full store refuses the signature; other store errors are rethrown
+function storeFullResult(e: unknown): VerifyResult {
+    if (e instanceof SeenSignatureStoreFullError) {
+        return fail('replay_store_full', e.message);
+    }
+    throw e;
+}
+
+const ADDRESS_MESSAGES: Record<AddressFailure, string> = {
+    network_mismatch: 'Address is flagged for another network',
+    workchain_not_allowed: 'Address workchain is not allowed',
+};
+
+const CHALLENGE_MESSAGES: Record<ChallengeFailure, string> = {
+    challenge_mismatch: 'Payload is not the issued challenge',
+    challenge_domain_mismatch: 'Domain is not the one of the challenge',
+    challenge_expired: 'Challenge has expired',
+};
+
+function fail(reason: VerifyFailureReason, message: string): VerifyFailure {
+    return { valid: false, reason, message };
+}
+
+function sameAddress(form: unknown, parsedAddr: Address): boolean {
+    try {
+        return (
+            typeof form === 'string' && Address.parse(form).equals(parsedAddr)
+        );
+    } catch {
+        return false;
+    }
+}
+
+function checkPayload(payload: SignDataPayload): VerifyFailure | null {
+    switch (payload?.type) {
+        case 'text':
+            return typeof payload.text === 'string'
+                ? null
+                : fail('malformed_payload', 'Text payload must be a string');
+        case 'binary':
+            return typeof payload.bytes === 'string' && isBase64(payload.bytes)
+                ? null
+                : fail(
+                      'malformed_payload',
+                      'Binary payload is not valid base64'
+                  );
+        case 'cell':
+            if (typeof payload.schema !== 'string') {
+                return fail(
+                    'malformed_payload',
+                    'Cell schema must be a string'
+                );
+            }
+            if (typeof payload.cell !== 'string' || !isBase64(payload.cell)) {
+                return fail('malformed_cell', 'Cell is not valid base64');
+            }
+            try {
+                Cell.fromBase64(payload.cell);
+            } catch (e) {
+                return fail(
+                    'malformed_cell',
+                    `Invalid cell BOC: ${(e as Error).message}`
+                );
+            }
+            return null;
+        default:
+            return fail('malformed_payload', 'Unknown payload type');
+    }
+}
+
+export interface VerifyWithStateInitParams extends VerifyOptions {
+    signedData: SignDataResult;
+    walletStateInit: string; // base64 (not url safe) encoded StateInit BOC
+}
+
+/**
+ * Verifies sign-data signature without a known public key.
+ *
+ * The public key is read from the wallet StateInit, which TON Connect sends
+ * alongside the account. The StateInit hash must match `signedData.address`,
+ * so no chain access is required.
+ *
+ * @param params Verification parameters
+ * @returns true if StateInit matches the address and signature is valid
+ */
+export function verifySignDataWithStateInit(
+    params: VerifyWithStateInitParams
+): boolean {
+    return verifySignDataWithStateInitDetailed(params).valid;
+}
+
+/**
+ * Same as `verifySignDataWithStateInit`, but explains why it was rejected.
+ * A malformed address or StateInit BOC is reported as a failure reason
+ * instead of being thrown.
+ *
+ * @returns `{ valid: true }` or the first failed check
+ */
+export function verifySignDataWithStateInitDetailed(
+    params: VerifyWithStateInitParams
+): VerifyResult {
+    const { signedData, walletStateInit, ...options } = params;
+    const parsed = parseSignerInput(signedData.address, walletStateInit);
+    if ('valid' in parsed) {
+        return parsed;
+    }
+
+    const publicKey = publicKeyFromStateInit(walletStateInit, parsed.address);
+    if (!publicKey) {
+        return fail(
+            'public_key_not_found',
+            'StateInit does not match the address or the wallet is unknown'
+        );
+    }
+
+    return verifySignDataDetailed({ ...options, signedData, publicKey });
+}
+
+export interface VerifyWithResolverParams extends VerifyOptions {
+    signedData: SignDataResult;
+    resolver: PublicKeyResolver;
+    context?: ResolveContext;
+}
+
+/**
+ * Verifies sign-data signature, resolving the public key of the signer
+ * through a `PublicKeyResolver` (StateInit, chain lookup, cache, ...).
+ *
+ * @param params Verification parameters
+ * @returns true if public key was resolved and signature is valid
+ * @throws (rejects) if the resolver fails
+ */
+export async function verifySignDataWithResolver(
+    params: VerifyWithResolverParams
+): Promise<boolean> {
+    return (await verifySignDataWithResolverDetailed(params)).valid;
+}
+
+/**
+ * Same as `verifySignDataWithResolver`, but explains why it was rejected.
+ * A malformed address or `context.walletStateInit` BOC is reported as a
+ * failure reason before the resolver is called.
+ *
+ * @returns `{ valid: true }` or the first failed check
+ * @throws (rejects) if the resolver fails
+ */
+export async function verifySignDataWithResolverDetailed(
+    params: VerifyWithResolverParams
+): Promise<VerifyResult> {
+    const { signedData, resolver, context, ...options } = params;
+    const parsed = parseSignerInput(
+        signedData.address,
+        context?.walletStateInit
+    );
+    if ('valid' in parsed) {
+        return parsed;
+    }
+
+    const publicKey = await resolver.resolvePublicKey(parsed.address, context);
+    if (!publicKey) {
+        return fail(
+            'public_key_not_found',
+            'Cannot resolve the public key of the wallet'
+        );
+    }
+
+    return verifySignDataDetailed({ ...options, signedData, publicKey });
+}
+
+// Parses what the public key is resolved from, before trusting it to a resolver
+function parseSignerInput(
+    address: string,
+    walletStateInit: string | undefined
+): { address: Address } | VerifyFailure {
+    let parsedAddr: Address;
+    try {
+        parsedAddr = Address.parse(address);
+    } catch {
+        return fail('malformed_address', `Invalid address "${address}"`);
+    }
+    if (walletStateInit !== undefined) {
+        try {
+            parseStateInit(walletStateInit);
+        } catch (e) {
+            return fail(
+                'malformed_state_init',
+                `Invalid StateInit BOC: ${(e as Error).message}`
+            );
+        }
+    }
+    return { address: parsedAddr };
 }
@@ -0,0 +1,237 @@
+import { Address } from '@ton/core';
+import { SignDataPayload, SignDataResult, TonNetwork } from './types';
+import { signDataWith } from './sign';
+import { Signer } from './signer';
+import { renderSignPreview, SignPreview } from './preview';
+import { validateTlbCell } from './tlb-decode';
+import {
+    formatSchemaErrors,
+    parseSignDataPayload,
+    SignDataLimits,
+} from './validate';
+
+/**
+ * Error codes of the TON Connect `signData` method.
+ */
+export const SIGN_DATA_ERROR_CODES = {
+    UNKNOWN_ERROR: 0,
+    BAD_REQUEST_ERROR: 1,
+    UNKNOWN_APP_ERROR: 100,
+    USER_REJECTS_ERROR: 300,
+    METHOD_NOT_SUPPORTED: 400,
+} as const;
+
+export type SignDataErrorCode =
+    (typeof SIGN_DATA_ERROR_CODES)[keyof typeof SIGN_DATA_ERROR_CODES];
+
+/**
+ * `signData` JSON-RPC request, as received from the dApp through the
+ * bridge. The only param is the JSON encoded payload, optionally with the
+ * `network` and `from` the request is meant for.
+ */
+export interface SignDataRpcRequest {
+    method: 'signData';
+    params: [string];
+    id: string;
+}
+
+export type SignDataRpcResponse =
+    | { result: SignDataResult; id: string }
+    | { error: { code: SignDataErrorCode; message: string }; id: string };
+
+/**
+ * What the user is asked to approve.
+ */
+export interface SignDataApprovalRequest {
+    payload: SignDataPayload;
+    domain: string; // domain of the connected app
+    address: string; // wallet address, raw form
+    preview: SignPreview;
+}
+
+export interface SignDataRequestHandlerOptions {
+    signer: Signer;
+    address: string; // wallet address the app is connected to
+    network?: TonNetwork; // network of the wallet, checked against requests
+    appUrl: string; // `url` of the connected app's tonconnect-manifest.json
+
+    /**
+     * Asks the user to confirm; resolves to false if they decline.
+     */
+    approve(request: SignDataApprovalRequest): boolean | Promise<boolean>;
+
+    supportedTypes?: SignDataPayload['type'][]; // defaults to all
+    strictSchema?: boolean; // reject cell payload that does not match its schema
+    limits?: Partial<SignDataLimits>;
+}
+
+/**
+ * Turns a raw `signData` request into its response; never throws.
+ */
+export type SignDataRequestHandler = (
+    request: unknown
+) => Promise<SignDataRpcResponse>;
+
+/**
+ * Creates the wallet-side handler of `signData` requests of one connected
+ * app.
+ *
+ * The payload is validated with `parseSignDataPayload` (strict, so that
+ * fields the wallet does not show are never signed) and signed with
+ * `signDataWith` for the host name of `appUrl`, which TON Connect defines
+ * as the app domain, never for a domain taken from the request. A cell
+ * payload is decoded for the preview within the `validateTlbCell` limits.
+ * Responds with:
+ *
+ *   • BAD_REQUEST_ERROR    — malformed request or payload, or `from` or
+ *                            `network` is another account or network
+ *   • METHOD_NOT_SUPPORTED — method is not `signData`, or the payload type
+ *                            is not in `supportedTypes`
+ *   • USER_REJECTS_ERROR   — `approve` resolved to false
+ *   • UNKNOWN_ERROR        — `approve` or the signer failed
+ *
+ * @throws if `appUrl` or `address` is invalid
+ */
+export function createSignDataRequestHandler(
+    options: SignDataRequestHandlerOptions
+): SignDataRequestHandler {
+    const { signer, approve, strictSchema, limits } = options;
+    const supportedTypes = options.supportedTypes ?? ['text', 'binary', 'cell'];
+    const domain = new URL(options.appUrl).hostname;
+    const wallet = Address.parse(options.address);
+    const address = wallet.toRawString();
+
+    return async (request) => {
+        if (typeof request !== 'object' || request === null) {
+            return error('', 'BAD_REQUEST_ERROR', 'Request must be an object');
+        }
+        const {
+            method,
+            params,
+            id: rawId,
+        } = request as Record<string, unknown>;
+        const id = typeof rawId === 'string' ? rawId : String(rawId ?? '');
+
+        if (method !== 'signData') {
+            return error(
+                id,
+                'METHOD_NOT_SUPPORTED',
+                `Method "${String(method)}" is not supported`
+            );
+        }
+        if (
+            !Array.isArray(params) ||
+            params.length !== 1 ||
+            typeof params[0] !== 'string'
+        ) {
+            return error(
+                id,
+                'BAD_REQUEST_ERROR',
+                'Params must be a single JSON string'
+            );
+        }
+
+        let input: unknown;
+        try {
+            input = JSON.parse(params[0]);
+        } catch {
+            return error(id, 'BAD_REQUEST_ERROR', 'Params are not valid JSON');
+        }
+        if (typeof input !== 'object' || input === null) {
+            return error(id, 'BAD_REQUEST_ERROR', 'Payload must be an object');
+        }
+        // `from` and `network` address the request, they are not signed
+        const { from, network, ...fields } = input as Record<string, unknown>;
+
+        if (!supportedTypes.includes(fields.type as SignDataPayload['type'])) {
+            return error(
+                id,
+                'METHOD_NOT_SUPPORTED',
+                `Payload type "${String(fields.type)}" is not supported`
+            );
+        }
+        const parsed = parseSignDataPayload(fields, {
+            strict: true,
+            limits,
+        });
+        if (!parsed.valid) {
+            return error(
+                id,
+                'BAD_REQUEST_ERROR',
+                `Invalid payload: ${formatSchemaErrors(parsed.errors)}`
+            );
+        }
+        const payload = parsed.value;
+        if (strictSchema && payload.type === 'cell') {
+            const validation = validateTlbCell(payload.schema, payload.cell);
+            if (!validation.valid) {
+                return error(
+                    id,
+                    'BAD_REQUEST_ERROR',
+                    `Cell does not match schema: ${validation.message}`
+                );
+            }
+        }
+        if (
+            network !== undefined &&
+            options.network !== undefined &&
+            network !== options.network
+        ) {
+            return error(
+                id,
+                'BAD_REQUEST_ERROR',
+                `Request is for network ${String(network)}`
+            );
+        }
+        if (from !== undefined && !isWallet(from, wallet)) {
+            return error(
+                id,
+                'BAD_REQUEST_ERROR',
+                'Request is for another account'
+            );
+        }
+
+        try {
+            const approved = await approve({
+                payload,
+                domain,
+                address,
+                preview: renderSignPreview(payload, domain, address),
+            });
+            if (!approved) {
+                return error(
+                    id,
+                    'USER_REJECTS_ERROR',
+                    'User rejected the request'
+                );
+            }
+            const { signature, timestamp } = await signDataWith(signer, {
+                payload,
+                domain,
+                address,
+            });
+            return {
+                result: { signature, address, timestamp, domain, payload },
+                id,
+            };
+        } catch {
+            return error(id, 'UNKNOWN_ERROR', 'Failed to sign the data');
+        }
+    };
+}
+
+function isWallet(from: unknown, wallet: Address): boolean {
+    try {
+        return typeof from === 'string' && Address.parse(from).equals(wallet);
+    } catch {
+        return false;
+    }
+}
+
+function error(
+    id: string,
+    code: keyof typeof SIGN_DATA_ERROR_CODES,
+    message: string
+): SignDataRpcResponse {
+    return { error: { code: SIGN_DATA_ERROR_CODES[code], message }, id };
+}
@@ -0,0 +1,330 @@
+"""Independent implementation of TON Connect sign-data hashing and signing.
+
+Written from the TON Connect specification (requests-responses.md, "Sign
+Data") with the Python standard library only: it shares no code with the
+TypeScript library or @ton/core. Ed25519 is the reference code of RFC 8032,
+section 6, checked against RFC 8032 test vector 1 before use.
+
+Prints the "independent_*" vectors of sign-data.v1.json:
+
+    python3 test-vectors/reference/sign_data.py
+"""
+
+import base64
+import hashlib
+import json
+import zlib
+
+# --- Ed25519, RFC 8032 section 6 ---------------------------------------------
+
+p = 2**255 - 19
+q = 2**252 + 27742317777372353535851937790883648493
+
+
+def modp_inv(x):
+    return pow(x, p - 2, p)
+
+
+d = -121665 * modp_inv(121666) % p
+modp_sqrt_m1 = pow(2, (p - 1) // 4, p)
+
+
+def sha512_modq(s):
+    return int.from_bytes(hashlib.sha512(s).digest(), "little") % q
+
+
+def point_add(P, Q):
+    A, B = (P[1] - P[0]) * (Q[1] - Q[0]) % p, (P[1] + P[0]) * (Q[1] + Q[0]) % p
+    C, D = 2 * P[3] * Q[3] * d % p, 2 * P[2] * Q[2] % p
+    E, F, G, H = B - A, D - C, D + C, B + A
+    return (E * F, G * H, F * G, E * H)
+
+
+def point_mul(s, P):
+    Q = (0, 1, 1, 0)
+    while s > 0:
+        if s & 1:
+            Q = point_add(Q, P)
+        P = point_add(P, P)
+        s >>= 1
+    return Q
+
+
+def recover_x(y, sign):
+    x2 = (y * y - 1) * modp_inv(d * y * y + 1)
+    x = pow(x2, (p + 3) // 8, p)
+    if (x * x - x2) % p != 0:
+        x = x * modp_sqrt_m1 % p
+    if (x & 1) != sign:
+        x = p - x
+    return x
+
+
+g_y = 4 * modp_inv(5) % p
+g_x = recover_x(g_y, 0)
+G = (g_x, g_y, 1, g_x * g_y % p)
+
+
+def point_compress(P):
+    zinv = modp_inv(P[2])
+    x, y = P[0] * zinv % p, P[1] * zinv % p
+    return int.to_bytes(y | ((x & 1) << 255), 32, "little")
+
+
+def secret_expand(secret):
+    h = hashlib.sha512(secret).digest()
+    a = int.from_bytes(h[:32], "little")
+    a &= (1 << 254) - 8
+    a |= 1 << 254
+    return a, h[32:]
+
+
+def secret_to_public(secret):
+    a, _ = secret_expand(secret)
+    return point_compress(point_mul(a, G))
+
+
+def ed25519_sign(secret, msg):
+    a, prefix = secret_expand(secret)
+    A = point_compress(point_mul(a, G))
+    r = sha512_modq(prefix + msg)
+    Rs = point_compress(point_mul(r, G))
+    h = sha512_modq(Rs + A + msg)
+    s = (r + h * a) % q
+    return Rs + int.to_bytes(s, 32, "little")
+
+
+# RFC 8032, section 7.1, TEST 1
+RFC8032_SECRET = bytes.fromhex(
+    "9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60"
+)
+assert secret_to_public(RFC8032_SECRET).hex() == (
+    "d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a"
+)
+assert ed25519_sign(RFC8032_SECRET, b"").hex() == (
+    "e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065"
+    "224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b"
+)
+
+# --- Addresses ----------------------------------------------------------------
+
+
+def parse_address(address):
+    """Returns (workchain, hash) of a raw or user-friendly address."""
+    if ":" in address:
+        wc, account = address.split(":")
+        return int(wc), bytes.fromhex(account)
+    data = base64.urlsafe_b64decode(address)
+    assert len(data) == 36
+    wc = data[1] - 256 if data[1] >= 128 else data[1]
+    return wc, data[2:34]
+
+
+# --- Cells (TVM whitepaper, section 3.1) --------------------------------------
+
+
+class Cell:
+    def __init__(self, bits, refs=()):
+        assert len(bits) <= 1023 and len(refs) <= 4
+        self.bits = bits  # string of "0"/"1"
+        self.refs = list(refs)
+
+    def descriptors(self):
+        bits = len(self.bits)
+        return bytes([len(self.refs), bits // 8 + (bits + 7) // 8])
+
+    def padded_data(self):
+        bits = self.bits
+        if len(bits) % 8:
+            bits += "1" + "0" * (7 - len(bits) % 8)
+        return int(bits, 2).to_bytes(len(bits) // 8, "big") if bits else b""
+
+    def depth(self):
+        return max((r.depth() + 1 for r in self.refs), default=0)
+
+    def hash(self):
+        data = self.descriptors() + self.padded_data()
+        for r in self.refs:
+            data += r.depth().to_bytes(2, "big")
+        for r in self.refs:
+            data += r.hash()
+        return hashlib.sha256(data).digest()
+
+
+def uint(value, bits):
+    return format(value, "0%db" % bits) if bits else ""
+
+
+def int_bits(value, bits):
+    return uint(value % (1 << bits), bits)
+
+
+def byte_bits(data):
+    return "".join(format(b, "08b") for b in data)
+
+
+def crc32c(data):
+    crc = 0xFFFFFFFF
+    for b in data:
+        crc ^= b
+        for _ in range(8):
+            crc = (crc >> 1) ^ (0x82F63B78 if crc & 1 else 0)
+    return (crc ^ 0xFFFFFFFF).to_bytes(4, "little")
+
+
+def to_boc(root):
+    """Serializes a tree of distinct cells as a BOC with CRC32C, cells in
+    depth-first pre-order."""
+    cells = []
+
+    def visit(cell):
+        cells.append(cell)
+        for r in cell.refs:
+            visit(r)
+
+    visit(root)
+    index = {id(c): i for i, c in enumerate(cells)}
+    body = b""
+    for c in cells:
+        body += c.descriptors() + c.padded_data()
+        body += bytes(index[id(r)] for r in c.refs)
+    assert len(cells) < 256 and len(body) < 256
+    boc = (
+        bytes.fromhex("b5ee9c72")
+        + bytes([0x41, 1])  # crc32c, 1-byte cell indexes, 1-byte offsets
+        + bytes([len(cells), 1, 0, len(body), 0])
+        + body
+    )
+    return boc + crc32c(boc)
+
+
+# --- TON Connect sign-data ----------------------------------------------------
+
+
+def text_binary_message(kind, payload, address, domain, timestamp):
+    wc, account = parse_address(address)
+    domain_bytes = domain.encode("utf-8")
+    return (
+        b"\xff\xff"
+        + b"ton-connect/sign-data/"
+        + wc.to_bytes(4, "big", signed=True)
+        + account
+        + len(domain_bytes).to_bytes(4, "big")
+        + domain_bytes
+        + timestamp.to_bytes(8, "big")
+        + kind
+        + len(payload).to_bytes(4, "big")
+        + payload
+    )
+
+
+def dns_name(domain):
+    """TEP-81 internal representation of a lower-case ASCII domain."""
+    return b"".join(label.encode("ascii") + b"\0" for label in reversed(domain.split(".")))
+
+
+def cell_message(schema, payload, address, domain, timestamp):
+    """message#75569022 schema_hash:uint32 timestamp:uint64 userAddress:MsgAddress
+    {n:#} appDomain:^(SnakeData ~n) payload:^Cell = Message n;"""
+    wc, account = parse_address(address)
+    name = dns_name(domain)
+    assert len(name) <= 127
+    bits = (
+        uint(0x75569022, 32)
+        + uint(zlib.crc32(schema.encode("utf-8")), 32)
+        + uint(timestamp, 64)
+        + "100"  # addr_std$10 anycast:nothing
+        + int_bits(wc, 8)
+        + byte_bits(account)
+    )
+    return Cell(bits, [Cell(byte_bits(name)), payload])
+
+
+def vector(name, description, seed, address, domain, timestamp, payload, cell=None):
+    secret = bytes.fromhex(seed)
+    if payload["type"] == "cell":
+        message = cell_message(payload["schema"], cell, address, domain, timestamp)
+        message_out = base64.b64encode(to_boc(message)).decode()
+        digest = message.hash()
+    else:
+        if payload["type"] == "text":
+            kind, data = b"txt", payload["text"].encode("utf-8")
+        else:
+            kind, data = b"bin", base64.b64decode(payload["bytes"])
+        message = text_binary_message(kind, data, address, domain, timestamp)
+        message_out = message.hex()
+        digest = hashlib.sha256(message).digest()
+    return {
+        "name": name,
+        "description": description,
+        "source": "test-vectors/reference/sign_data.py",
+        "seed": seed,
+        "publicKey": secret_to_public(secret).hex(),
+        "address": address,
+        "domain": domain,
+        "timestamp": timestamp,
+        "payload": payload,
+        "expected": {
+            "message": message_out,
+            "hash": digest.hex(),
+            "signature": base64.b64encode(ed25519_sign(secret, digest)).decode(),
+        },
+    }
+
+
+def comment_cell(text):
+    return Cell(uint(0, 32) + byte_bits(text.encode("utf-8")))
+
+
+SEED = RFC8032_SECRET.hex()
+ADDRESS = "0:" + hashlib.sha256(b"independent sign-data vector").hexdigest()
+MASTERCHAIN_ADDRESS = "-1:" + hashlib.sha256(b"independent masterchain vector").hexdigest()
+COMMENT_SCHEMA = "comment#00000000 text:string = Comment;"
+
+comment = comment_cell("Hello, TON!")
+vectors = [
+    vector(
+        "independent_text",
+        "Text payload, RFC 8032 test 1 key, raw address",
+        SEED,
+        ADDRESS,
+        "ton-connect.github.io",
+        1735689600,
+        {"type": "text", "text": "Confirm login to ton-connect.github.io"},
+    ),
+    vector(
+        "independent_binary_masterchain",
+        "Binary payload of bytes 0..255 signed by a masterchain address",
+        SEED,
+        MASTERCHAIN_ADDRESS,
+        "example.com",
+        1700000000,
+        {"type": "binary", "bytes": base64.b64encode(bytes(range(256))).decode()},
+    ),
+    vector(
+        "independent_cell",
+        "Cell payload holding a text comment",
+        SEED,
+        ADDRESS,
+        "app.example.com",
+        1735689600,
+        {"type": "cell", "schema": COMMENT_SCHEMA, "cell": base64.b64encode(to_boc(comment)).decode()},
+        comment,
+    ),
+    vector(
+        "independent_cell_masterchain",
+        "Cell payload with a referenced cell, signed by a masterchain address",
+        SEED,
+        MASTERCHAIN_ADDRESS,
+        "example.com",
+        4294967296,
+        {
+            "type": "cell",
+            "schema": COMMENT_SCHEMA + " pair#_ left:uint8 right:^Comment = Pair;",
+            "cell": base64.b64encode(to_boc(Cell(uint(7, 8), [comment_cell("right")]))).decode(),
+        },
+        Cell(uint(7, 8), [comment_cell("right")]),
+    ),
+]
+
+print(json.dumps(vectors, indent=2, ensure_ascii=False))
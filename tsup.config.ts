@@ -0,0 +1,22 @@
+import { defineConfig, Options } from 'tsup';
+
+const library: Options = {
+    entry: ['src/node.ts', 'src/browser.ts'],
+    target: 'es2022',
+    // browsers and edge runtimes have no punycode module to resolve
+    noExternal: ['punycode'],
+};
+
+export default defineConfig([
+    { ...library, format: 'esm', dts: true, clean: true },
+    // shims provide import.meta.url (test vectors, worker pool); kept out of
+    // the ES build, where they would import node:path and node:url
+    { ...library, format: 'cjs', dts: true, shims: true },
+    {
+        // scripts with top-level await: ES modules only
+        entry: ['src/cli.ts', 'src/index.ts'],
+        format: 'esm',
+        target: 'es2022',
+        noExternal: ['punycode'],
+    },
+]);
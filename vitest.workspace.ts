@@ -0,0 +1,69 @@
+import { defineWorkspace } from 'vitest/config';
+
+// Tests of modules that import Node.js built-ins, directly or not
+const NODE_ONLY_TESTS = [
+    'src/__tests__/batch.test.ts',
+    'src/__tests__/cli.test.ts',
+    'src/__tests__/conformance.test.ts',
+    'src/__tests__/crypto.test.ts',
+    'src/__tests__/http.test.ts',
+    'src/__tests__/portability.test.ts',
+    'src/__tests__/signer.test.ts',
+];
+
+// Tests that select providers themselves or never hash or sign; they run
+// in the `node` project only
+const PROVIDER_INDEPENDENT_TESTS = [
+    'src/__tests__/browser.test.ts',
+    'src/__tests__/crypto.test.ts',
+    'src/__tests__/encode-dns.test.ts',
+    'src/__tests__/portability.test.ts',
+    'src/__tests__/tlb.test.ts',
+];
+
+// Tests of the asynchronous functions (`...Async`, signers, tokens,
+// streams, HTTP and JSON-RPC handlers). They are the only ones that use an
+// asynchronous-only provider: with WebCrypto selected, the synchronous
+// functions keep the default provider (see `setCryptoProvider`)
+const ASYNC_API_TESTS = [
+    'src/__tests__/challenge.test.ts',
+    'src/__tests__/client.test.ts',
+    'src/__tests__/http.test.ts',
+    'src/__tests__/replay.test.ts',
+    'src/__tests__/session.test.ts',
+    'src/__tests__/signer.test.ts',
+    'src/__tests__/stream.test.ts',
+    'src/__tests__/ton-proof.test.ts',
+    'src/__tests__/wallet.test.ts',
+];
+
+const providerProject = (
+    provider: string,
+    include: string[],
+    exclude: string[] = []
+) => ({
+    test: {
+        name: provider,
+        include,
+        exclude,
+        setupFiles: ['src/__tests__/setup/crypto-provider.ts'],
+        env: { CRYPTO_PROVIDER: provider },
+    },
+});
+
+export default defineWorkspace([
+    // See src/crypto.ts for the providers
+    providerProject('node', ['src/**/*.test.ts']),
+    providerProject('nacl', ['src/**/*.test.ts'], PROVIDER_INDEPENDENT_TESTS),
+    providerProject('webcrypto', ASYNC_API_TESTS),
+    // Portable tests in a DOM-less, non-Node runtime (browser entry point)
+    {
+        test: {
+            name: 'edge-runtime',
+            environment: 'edge-runtime',
+            include: ['src/**/*.test.ts'],
+            setupFiles: ['src/__tests__/setup/browser-buffer.ts'],
+            exclude: NODE_ONLY_TESTS,
+        },
+    },
+]);